@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { Note, useNotesStore } from '../stores/notesStore';
+import { useAudioStore } from '../stores/audioStore';
+import { useAudioEditStore } from '../stores/audioEditStore';
+import { useWaveformPeaks } from '../hooks/useWaveformPeaks';
+import { formatTime } from '../utils/formatTime';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+
+type EditMode = 'trim' | 'cut' | 'split' | 'merge';
+
+const modes: { id: EditMode; label: string; description: string }[] = [
+  { id: 'trim', label: 'Trim', description: 'Keep only the selected part of the recording.' },
+  { id: 'cut', label: 'Cut', description: 'Remove the selected part from the middle of the recording.' },
+  { id: 'split', label: 'Split', description: 'Move everything after the split point into a new, linked note.' },
+  { id: 'merge', label: 'Merge', description: 'Append other notes\' recordings and transcripts to this one.' }
+];
+
+interface AudioEditorProps {
+  note: Note;
+  onClose: () => void;
+}
+
+/**
+ * Trim, cut, split and merge for a note's first recording. Edits are
+ * rendered to a new file; the original stays until the edit is kept.
+ */
+export const AudioEditor: React.FC<AudioEditorProps> = ({ note, onClose }) => {
+  const notes = useNotesStore(state => state.notes);
+  const { currentPlayingAudioUrl, globalAudioCurrentTime, playAudioFrom, setLoop, clearLoop, setIsUserInteracting } = useAudioStore();
+  const { processingNoteId, trimAudio, cutAudio, splitAudio, mergeAudio, confirmEdit, revertEdit } = useAudioEditStore();
+  // Decoded length, more precise than the whole seconds on the note
+  const { peaks } = useWaveformPeaks(note.audioUrl);
+  const duration = peaks?.duration ?? note.duration ?? 0;
+
+  const [mode, setMode] = useState<EditMode>('trim');
+  const [range, setRange] = useState<number[]>([0, duration]);
+  const [splitAt, setSplitAt] = useState(duration / 2);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+  // Selections start out spanning the whole recording once its length is known
+  useEffect(() => {
+    setRange([0, duration]);
+    setSplitAt(duration / 2);
+  }, [duration]);
+
+  const mergeCandidates = useMemo(() =>
+    notes
+      .filter(other => other.id !== note.id && other.audioUrl && other.type !== 'agent')
+      .sort((a, b) => a.created - b.created),
+    [notes, note.id]
+  );
+
+  const isProcessing = processingNoteId === note.id;
+  const isThisPlaying = !!note.audioUrl && currentPlayingAudioUrl === note.audioUrl;
+  const [start, end] = range;
+
+  if (note.originalAudio) {
+    return (
+      <div className="flex items-center gap-3 mt-3 pt-3 border-t border-border">
+        <p className="flex-1 text-sm text-muted-foreground">
+          {note.originalAudio.edit}. The original recording is kept until you keep this edit.
+        </p>
+        <Button onClick={() => revertEdit(note.id)} variant="ghost" size="sm" className="flex items-center gap-1">
+          <ArrowUturnLeftIcon className="w-4 h-4" />
+          Revert
+        </Button>
+        <Button onClick={() => confirmEdit(note.id)} variant="secondary" size="sm" className="flex items-center gap-1">
+          <CheckIcon className="w-4 h-4" />
+          Keep
+        </Button>
+      </div>
+    );
+  }
+
+  const previewSelection = async () => {
+    if (!note.audioUrl) return;
+    setIsUserInteracting(true);
+    await playAudioFrom(note.audioUrl, start);
+    setLoop(start, end);
+  };
+
+  const handleApply = async () => {
+    clearLoop();
+    switch (mode) {
+      case 'trim':
+        await trimAudio(note.id, start, end);
+        break;
+      case 'cut':
+        await cutAudio(note.id, start, end);
+        break;
+      case 'split':
+        await splitAudio(note.id, splitAt);
+        break;
+      case 'merge':
+        if (await mergeAudio(note.id, mergeCandidates.filter(other => mergeIds.includes(other.id)).map(other => other.id))) {
+          setMergeIds([]);
+        }
+        break;
+    }
+  };
+
+  const canApply = mode === 'merge'
+    ? mergeIds.length > 0
+    : mode === 'split'
+      ? splitAt > 0 && splitAt < duration
+      : end > start && (mode === 'cut' || start > 0 || end < duration);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-3">
+      <div className="flex items-center gap-1">
+        {modes.map(option => (
+          <Button
+            key={option.id}
+            onClick={() => setMode(option.id)}
+            variant={mode === option.id ? 'secondary' : 'ghost'}
+            size="sm"
+          >
+            {option.label}
+          </Button>
+        ))}
+        <div className="flex-1" />
+        <Button onClick={onClose} variant="ghost" size="icon" title="Close editor">
+          <XMarkIcon className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{modes.find(option => option.id === mode)?.description}</p>
+
+      {(mode === 'trim' || mode === 'cut') && (
+        <div className="space-y-2">
+          <Slider value={range} min={0} max={duration} step={0.1} minStepsBetweenThumbs={1} onValueChange={setRange} />
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              {mode === 'trim' ? 'Keep' : 'Remove'} {formatTime(start)} – {formatTime(end)} ({formatTime(end - start)})
+            </span>
+            <div className="flex items-center gap-1">
+              {isThisPlaying && (
+                <>
+                  <Button onClick={() => setRange([Math.min(globalAudioCurrentTime, end), end])} variant="ghost" size="sm">
+                    Start here
+                  </Button>
+                  <Button onClick={() => setRange([start, Math.max(globalAudioCurrentTime, start)])} variant="ghost" size="sm">
+                    End here
+                  </Button>
+                </>
+              )}
+              <Button onClick={previewSelection} variant="ghost" size="sm" disabled={end <= start}>
+                Loop selection
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {mode === 'split' && (
+        <div className="space-y-2">
+          <Slider value={[splitAt]} min={0} max={duration} step={0.1} onValueChange={([value]) => setSplitAt(value)} />
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>Split at {formatTime(splitAt)}</span>
+            {isThisPlaying && (
+              <Button onClick={() => setSplitAt(globalAudioCurrentTime)} variant="ghost" size="sm">
+                Split here
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'merge' && (
+        mergeCandidates.length > 0 ? (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {mergeCandidates.map(other => (
+              <label key={other.id} className="flex items-center gap-3 rounded-md px-2 py-1 text-sm hover:bg-accent/50">
+                <input
+                  type="checkbox"
+                  checked={mergeIds.includes(other.id)}
+                  onChange={e => setMergeIds(e.target.checked
+                    ? [...mergeIds, other.id]
+                    : mergeIds.filter(id => id !== other.id))}
+                  className="w-4 h-4 text-primary bg-background border-border rounded focus:ring-primary"
+                />
+                <span className="flex-1 truncate">{other.title || 'Untitled'}</span>
+                <span className="flex-shrink-0 text-xs text-muted-foreground">
+                  {format(new Date(other.created), 'PP')} · {formatTime(other.duration ?? 0)}
+                </span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No other notes have a recording to merge.</p>
+        )
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          {mode === 'merge' && mergeIds.length > 0
+            ? 'Chosen recordings are added after this one, oldest first.'
+            : 'Transcript timestamps and bookmarks move with the audio.'}
+        </p>
+        <Button onClick={handleApply} disabled={!canApply || isProcessing} size="sm">
+          {isProcessing ? 'Rendering...' : 'Apply'}
+        </Button>
+      </div>
+    </div>
+  );
+};
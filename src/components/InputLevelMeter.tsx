@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+
+interface InputLevelMeterProps {
+  stream: MediaStream | null;
+  compact?: boolean;
+  className?: string;
+}
+
+// Below this level (dBFS) the input counts as silent
+const SILENCE_DB = -50;
+// How long the input must stay silent before we warn about it
+const SILENCE_WARNING_MS = 3000;
+const METER_FLOOR_DB = -60;
+
+// Live microphone level, so users can see the mic is picking them up
+export const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ stream, compact = false, className }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [isSilent, setIsSilent] = useState(false);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) return;
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let level = 0;
+    let loudAt = performance.now();
+    let frame = 0;
+
+    // The bar is updated directly to avoid re-rendering every frame
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let energy = 0;
+      for (let i = 0; i < samples.length; i++) {
+        energy += samples[i] * samples[i];
+      }
+      const db = 20 * Math.log10(Math.sqrt(energy / samples.length) + 1e-9);
+      const target = Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+      // Rise instantly, fall slowly, like a hardware meter
+      level = target > level ? target : level * 0.92 + target * 0.08;
+      if (barRef.current) {
+        barRef.current.style.transform = `scaleX(${level})`;
+      }
+
+      const now = performance.now();
+      if (db > SILENCE_DB) loudAt = now;
+      setIsSilent(now - loudAt > SILENCE_WARNING_MS);
+
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      audioContext.close().catch(() => {});
+      setIsSilent(false);
+    };
+  }, [stream]);
+
+  if (!stream) return null;
+
+  return (
+    <div className={cn('w-full', className)}>
+      <div className={cn('w-full rounded-full bg-muted overflow-hidden', compact ? 'h-1' : 'h-2')}>
+        <div
+          ref={barRef}
+          className="h-full w-full origin-left bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 transition-transform duration-75"
+          style={{ transform: 'scaleX(0)' }}
+        />
+      </div>
+      {isSilent && !compact && (
+        <p className="text-xs text-amber-500 mt-2">
+          No sound from the microphone. Check that the right input is selected and not muted.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,21 @@
-import { Play, Pause, X } from 'lucide-react'
+import { useState } from 'react'
+import { Play, Pause, X, RotateCcw, RotateCw, FastForward, Repeat, SkipBack, SkipForward, ListMusic } from 'lucide-react'
 import { Button } from '../ui/button'
 import { Card, CardContent } from '../ui/card'
-import { Progress } from '../ui/progress'
-import { useAudioStore } from '../../stores/audioStore'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { PLAYBACK_RATES, useAudioStore } from '../../stores/audioStore'
 import { useNotesStore } from '../../stores/notesStore'
+import { useSettingsStore } from '../../stores/settingsStore'
 import { formatTime } from '../../utils/formatTime'
+import { getNoteClips, isBookmarkInClip } from '../../utils/noteClips'
+import { Waveform } from '../Waveform'
+import { PlayQueue } from './PlayQueue'
 
 export function PersistentAudioPlayer() {
   const { 
@@ -12,18 +23,41 @@ export function PersistentAudioPlayer() {
     globalIsPlaying: isPlaying,
     globalAudioDuration: audioDuration,
     globalAudioCurrentTime: audioCurrentTime,
+    playbackRate,
+    loopStart,
+    loopEnd,
+    queue,
+    queueIndex,
     togglePlayPause,
     seekAudio,
+    skipBy,
+    setPlaybackRate,
+    setSkipSilence,
+    cycleLoop,
+    playNext,
+    playPrevious,
     closePlayer
   } = useAudioStore()
+  const [showQueue, setShowQueue] = useState(false)
   
   const { notes } = useNotesStore()
+  const skipSilence = useSettingsStore(state => state.skipSilence)
 
   if (!currentPlayingAudioUrl) return null
 
-  const currentNote = notes.find(note => note.audioUrl === currentPlayingAudioUrl)
-  const progress = audioDuration ? (audioCurrentTime / audioDuration) * 100 : 0
-
+  const currentNote = notes.find(note => getNoteClips(note).some(clip => clip.audioUrl === currentPlayingAudioUrl))
+  const clips = currentNote ? getNoteClips(currentNote) : []
+  const clipIndex = clips.findIndex(clip => clip.audioUrl === currentPlayingAudioUrl)
+  const currentClip = clips[clipIndex]
+  const bookmarks = currentNote && currentClip
+    ? currentNote.bookmarks?.filter(bookmark => isBookmarkInClip(currentNote, bookmark, currentClip.id))
+    : undefined
+  const loopMarkers = [
+    ...(loopStart !== null ? [{ id: 'loop-a', time: loopStart, label: 'Loop start (A)' }] : []),
+    ...(loopEnd !== null ? [{ id: 'loop-b', time: loopEnd, label: 'Loop end (B)' }] : [])
+  ]
+  const isLooping = loopStart !== null && loopEnd !== null
+  const isQueued = queueIndex !== -1
   // Using imported formatTime utility
 
   const handleTogglePlay = () => {
@@ -38,25 +72,65 @@ export function PersistentAudioPlayer() {
     <Card className="fixed bottom-20 left-4 right-4 z-40 shadow-lg bg-background/95 backdrop-blur-sm max-w-sm m-auto">
       <CardContent className="p-3">
         <div className="flex items-center gap-3">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleTogglePlay}
-            className="h-8 w-8 p-0 flex-shrink-0 active:scale-95 transition-transform"
-          >
-            {isPlaying ? (
-              <Pause className="h-4 w-4" />
-            ) : (
-              <Play className="h-4 w-4" />
+          <div className="flex items-center flex-shrink-0">
+            {isQueued && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={playPrevious}
+                className="h-8 w-6 p-0 active:scale-95 transition-transform"
+                title="Previous (Shift+P)"
+              >
+                <SkipBack className="h-3.5 w-3.5" />
+              </Button>
             )}
-          </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleTogglePlay}
+              className="h-8 w-8 p-0 active:scale-95 transition-transform"
+            >
+              {isPlaying ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+            </Button>
+            {isQueued && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={playNext}
+                disabled={queueIndex >= queue.length - 1}
+                className="h-8 w-6 p-0 active:scale-95 transition-transform"
+                title="Next (Shift+N)"
+              >
+                <SkipForward className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
           
           <div className="flex-1 min-w-0">
             <div className="text-sm font-medium truncate mb-1">
               {currentNote?.title || 'Audio'}
+              {clips.length > 1 && (
+                <span className="text-xs text-muted-foreground font-normal ml-2">
+                  Clip {clipIndex + 1} of {clips.length}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
-              <Progress value={progress} className="flex-1 h-1" />
+              {/* Bookmarks flagged while recording show as markers */}
+              <Waveform
+                audioUrl={currentPlayingAudioUrl}
+                duration={audioDuration}
+                currentTime={audioCurrentTime}
+                onSeek={seekAudio}
+                markers={[...(bookmarks ?? []), ...loopMarkers]}
+                height={24}
+                compact
+                className="flex-1 min-w-0"
+              />
               <span className="text-xs text-muted-foreground whitespace-nowrap">
                 {formatTime(audioCurrentTime)} / {formatTime(audioDuration)}
               </span>
@@ -72,6 +146,72 @@ export function PersistentAudioPlayer() {
             <X className="h-4 w-4" />
           </Button>
         </div>
+
+        {/* Review controls; see usePlaybackHotkeys for the keyboard equivalents */}
+        <div className="flex items-center justify-between gap-1 mt-2">
+          <div className="flex items-center">
+            {[-30, -15, 15, 30].map(seconds => (
+              <Button
+                key={seconds}
+                variant="ghost"
+                size="sm"
+                onClick={() => skipBy(seconds)}
+                className="h-7 px-1.5 gap-0.5 text-xs"
+                title={`${seconds < 0 ? 'Back' : 'Forward'} ${Math.abs(seconds)}s (${Math.abs(seconds) === 30 ? 'Shift+' : ''}${seconds < 0 ? '←' : '→'})`}
+              >
+                {seconds < 0 && <RotateCcw className="h-3 w-3" />}
+                {Math.abs(seconds)}
+                {seconds > 0 && <RotateCw className="h-3 w-3" />}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Select value={String(playbackRate)} onValueChange={value => setPlaybackRate(Number(value))}>
+              <SelectTrigger className="h-7 w-[68px] px-2 text-xs" title="Playback speed (< and >)">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_RATES.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{rate}x</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={skipSilence ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setSkipSilence(!skipSilence)}
+              className="h-7 w-7 p-0"
+              title={`Skip silence: ${skipSilence ? 'on' : 'off'} (S)`}
+            >
+              <FastForward className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant={loopStart !== null ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={cycleLoop}
+              className="h-7 px-1.5 gap-0.5 text-xs"
+              title={isLooping ? 'Stop looping (L)' : loopStart !== null ? 'Set loop end here (L)' : 'Set loop start here (L)'}
+            >
+              <Repeat className="h-3 w-3" />
+              {loopStart !== null && !isLooping ? 'A-' : 'A-B'}
+            </Button>
+            {isQueued && (
+              <Button
+                variant={showQueue ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowQueue(!showQueue)}
+                className="h-7 px-1.5 gap-0.5 text-xs"
+                title="Show queue"
+              >
+                <ListMusic className="h-3 w-3" />
+                {queueIndex + 1}/{queue.length}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isQueued && showQueue && <PlayQueue />}
       </CardContent>
     </Card>
   )
@@ -1,15 +1,21 @@
-import { Square, Pause, Play } from 'lucide-react'
+import { Square, Pause, Play, Bookmark } from 'lucide-react'
 import { Button } from '../ui/button'
 import { Card, CardContent } from '../ui/card'
 import { useRecordingStore } from '../../stores/recordingStore'
 import { cn } from '../../lib/utils'
 import { formatTime } from '../../utils/formatTime'
+import { LiveTranscript } from '../LiveTranscript'
+import { InputLevelMeter } from '../InputLevelMeter'
 
 export function PersistentRecordingWidget() {
   const { 
     isRecording, 
     isPaused, 
     recordingTime, 
+    audioStream,
+    bookmarks,
+    appendToNoteId,
+    addBookmark,
     pauseRecording, 
     resumeRecording, 
     stopRecording 
@@ -37,7 +43,7 @@ export function PersistentRecordingWidget() {
               isPaused ? "bg-amber-500 animate-pulse" : "bg-red-500 animate-pulse"
             )} />
             <span className="text-sm font-medium">
-              {isPaused ? 'Recording Paused' : 'Recording'}
+              {isPaused ? 'Recording Paused' : appendToNoteId ? 'Adding to note' : 'Recording'}
             </span>
           </div>
           
@@ -48,6 +54,17 @@ export function PersistentRecordingWidget() {
           </div>
           
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => addBookmark()}
+              className="h-8 px-2 gap-1"
+              title="Bookmark this moment (M)"
+            >
+              <Bookmark className="h-4 w-4" />
+              {bookmarks.length > 0 && <span className="text-xs">{bookmarks.length}</span>}
+            </Button>
+            
             <Button
               variant="ghost"
               size="sm"
@@ -71,6 +88,8 @@ export function PersistentRecordingWidget() {
             </Button>
           </div>
         </div>
+        <InputLevelMeter stream={audioStream} compact className="mt-3" />
+        <LiveTranscript compact className="mt-2" />
       </CardContent>
     </Card>
   )
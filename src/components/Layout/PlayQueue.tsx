@@ -0,0 +1,76 @@
+import { Reorder } from 'framer-motion'
+import { GripVertical, Shuffle, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { useAudioStore } from '../../stores/audioStore'
+import { useNotesStore } from '../../stores/notesStore'
+import { formatTime } from '../../utils/formatTime'
+import { getNoteDuration } from '../../utils/noteClips'
+
+// The notes lined up in the audio player; drag to reorder, tap to jump
+export function PlayQueue() {
+  const { queue, queueIndex, playQueueItem, shuffleQueue, reorderQueue, removeFromQueue, clearQueue } = useAudioStore()
+  const { notes } = useNotesStore()
+
+  const upcoming = queue.length - queueIndex - 1
+
+  return (
+    <div className="mt-2 border-t border-border pt-2">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs text-muted-foreground">
+          {upcoming > 0 ? `${upcoming} up next` : 'Last in queue'}
+        </span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={shuffleQueue}
+            disabled={upcoming < 2}
+            className="h-7 px-1.5 gap-1 text-xs"
+          >
+            <Shuffle className="h-3 w-3" />
+            Shuffle
+          </Button>
+          <Button variant="ghost" size="sm" onClick={clearQueue} className="h-7 px-1.5 text-xs">
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <Reorder.Group axis="y" values={queue} onReorder={reorderQueue} className="max-h-48 overflow-y-auto space-y-0.5">
+        {queue.map((noteId, index) => {
+          const note = notes.find(n => n.id === noteId)
+          const isCurrent = index === queueIndex
+          return (
+            <Reorder.Item
+              key={noteId}
+              value={noteId}
+              className={`flex items-center gap-1 rounded-md px-1 py-1 text-sm ${isCurrent ? 'bg-accent' : 'bg-background'}`}
+            >
+              <GripVertical className="h-3.5 w-3.5 flex-shrink-0 cursor-grab text-muted-foreground" />
+              <button
+                type="button"
+                onClick={() => playQueueItem(index)}
+                className={`flex-1 min-w-0 truncate text-left ${isCurrent ? 'font-medium' : ''} ${note ? '' : 'text-muted-foreground line-through'}`}
+              >
+                {note?.title || 'Untitled'}
+              </button>
+              {note && (
+                <span className="text-xs text-muted-foreground">{formatTime(getNoteDuration(note))}</span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeFromQueue(index)}
+                disabled={isCurrent}
+                className="h-6 w-6 p-0 flex-shrink-0"
+                title="Remove from queue"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Reorder.Item>
+          )
+        })}
+      </Reorder.Group>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { useLiveTranscriptionStore } from '../stores/liveTranscriptionStore';
+import { cn } from '../lib/utils';
+
+const COMPACT_LENGTH = 60;
+
+interface LiveTranscriptProps {
+  // Compact mode shows only the tail of the transcript on one line
+  compact?: boolean;
+  className?: string;
+}
+
+export const LiveTranscript: React.FC<LiveTranscriptProps> = ({ compact = false, className }) => {
+  const isActive = useLiveTranscriptionStore(state => state.isActive);
+  const segments = useLiveTranscriptionStore(state => state.segments);
+  const partialText = useLiveTranscriptionStore(state => state.partialText);
+  const status = useLiveTranscriptionStore(state => state.status);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  const finalText = segments.map(segment => segment.text).join(' ');
+
+  // Follow the newest text as it arrives
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [finalText, partialText]);
+
+  if (!isActive) return null;
+
+  if (compact) {
+    const text = [finalText, partialText].filter(Boolean).join(' ');
+    // Keep the newest words visible
+    const tail = text.length > COMPACT_LENGTH ? `…${text.slice(-COMPACT_LENGTH)}` : text;
+    return (
+      <p className={cn('text-xs text-muted-foreground truncate', className)}>
+        {tail || status}
+      </p>
+    );
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      className={cn('max-h-48 overflow-y-auto rounded-lg border border-border bg-card p-4 text-left text-sm', className)}
+    >
+      {finalText || partialText ? (
+        <p>
+          <span>{finalText}</span>
+          {partialText && <span className="text-muted-foreground"> {partialText}</span>}
+        </p>
+      ) : (
+        <p className="text-muted-foreground italic">{status || 'Listening...'}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowDownTrayIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useModelCacheStore } from '../stores/modelCacheStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { whisperModelOptions } from '../utils/whisperModels';
+import { isModelReady } from '../utils/modelCache';
+import { formatBytes } from '../utils/formatBytes';
+import { ModelLoadingProgress } from './ModelLoadingProgress';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+
+export const ModelManager: React.FC = () => {
+  const cachedModels = useModelCacheStore(state => state.cachedModels);
+  const lastUsed = useModelCacheStore(state => state.lastUsed);
+  const downloads = useModelCacheStore(state => state.downloads);
+  const isScanning = useModelCacheStore(state => state.isScanning);
+  const { downloadModel, cancelDownload, deleteModel } = useModelCacheStore.getState();
+  const model = useSettingsStore(state => state.model);
+  const quantized = useSettingsStore(state => state.quantized);
+
+  useEffect(() => {
+    useModelCacheStore.getState().refresh();
+  }, []);
+
+  const totalSize = Object.values(cachedModels).reduce((total, info) => total + info.size, 0);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {isScanning ? 'Checking downloaded models...' : `${formatBytes(totalSize)} used by downloaded models`}
+        {' · '}{quantized ? 'Quantized' : 'Full precision'} weights
+      </p>
+
+      {whisperModelOptions.map(option => {
+        const info = cachedModels[option.id];
+        const download = downloads[option.id];
+        const isReady = isModelReady(info, quantized);
+        const usedAt = lastUsed[option.id];
+
+        return (
+          <div
+            key={option.id}
+            className={cn(
+              'border border-border rounded-lg p-3 space-y-2',
+              option.id === model && 'border-primary/50'
+            )}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{option.name}</span>
+                  {option.id === model && <span className="text-xs text-primary">Selected</span>}
+                  {isReady && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-green-500/10 text-green-500">
+                      Offline ready
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {info ? formatBytes(info.size) : 'Not downloaded'}
+                  {usedAt ? ` · Used ${formatDistanceToNow(new Date(usedAt), { addSuffix: true })}` : ''}
+                </p>
+                {download?.error && (
+                  <p className="text-xs text-destructive">{download.error}</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {download && !download.error ? (
+                  <Button
+                    onClick={() => cancelDownload(option.id)}
+                    variant="ghost"
+                    size="icon"
+                    title="Cancel download"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </Button>
+                ) : !isReady && (
+                  <Button
+                    onClick={() => downloadModel(option.id)}
+                    variant="ghost"
+                    size="icon"
+                    title="Download for offline use"
+                  >
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                  </Button>
+                )}
+                {info && !download && (
+                  <Button
+                    onClick={() => deleteModel(option.id)}
+                    variant="ghost"
+                    size="icon"
+                    title="Delete from this device"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {download && (
+              <ModelLoadingProgress
+                progressItems={download.progressItems}
+                isVisible={!download.error}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
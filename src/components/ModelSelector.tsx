@@ -1,112 +1,9 @@
-import React, { ChangeEvent } from 'react';
+import React, { ChangeEvent, useEffect } from 'react';
 import { useSettingsStore } from '../stores/settingsStore';
-
-interface ModelOption {
-    id: string;
-    name: string;
-    description: string;
-    isEnglishOnly: boolean;
-    size: 'tiny' | 'small' | 'base' | 'medium' | 'large' | 'large-v2';
-    isBeta?: boolean;
-}
-
-const modelOptions: ModelOption[] = [
-    {
-        id: 'Xenova/whisper-tiny.en',
-        name: 'Tiny (English)',
-        description: 'Fast, lightweight model optimized for English transcription',
-        isEnglishOnly: true,
-        size: 'tiny'
-    },
-    {
-        id: 'Xenova/whisper-tiny',
-        name: 'Tiny (Multilingual)',
-        description: 'Fast, lightweight model supporting multiple languages',
-        isEnglishOnly: false,
-        size: 'tiny'
-    },
-    {
-        id: 'Xenova/whisper-small.en',
-        name: 'Small (English)',
-        description: 'Balanced performance for English transcription',
-        isEnglishOnly: true,
-        size: 'small'
-    },
-    {
-        id: 'Xenova/whisper-small',
-        name: 'Small (Multilingual)',
-        description: 'Balanced performance supporting multiple languages',
-        isEnglishOnly: false,
-        size: 'small'
-    },
-    {
-        id: 'Xenova/whisper-base.en',
-        name: 'Base (English)',
-        description: 'Standard model for English transcription',
-        isEnglishOnly: true,
-        size: 'base'
-    },
-    {
-        id: 'Xenova/whisper-base',
-        name: 'Base (Multilingual)',
-        description: 'Standard model supporting multiple languages',
-        isEnglishOnly: false,
-        size: 'base'
-    },
-    {
-        id: 'Xenova/whisper-medium.en',
-        name: 'Medium (English)',
-        description: 'High accuracy for English transcription',
-        isEnglishOnly: true,
-        size: 'medium'
-    },
-    {
-        id: 'Xenova/whisper-large',
-        name: 'Large',
-        description: 'Highest accuracy for multilingual transcription',
-        isEnglishOnly: false,
-        size: 'large'
-    },
-    {
-        id: 'Xenova/whisper-large-v2',
-        name: 'Large V2',
-        description: 'Latest version with improved accuracy',
-        isEnglishOnly: false,
-        size: 'large-v2'
-    },
-    {
-        id: 'Xenova/nb-whisper-tiny-beta',
-        name: 'Tiny Beta',
-        description: 'Experimental tiny model with new features',
-        isEnglishOnly: false,
-        size: 'tiny',
-        isBeta: true
-    },
-    {
-        id: 'Xenova/nb-whisper-small-beta',
-        name: 'Small Beta',
-        description: 'Experimental small model with new features',
-        isEnglishOnly: false,
-        size: 'small',
-        isBeta: true
-    },
-    {
-        id: 'Xenova/nb-whisper-base-beta',
-        name: 'Base Beta',
-        description: 'Experimental base model with new features',
-        isEnglishOnly: false,
-        size: 'base',
-        isBeta: true
-    },
-    {
-        id: 'Xenova/nb-whisper-medium-beta',
-        name: 'Medium Beta',
-        description: 'Experimental medium model with new features',
-        isEnglishOnly: false,
-        size: 'medium',
-        isBeta: true
-    }
-];
+import { useModelCacheStore } from '../stores/modelCacheStore';
+import { isModelReady } from '../utils/modelCache';
+import { AUTO_DETECT_LANGUAGE, toLanguageCode, WHISPER_LANGUAGES } from '../utils/languages';
+import { whisperModelOptions } from '../utils/whisperModels';
 
 interface Props {
     transcriber?: any; // Optional for backward compatibility
@@ -114,7 +11,25 @@ interface Props {
 }
 
 export function ModelSelector({ className = '' }: Props): React.ReactElement {
-    const { model, multilingual, setModel, setMultilingual } = useSettingsStore();
+    const {
+        model,
+        multilingual,
+        quantized,
+        language,
+        keepEnglishTranslation,
+        setModel,
+        setMultilingual,
+        setLanguage,
+        setKeepEnglishTranslation
+    } = useSettingsStore();
+    const languageValue = language === AUTO_DETECT_LANGUAGE
+        ? AUTO_DETECT_LANGUAGE
+        : toLanguageCode(language) || AUTO_DETECT_LANGUAGE;
+    const cachedModels = useModelCacheStore(state => state.cachedModels);
+
+    useEffect(() => {
+        useModelCacheStore.getState().refresh();
+    }, []);
 
     const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
         const selectedModel = e.target.value;
@@ -137,14 +52,15 @@ export function ModelSelector({ className = '' }: Props): React.ReactElement {
                     onChange={handleChange}
                     className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-input"
                 >
-                    {modelOptions.map((option) => (
+                    {whisperModelOptions.map((option) => (
                         <option key={option.id} value={option.id}>
                             {option.name} {option.isBeta ? '(Beta)' : ''}
+                            {isModelReady(cachedModels[option.id], quantized) ? ' ✓ Offline' : ''}
                         </option>
                     ))}
                 </select>
                 <p className="text-sm text-muted-foreground">
-                    {modelOptions.find(m => m.id === model)?.description || 'Select a model for transcription'}
+                    {whisperModelOptions.find(m => m.id === model)?.description || 'Select a model for transcription'}
                 </p>
             </div>
             
@@ -170,6 +86,39 @@ export function ModelSelector({ className = '' }: Props): React.ReactElement {
                     }
                 </p>
             </div>
+
+            {multilingual && (
+                <div className="space-y-2">
+                    <label htmlFor="language-select" className="block text-sm font-medium">
+                        Spoken Language
+                    </label>
+                    <select
+                        id="language-select"
+                        value={languageValue}
+                        onChange={(e) => setLanguage(e.target.value)}
+                        className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-input"
+                    >
+                        <option value={AUTO_DETECT_LANGUAGE}>Auto-detect per recording</option>
+                        {Object.entries(WHISPER_LANGUAGES)
+                            .sort(([, a], [, b]) => a.localeCompare(b))
+                            .map(([code, name]) => (
+                                <option key={code} value={code}>{name}</option>
+                            ))}
+                    </select>
+                    <div className="flex items-center">
+                        <input
+                            type="checkbox"
+                            checked={keepEnglishTranslation}
+                            onChange={(e) => setKeepEnglishTranslation(e.target.checked)}
+                            className="w-4 h-4 text-primary bg-background border-input rounded focus:ring-ring"
+                        />
+                        <span className="ml-2 text-sm">Also save an English translation</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        Non-English recordings keep the original transcript and get a translation you can switch to on the note.
+                    </p>
+                </div>
+            )}
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { BookmarkIcon, PencilIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Note, NoteBookmark, useNotesStore } from '../stores/notesStore';
+import { useAudioStore } from '../stores/audioStore';
+import { formatTime } from '../utils/formatTime';
+import { getNoteClips, isBookmarkInClip } from '../utils/noteClips';
+
+interface NoteBookmarksProps {
+  note: Note;
+}
+
+// Moments flagged while recording; clicking one plays from there
+export const NoteBookmarks: React.FC<NoteBookmarksProps> = ({ note }) => {
+  const { updateBookmark, removeBookmark } = useNotesStore.getState();
+  const playAudioFrom = useAudioStore(state => state.playAudioFrom);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (bookmark: NoteBookmark) => {
+    setEditingId(bookmark.id);
+    setDraft(bookmark.label || '');
+  };
+
+  const commit = () => {
+    if (editingId) {
+      updateBookmark(note.id, editingId, draft);
+    }
+    setEditingId(null);
+  };
+
+  const clips = getNoteClips(note);
+  // Bookmarks whose recording was deleted have nothing to play
+  const bookmarks = (note.bookmarks ?? [])
+    .map(bookmark => ({ bookmark, clipIndex: clips.findIndex(clip => isBookmarkInClip(note, bookmark, clip.id)) }))
+    .filter(({ clipIndex }) => clipIndex !== -1)
+    .sort((a, b) => a.clipIndex - b.clipIndex || a.bookmark.time - b.bookmark.time);
+
+  if (bookmarks.length === 0) return null;
+
+  return (
+    <div className="border border-border rounded-lg p-4">
+      <h3 className="text-sm font-medium text-muted-foreground mb-2">Bookmarks</h3>
+      <div className="space-y-1">
+        {bookmarks.map(({ bookmark, clipIndex }) => (
+          <div key={bookmark.id} className="group flex items-center gap-2">
+            {editingId === bookmark.id ? (
+              <input
+                type="text"
+                value={draft}
+                autoFocus
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                placeholder="Label"
+                className="flex-1 px-2 py-1 text-sm bg-input border border-input rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => playAudioFrom(clips[clipIndex].audioUrl, bookmark.time)}
+                className="flex flex-1 min-w-0 items-center gap-3 rounded-md px-2 py-1 text-left text-sm
+                         transition-colors hover:bg-accent/50"
+                title={`Play from ${formatTime(bookmark.time)}`}
+              >
+                <BookmarkIcon className="w-4 h-4 flex-shrink-0 text-amber-500" />
+                <span className="flex-shrink-0 font-mono text-xs text-muted-foreground">
+                  {clips.length > 1 && `Clip ${clipIndex + 1} · `}{formatTime(bookmark.time)}
+                </span>
+                <span className="truncate">{bookmark.label || 'Bookmark'}</span>
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => startEditing(bookmark)}
+              className="p-1 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100"
+              title="Edit label"
+            >
+              <PencilIcon className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => removeBookmark(note.id, bookmark.id)}
+              className="p-1 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100"
+              title="Remove bookmark"
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { PauseIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { AudioClip, Note } from '../stores/notesStore';
+import { useAudioStore } from '../stores/audioStore';
+import { formatTime } from '../utils/formatTime';
+import { getNoteClips } from '../utils/noteClips';
+import { formatAudioSources } from '../utils/recordingProfiles';
+import { TranscriptView } from './TranscriptView';
+import { Button } from './ui/button';
+
+interface NoteClipsProps {
+  note: Note;
+}
+
+// Recordings added to the note with "Record more", after the original one
+export const NoteClips: React.FC<NoteClipsProps> = ({ note }) => {
+  const { currentPlayingAudioUrl, globalIsPlaying, playAudio, togglePlayPause, setIsUserInteracting } = useAudioStore();
+
+  const handlePlay = (clip: AudioClip) => {
+    setIsUserInteracting(true);
+    if (currentPlayingAudioUrl === clip.audioUrl) {
+      togglePlayPause();
+    } else {
+      playAudio(clip.audioUrl);
+    }
+  };
+
+  // Numbered across all of the note's recordings, the original included
+  const clips = getNoteClips(note)
+    .map((clip, index) => ({ clip, number: index + 1 }))
+    .filter(({ clip }) => clip.id !== note.id);
+
+  if (clips.length === 0) return null;
+
+  return (
+    <div className="card space-y-3">
+      {clips.map(({ clip, number }) => (
+        <div key={clip.id} className="space-y-2">
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={() => handlePlay(clip)}
+              variant="ghost"
+              size="icon"
+              title="Play clip"
+            >
+              {currentPlayingAudioUrl === clip.audioUrl && globalIsPlaying
+                ? <PauseIcon className="w-4 h-4" />
+                : <PlayIcon className="w-4 h-4" />}
+            </Button>
+            <div className="text-sm">Clip {number}</div>
+            <div className="text-xs text-muted-foreground">
+              Recorded {format(new Date(clip.recordedAt), 'PPp')} · {formatTime(clip.duration)}
+              {clip.recordingSources && ` · ${formatAudioSources(clip.recordingSources)}`}
+            </div>
+          </div>
+          {clip.segments && clip.segments.length > 0 && (
+            <TranscriptView segments={clip.segments} audioUrl={clip.audioUrl} speakers={note.speakers} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
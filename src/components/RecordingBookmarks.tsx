@@ -0,0 +1,41 @@
+import React from 'react';
+import { BookmarkIcon } from '@heroicons/react/24/outline';
+import { useRecordingStore } from '../stores/recordingStore';
+import { formatTime } from '../utils/formatTime';
+import { Button } from './ui/button';
+
+// Mark button and the bookmarks taken so far, each with an optional label
+export const RecordingBookmarks: React.FC = () => {
+  const bookmarks = useRecordingStore(state => state.bookmarks);
+  const { addBookmark, setBookmarkLabel } = useRecordingStore.getState();
+
+  return (
+    <div className="w-full space-y-3">
+      <Button onClick={() => addBookmark()} variant="outline" size="sm" title="Bookmark this moment (M)">
+        <BookmarkIcon className="w-4 h-4 mr-2" />
+        Mark moment
+      </Button>
+      {bookmarks.length > 0 && (
+        <div className="space-y-2 max-h-40 overflow-y-auto text-left">
+          {bookmarks.map(bookmark => (
+            <div key={bookmark.id} className="flex items-center gap-3">
+              <span className="flex-shrink-0 font-mono text-xs text-muted-foreground">
+                {formatTime(bookmark.time)}
+              </span>
+              <input
+                type="text"
+                defaultValue={bookmark.label}
+                onBlur={event => setBookmarkLabel(bookmark.id, event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') event.currentTarget.blur();
+                }}
+                placeholder="Add a label (optional)"
+                className="flex-1 min-w-0 bg-transparent border-b border-border px-1 py-0.5 text-sm focus:outline-none focus:border-primary"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useAudioInputDevices } from '../hooks/useAudioInputDevices';
+import { getRecordingProfile, RecordingProfileId, recordingProfiles, RecordingSourceMode } from '../utils/recordingProfiles';
+import { isTabAudioSupported } from '../utils/audioMixer';
+import { SourceGainControls } from './SourceGainControls';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// Radix Select doesn't allow an empty value, so the system default gets a stand-in
+const DEFAULT_DEVICE_VALUE = 'default';
+
+export const RecordingOptions: React.FC = () => {
+  const recordingProfile = useSettingsStore(state => state.recordingProfile);
+  const inputDeviceId = useSettingsStore(state => state.inputDeviceId);
+  const recordingSourceMode = useSettingsStore(state => state.recordingSourceMode);
+  const { setRecordingProfile, setInputDeviceId, setRecordingSourceMode } = useSettingsStore.getState();
+  const { devices } = useAudioInputDevices();
+
+  // A remembered device that is no longer connected falls back to the default
+  const selectedDevice = devices.some(device => device.deviceId === inputDeviceId)
+    ? inputDeviceId
+    : DEFAULT_DEVICE_VALUE;
+
+  return (
+    <div className="w-full space-y-3 text-left">
+      {isTabAudioSupported() && (
+        <div className="flex items-center justify-between gap-3">
+          <label className="text-sm font-medium text-muted-foreground">Source</label>
+          <Select
+            value={recordingSourceMode}
+            onValueChange={value => setRecordingSourceMode(value as RecordingSourceMode)}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="microphone">Microphone</SelectItem>
+              <SelectItem value="microphone-and-tab">Microphone + tab audio</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <label className="text-sm font-medium text-muted-foreground">Microphone</label>
+        <Select
+          value={selectedDevice}
+          onValueChange={value => setInputDeviceId(value === DEFAULT_DEVICE_VALUE ? '' : value)}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE_VALUE}>System default</SelectItem>
+            {devices.map(device => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <label className="text-sm font-medium text-muted-foreground">Profile</label>
+        <Select
+          value={recordingProfile}
+          onValueChange={value => setRecordingProfile(value as RecordingProfileId)}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(recordingProfiles).map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {getRecordingProfile(recordingProfile).description}
+      </p>
+      {isTabAudioSupported() && recordingSourceMode === 'microphone-and-tab' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            You'll be asked which tab to share. Turn on "Share tab audio" to hear the other participants.
+          </p>
+          <SourceGainControls sources={['microphone', 'tab']} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { useNavigate } from '@tanstack/react-router';
+import { Note, useNotesStore } from '../stores/notesStore';
+import { Button } from './ui/button';
+
+interface RecordingPartsNavProps {
+  note: Note;
+}
+
+// Links between the notes of a long recording that was split into parts
+export const RecordingPartsNav: React.FC<RecordingPartsNavProps> = ({ note }) => {
+  const navigate = useNavigate();
+  const notes = useNotesStore(state => state.notes);
+  const series = note.recordingSeries;
+  if (!series) return null;
+
+  const parts = notes.filter(n => n.recordingSeries?.id === series.id);
+  const previous = parts.find(n => n.recordingSeries?.part === series.part - 1);
+  const next = parts.find(n => n.recordingSeries?.part === series.part + 1);
+
+  const openPart = (part: Note) => navigate({ to: '/note/$id', params: { id: part.id } });
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <Button onClick={() => previous && openPart(previous)} disabled={!previous} variant="ghost" size="sm">
+        <ChevronLeftIcon className="w-4 h-4 mr-1" />
+        Previous part
+      </Button>
+      <span className="text-muted-foreground">Part {series.part} of {Math.max(series.part, parts.length)}</span>
+      <Button onClick={() => next && openPart(next)} disabled={!next} variant="ghost" size="sm">
+        Next part
+        <ChevronRightIcon className="w-4 h-4 ml-1" />
+      </Button>
+    </div>
+  );
+};
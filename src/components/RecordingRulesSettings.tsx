@@ -0,0 +1,71 @@
+import React from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+const MAX_DURATION_OPTIONS = [30, 60, 120, 240, 480];
+const SILENCE_OPTIONS = [2, 5, 10, 15, 30];
+const SPLIT_OPTIONS = [10, 15, 30, 60];
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+
+interface RuleSelectProps {
+  label: string;
+  value: number;
+  options: number[];
+  onChange: (value: number) => void;
+}
+
+const RuleSelect: React.FC<RuleSelectProps> = ({ label, value, options, onChange }) => (
+  <div className="flex items-center justify-between">
+    <label className="text-sm font-medium">{label}</label>
+    <Select value={String(value)} onValueChange={next => onChange(Number(next))}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="0">Off</SelectItem>
+        {options.map(minutes => (
+          <SelectItem key={minutes} value={String(minutes)}>{formatMinutes(minutes)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const RecordingRulesSettings: React.FC = () => {
+  const recordingRules = useSettingsStore(state => state.recordingRules);
+  const { setRecordingRules } = useSettingsStore.getState();
+
+  return (
+    <div className="space-y-4">
+      <RuleSelect
+        label="Stop recording after"
+        value={recordingRules.maxDurationMinutes}
+        options={MAX_DURATION_OPTIONS}
+        onChange={maxDurationMinutes => setRecordingRules({ maxDurationMinutes })}
+      />
+      <RuleSelect
+        label="Stop after silence of"
+        value={recordingRules.silenceStopMinutes}
+        options={SILENCE_OPTIONS}
+        onChange={silenceStopMinutes => setRecordingRules({ silenceStopMinutes })}
+      />
+      <RuleSelect
+        label="Split into a new note every"
+        value={recordingRules.splitEveryMinutes}
+        options={SPLIT_OPTIONS}
+        onChange={splitEveryMinutes => setRecordingRules({ splitEveryMinutes })}
+      />
+      <p className="text-xs text-muted-foreground">
+        Split parts are saved as linked notes and transcribed while you keep recording.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MicrophoneIcon } from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from '@tanstack/react-router';
+import { useRecordingStore } from '../stores/recordingStore';
+import { formatTime } from '../utils/formatTime';
+import { Button } from './ui/button';
+
+// Offers to turn recordings interrupted by a crash or closed tab into notes
+export const RecoverRecordingDialog: React.FC = () => {
+  const navigate = useNavigate();
+  const recoverableSessions = useRecordingStore(state => state.recoverableSessions);
+  const { recoverRecording, discardRecording } = useRecordingStore.getState();
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+
+  const handleRecover = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    const noteId = await recoverRecording(sessionId);
+    setBusySessionId(null);
+    if (noteId) {
+      navigate({ to: '/note/$id', params: { id: noteId } });
+    }
+  };
+
+  const handleDiscard = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    await discardRecording(sessionId);
+    setBusySessionId(null);
+  };
+
+  return (
+    <AnimatePresence>
+      {recoverableSessions.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-background rounded-xl p-6 max-w-md w-full border border-border shadow-lg"
+          >
+            <h3 className="text-lg font-semibold mb-2">Unfinished Recording</h3>
+            <p className="text-muted-foreground mb-4">
+              {recoverableSessions.length === 1 ? 'A recording was' : 'Some recordings were'} interrupted before
+              {recoverableSessions.length === 1 ? ' it was' : ' they were'} saved. Recover the audio captured so far into a note, or discard it.
+            </p>
+            <div className="space-y-3">
+              {recoverableSessions.map(session => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-3 border border-border rounded-lg p-3"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <MicrophoneIcon className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{formatTime(session.duration)} recorded</p>
+                      <p className="text-xs text-muted-foreground">
+                        Started {formatDistanceToNow(new Date(session.startedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      onClick={() => handleDiscard(session.id)}
+                      disabled={busySessionId !== null}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      onClick={() => handleRecover(session.id)}
+                      disabled={busySessionId !== null}
+                      variant="default"
+                      size="sm"
+                    >
+                      {busySessionId === session.id ? 'Recovering...' : 'Recover'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
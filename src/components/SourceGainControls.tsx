@@ -0,0 +1,39 @@
+import React from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useRecordingStore } from '../stores/recordingStore';
+import { audioSourceLabels, AudioSourceKind } from '../utils/recordingProfiles';
+import { Slider } from './ui/slider';
+
+const MAX_GAIN = 2;
+
+interface SourceGainControlsProps {
+  sources: AudioSourceKind[];
+}
+
+// Balances the mic against the meeting tab, before or during a recording
+export const SourceGainControls: React.FC<SourceGainControlsProps> = ({ sources }) => {
+  const sourceGains = useSettingsStore(state => state.sourceGains);
+  const setSourceGain = useRecordingStore(state => state.setSourceGain);
+
+  return (
+    <div className="w-full space-y-3 text-left">
+      {sources.map(source => (
+        <div key={source} className="flex items-center gap-3">
+          <label className="w-24 flex-shrink-0 text-sm font-medium text-muted-foreground">
+            {audioSourceLabels[source]}
+          </label>
+          <Slider
+            value={[sourceGains[source]]}
+            min={0}
+            max={MAX_GAIN}
+            step={0.05}
+            onValueChange={([gain]) => setSourceGain(source, gain)}
+          />
+          <span className="w-10 flex-shrink-0 text-right font-mono text-xs text-muted-foreground">
+            {Math.round(sourceGains[source] * 100)}%
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { PencilIcon } from '@heroicons/react/24/outline';
+import { useNotesStore } from '../stores/notesStore';
+import { getSpeakerName } from '../utils/speakerTurns';
+
+interface SpeakerLabelsProps {
+  noteId: string;
+  speakerIds: string[];
+  speakers?: Record<string, string>;
+}
+
+// Lets the user rename "Speaker 1" once per note; the name applies everywhere
+export const SpeakerLabels: React.FC<SpeakerLabelsProps> = ({ noteId, speakerIds, speakers }) => {
+  const renameSpeaker = useNotesStore(state => state.renameSpeaker);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (speakerId: string) => {
+    setEditingId(speakerId);
+    setDraft(getSpeakerName(speakerId, speakers));
+  };
+
+  const commit = () => {
+    if (editingId && draft.trim()) {
+      renameSpeaker(noteId, editingId, draft);
+    }
+    setEditingId(null);
+  };
+
+  if (speakerIds.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Speakers:</span>
+      {speakerIds.map(speakerId => editingId === speakerId ? (
+        <input
+          key={speakerId}
+          type="text"
+          value={draft}
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setEditingId(null);
+          }}
+          className="px-2 py-0.5 text-xs bg-input border border-input rounded-full
+                   focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+      ) : (
+        <button
+          key={speakerId}
+          type="button"
+          onClick={() => startEditing(speakerId)}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs
+                   bg-card text-card-foreground border border-border hover:bg-accent/20"
+          title="Rename speaker"
+        >
+          {getSpeakerName(speakerId, speakers)}
+          <PencilIcon className="w-3 h-3" />
+        </button>
+      ))}
+    </div>
+  );
+};
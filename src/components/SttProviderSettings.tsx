@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  EyeIcon,
+  EyeSlashIcon
+} from '@heroicons/react/24/outline';
+import { useSettingsStore } from '../stores/settingsStore';
+import { sttProviders, SttProviderId } from '../services/stt';
+import { Button } from './ui/button';
+
+// The mock provider is only offered while developing
+const VISIBLE_PROVIDERS: SttProviderId[] = import.meta.env.DEV
+  ? ['openai-compatible', 'local-whisper', 'mock']
+  : ['openai-compatible', 'local-whisper'];
+
+export const SttProviderSettings: React.FC = () => {
+  const sttProviderOrder = useSettingsStore(state => state.sttProviderOrder);
+  const sttOpenAICompatible = useSettingsStore(state => state.sttOpenAICompatible);
+  const openAIModel = useSettingsStore(state => state.openAIModel);
+  const { setSttProviderOrder, setSttOpenAICompatible, setOpenAIModel } = useSettingsStore.getState();
+  const [showApiKey, setShowApiKey] = useState(false);
+
+  // Enabled providers first in fallback order, then the disabled ones
+  const orderedProviders = [
+    ...sttProviderOrder.filter(id => VISIBLE_PROVIDERS.includes(id)),
+    ...VISIBLE_PROVIDERS.filter(id => !sttProviderOrder.includes(id))
+  ];
+
+  const toggleProvider = (id: SttProviderId, enabled: boolean) => {
+    setSttProviderOrder(enabled
+      ? [...sttProviderOrder, id]
+      : sttProviderOrder.filter(p => p !== id));
+  };
+
+  const moveProvider = (id: SttProviderId, direction: -1 | 1) => {
+    const index = sttProviderOrder.indexOf(id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= sttProviderOrder.length) return;
+
+    const next = [...sttProviderOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSttProviderOrder(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Enabled providers are tried in order. If one fails, the next one is used.
+      </p>
+
+      {orderedProviders.map(id => {
+        const provider = sttProviders[id];
+        const position = sttProviderOrder.indexOf(id);
+        const isEnabled = position >= 0;
+        const isReady = provider.isAvailable();
+
+        return (
+          <div key={id} className="p-3 bg-background border border-border rounded-lg space-y-3">
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={isEnabled}
+                onChange={e => toggleProvider(id, e.target.checked)}
+                className="mt-1 w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {isEnabled && (
+                    <span className="text-xs text-muted-foreground">{position + 1}.</span>
+                  )}
+                  <h4 className="text-sm font-medium">{provider.name}</h4>
+                  {isEnabled && !isReady && (
+                    <span className="text-xs text-amber-600 dark:text-amber-400">Not configured</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{provider.description}</p>
+              </div>
+              {isEnabled && (
+                <div className="flex gap-1">
+                  <Button
+                    onClick={() => moveProvider(id, -1)}
+                    disabled={position === 0}
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Try earlier"
+                  >
+                    <ArrowUpIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    onClick={() => moveProvider(id, 1)}
+                    disabled={position === sttProviderOrder.length - 1}
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Try later"
+                  >
+                    <ArrowDownIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {id === 'openai-compatible' && isEnabled && (
+              <div className="space-y-2 pl-8">
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Base URL</label>
+                  <input
+                    type="url"
+                    value={sttOpenAICompatible.baseUrl}
+                    onChange={e => setSttOpenAICompatible({ baseUrl: e.target.value })}
+                    placeholder="https://api.openai.com/v1"
+                    className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">API Key</label>
+                  <div className="relative">
+                    <input
+                      type={showApiKey ? 'text' : 'password'}
+                      value={sttOpenAICompatible.apiKey}
+                      onChange={e => setSttOpenAICompatible({ apiKey: e.target.value })}
+                      placeholder="Uses your OpenAI provider key when empty"
+                      className="w-full px-3 py-2 pr-10 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowApiKey(!showApiKey)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    >
+                      {showApiKey ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Model</label>
+                  <input
+                    type="text"
+                    value={openAIModel}
+                    onChange={e => setOpenAIModel(e.target.value)}
+                    placeholder="whisper-1"
+                    className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+const PAUSE_OPTIONS = [1, 1.5, 2, 3, 5];
+const HEADING_OPTIONS = [0, 1, 2, 5, 10, 15];
+
+export const TranscriptFormattingSettings: React.FC = () => {
+  const transcriptFormatting = useSettingsStore(state => state.transcriptFormatting);
+  const { setTranscriptFormatting } = useSettingsStore.getState();
+  const { enabled, paragraphPauseSeconds, normalizeText, timestampHeadingMinutes } = transcriptFormatting;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Format finished transcripts</label>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => setTranscriptFormatting({ enabled: e.target.checked })}
+          className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">New paragraph after a pause of</label>
+            <Select
+              value={String(paragraphPauseSeconds)}
+              onValueChange={value => setTranscriptFormatting({ paragraphPauseSeconds: Number(value) })}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Never</SelectItem>
+                {PAUSE_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={String(seconds)}>{seconds}s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Fix capitalization and spacing</label>
+            <input
+              type="checkbox"
+              checked={normalizeText}
+              onChange={e => setTranscriptFormatting({ normalizeText: e.target.checked })}
+              className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Timestamp headings</label>
+            <Select
+              value={String(timestampHeadingMinutes)}
+              onValueChange={value => setTranscriptFormatting({ timestampHeadingMinutes: Number(value) })}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HEADING_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? 'Off' : `Every ${minutes} min`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Applied when a transcription completes. Live drafts stay unformatted until then.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptSegment } from '../stores/notesStore';
+import { useAudioStore } from '../stores/audioStore';
+import { findActiveSegmentIndex } from '../utils/transcriptSegments';
+import { formatTime } from '../utils/formatTime';
+import { getSpeakerName } from '../utils/speakerTurns';
+import { cn } from '../lib/utils';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  audioUrl: string;
+  // Display names for segment speaker ids
+  speakers?: Record<string, string>;
+  className?: string;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  segments,
+  audioUrl,
+  speakers,
+  className
+}) => {
+  const {
+    currentPlayingAudioUrl,
+    globalAudioCurrentTime,
+    playAudioFrom
+  } = useAudioStore();
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+
+  const isCurrentAudio = currentPlayingAudioUrl === audioUrl;
+  const activeIndex = isCurrentAudio
+    ? findActiveSegmentIndex(segments, globalAudioCurrentTime)
+    : -1;
+
+  // Keep the active segment in view while playing
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (segments.length === 0) return null;
+
+  return (
+    <div className={cn('border border-border rounded-lg p-4 max-h-80 overflow-y-auto', className)}>
+      <h3 className="text-sm font-medium text-muted-foreground mb-2">Transcript</h3>
+      <div className="space-y-1">
+        {segments.map((segment, index) => (
+          <React.Fragment key={`${segment.start}-${index}`}>
+            {segment.speaker && segment.speaker !== segments[index - 1]?.speaker && (
+              <p className="px-2 pt-2 text-xs font-semibold text-foreground">
+                {getSpeakerName(segment.speaker, speakers)}
+              </p>
+            )}
+            <button
+              ref={index === activeIndex ? activeRef : undefined}
+              type="button"
+              onClick={() => playAudioFrom(audioUrl, segment.start)}
+              className={cn(
+                'flex w-full items-start gap-3 rounded-md px-2 py-1 text-left text-sm transition-colors hover:bg-accent/50',
+                index === activeIndex && 'bg-primary/10 text-primary'
+              )}
+              title={`Play from ${formatTime(segment.start)}`}
+            >
+              <span className="flex-shrink-0 font-mono text-xs text-muted-foreground pt-0.5">
+                {formatTime(segment.start)}
+              </span>
+              <span>{segment.text}</span>
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import type { NoteVersion } from '../stores/notesStore';
+import { applyHunks, countHunks, diffWords } from '../utils/wordDiff';
+import { Button } from './ui/button';
+
+interface VersionDiffDialogProps {
+  version: NoteVersion | null;
+  content: string;
+  onApply: (content: string) => void;
+  onClose: () => void;
+}
+
+// Word-level diff of the note against a version; accepted hunks are written
+// straight into the note, so the remaining hunks always reflect what's left
+export const VersionDiffDialog: React.FC<VersionDiffDialogProps> = ({
+  version,
+  content,
+  onApply,
+  onClose
+}) => {
+  const parts = useMemo(
+    () => version ? diffWords(content, version.content) : [],
+    [content, version]
+  );
+  const hunkCount = countHunks(parts);
+
+  if (!version) return null;
+
+  const acceptAll = () => {
+    onApply(version.content);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-background rounded-xl p-6 max-w-2xl w-full border border-border max-h-[80vh] flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{version.description}</h3>
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(version.timestamp), { addSuffix: true })}
+                {' · '}{hunkCount === 0 ? 'Identical to the current note' : `${hunkCount} difference${hunkCount === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            <Button
+              onClick={onClose}
+              variant="ghost"
+              size="icon"
+              className="rounded-lg"
+            >
+              <XMarkIcon className="w-5 h-5 text-muted-foreground" />
+            </Button>
+          </div>
+
+          <div className="flex gap-4 text-xs text-muted-foreground mb-2">
+            <span><span className="px-1 rounded bg-destructive/15 text-destructive line-through">removed</span> current note</span>
+            <span><span className="px-1 rounded bg-green-500/15 text-green-500">added</span> this version</span>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto border border-border rounded-lg p-4 text-sm leading-relaxed whitespace-pre-wrap">
+            {parts.map((part, index) => part.type === 'equal' ? (
+              <span key={index}>{part.text}</span>
+            ) : (
+              <span key={part.id} className="inline">
+                {part.removed && (
+                  <span className="px-0.5 rounded bg-destructive/15 text-destructive line-through">{part.removed}</span>
+                )}
+                {part.added && (
+                  <span className="px-0.5 rounded bg-green-500/15 text-green-500">{part.added}</span>
+                )}
+                <button
+                  onClick={() => onApply(applyHunks(parts, [part.id]))}
+                  className="inline-flex items-center align-middle ml-0.5 p-0.5 rounded text-muted-foreground hover:text-primary hover:bg-muted"
+                  title="Accept this change"
+                >
+                  <CheckIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <Button
+              onClick={onClose}
+              variant="outline"
+            >
+              Done
+            </Button>
+            <Button
+              onClick={acceptAll}
+              disabled={hunkCount === 0}
+              variant="default"
+            >
+              Accept all
+            </Button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
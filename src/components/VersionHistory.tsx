@@ -0,0 +1,55 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowUturnLeftIcon, ClockIcon } from '@heroicons/react/24/outline';
+import type { NoteVersion } from '../stores/notesStore';
+import { Button } from './ui/button';
+
+interface VersionHistoryProps {
+  versions: NoteVersion[];
+  onCompare: (version: NoteVersion) => void;
+  onRestore: (version: NoteVersion) => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, onCompare, onRestore }) => {
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+        <ClockIcon className="w-4 h-4" />
+        Versions ({versions.length})
+      </h3>
+      {[...versions].reverse().map(version => (
+        <div
+          key={version.timestamp}
+          className="flex items-center justify-between gap-3 border border-border rounded-lg px-3 py-2"
+        >
+          <div className="min-w-0">
+            <p className="text-sm truncate">{version.description}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(version.timestamp), { addSuffix: true })}
+              {' · '}{version.content.split(/\s+/).filter(Boolean).length} words
+            </p>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              onClick={() => onCompare(version)}
+              variant="outline"
+              size="sm"
+            >
+              Compare
+            </Button>
+            <Button
+              onClick={() => onRestore(version)}
+              variant="ghost"
+              size="icon"
+              title="Replace the note with this version"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
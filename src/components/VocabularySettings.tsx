@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useSettingsStore } from '../stores/settingsStore';
+import { sttProviders } from '../services/stt';
+import { compileCorrectionRule } from '../utils/transcriptCorrections';
+import { Button } from './ui/button';
+
+const inputClassName = 'w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent';
+
+export const VocabularySettings: React.FC = () => {
+  const vocabulary = useSettingsStore(state => state.vocabulary);
+  const correctionRules = useSettingsStore(state => state.correctionRules);
+  const {
+    setVocabulary,
+    addCorrectionRule,
+    updateCorrectionRule,
+    removeCorrectionRule
+  } = useSettingsStore.getState();
+  // Edit as free text, store the parsed list on blur
+  const [glossaryText, setGlossaryText] = useState(vocabulary.join('\n'));
+
+  // Pick up changes from settings import/reset
+  useEffect(() => {
+    setGlossaryText(vocabulary.join('\n'));
+  }, [vocabulary]);
+
+  const promptProviders = Object.values(sttProviders)
+    .filter(provider => provider.supportsPrompt)
+    .map(provider => provider.name);
+
+  const saveGlossary = () => {
+    setVocabulary(glossaryText.split(/[\n,]/));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-1">Glossary</label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Product names, acronyms and people, one per line. Passed as a spelling hint to {promptProviders.join(', ') || 'providers that support it'}.
+        </p>
+        <textarea
+          value={glossaryText}
+          onChange={e => setGlossaryText(e.target.value)}
+          onBlur={saveGlossary}
+          rows={4}
+          placeholder={'Monolog\nKubernetes\nSiobhan'}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Correction rules</label>
+          <p className="text-xs text-muted-foreground">
+            Applied in order to every finished transcript before it is saved to the note.
+          </p>
+        </div>
+
+        {correctionRules.map(rule => {
+          const isInvalid = !!rule.find && !compileCorrectionRule(rule);
+          return (
+            <div key={rule.id} className="space-y-2 border border-border rounded-lg p-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateCorrectionRule(rule.id, { enabled: e.target.checked })}
+                  className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+                  title="Enabled"
+                />
+                <input
+                  type="text"
+                  value={rule.find}
+                  onChange={e => updateCorrectionRule(rule.id, { find: e.target.value })}
+                  placeholder="Find"
+                  className={inputClassName}
+                />
+                <span className="text-muted-foreground">→</span>
+                <input
+                  type="text"
+                  value={rule.replace}
+                  onChange={e => updateCorrectionRule(rule.id, { replace: e.target.value })}
+                  placeholder="Replace"
+                  className={inputClassName}
+                />
+                <Button
+                  onClick={() => removeCorrectionRule(rule.id)}
+                  variant="ghost"
+                  size="icon"
+                  title="Remove rule"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-4 pl-7 text-xs text-muted-foreground">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={rule.isRegex}
+                    onChange={e => updateCorrectionRule(rule.id, { isRegex: e.target.checked })}
+                  />
+                  Regex
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={rule.caseSensitive}
+                    onChange={e => updateCorrectionRule(rule.id, { caseSensitive: e.target.checked })}
+                  />
+                  Match case
+                </label>
+                {isInvalid && <span className="text-destructive">Invalid pattern</span>}
+              </div>
+            </div>
+          );
+        })}
+
+        <Button
+          onClick={() => addCorrectionRule({ find: '', replace: '', isRegex: false, caseSensitive: false, enabled: true })}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon } from '@heroicons/react/24/outline';
+import { useWaveformPeaks } from '../hooks/useWaveformPeaks';
+import { formatTime } from '../utils/formatTime';
+import { cn } from '@/lib/utils';
+
+const MAX_ZOOM = 64;
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+
+export interface WaveformMarker {
+  id: string;
+  time: number;
+  label?: string;
+}
+
+interface WaveformProps {
+  audioUrl: string;
+  // Length of the audio, used until the peaks know better
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  markers?: WaveformMarker[];
+  height?: number;
+  // Hides the zoom buttons; pinching or ctrl+scroll still zoom
+  compact?: boolean;
+  className?: string;
+}
+
+const cssColor = (variable: string, alpha = 1) => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim();
+  return value ? `hsl(${value} / ${alpha})` : `rgba(128, 128, 128, ${alpha})`;
+};
+
+// Zoomable waveform of a recording; click or drag anywhere to seek
+export const Waveform: React.FC<WaveformProps> = ({
+  audioUrl,
+  duration,
+  currentTime,
+  onSeek,
+  markers,
+  height = 48,
+  compact = false,
+  className
+}) => {
+  const { peaks, isLoading } = useWaveformPeaks(audioUrl);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  // Touches on the canvas by pointer id, and the pinch they make once there are two
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
+  const totalDuration = duration > 0 && isFinite(duration) ? duration : peaks?.duration ?? 0;
+  const viewSpan = totalDuration / zoom;
+  const clampStart = useCallback(
+    (start: number) => Math.max(0, Math.min(start, totalDuration - viewSpan)),
+    [totalDuration, viewSpan]
+  );
+  const playheadTime = dragTime ?? currentTime;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Zoomed in, the view pages along with playback
+  useEffect(() => {
+    if (dragTime !== null || zoom === 1) return;
+    if (currentTime < viewStart || currentTime > viewStart + viewSpan) {
+      setViewStart(clampStart(currentTime - viewSpan * 0.1));
+    }
+  }, [currentTime, dragTime, zoom, viewStart, viewSpan, clampStart]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+
+    const played = cssColor('--primary');
+    const unplayed = cssColor('--muted-foreground', 0.4);
+    const middle = height / 2;
+
+    if (!peaks || totalDuration === 0) {
+      // Flat line until the peaks are ready
+      const progressX = totalDuration ? ((playheadTime - viewStart) / viewSpan) * width : 0;
+      context.fillStyle = unplayed;
+      context.fillRect(0, middle - 1, width, 2);
+      context.fillStyle = played;
+      context.fillRect(0, middle - 1, Math.max(0, Math.min(width, progressX)), 2);
+      return;
+    }
+
+    const step = BAR_WIDTH + BAR_GAP;
+    for (let x = 0; x < width; x += step) {
+      const from = viewStart + (x / width) * viewSpan;
+      const to = viewStart + ((x + step) / width) * viewSpan;
+      const first = Math.floor(from * peaks.peaksPerSecond);
+      const last = Math.min(peaks.peaks.length, Math.max(first + 1, Math.ceil(to * peaks.peaksPerSecond)));
+
+      let max = 0;
+      for (let i = first; i < last; i++) {
+        if (peaks.peaks[i] > max) max = peaks.peaks[i];
+      }
+      const barHeight = Math.max(1, (max / 255) * height);
+      context.fillStyle = from < playheadTime ? played : unplayed;
+      context.fillRect(x, middle - barHeight / 2, BAR_WIDTH, barHeight);
+    }
+  }, [peaks, width, height, totalDuration, viewStart, viewSpan, playheadTime]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return viewStart + ratio * viewSpan;
+  };
+
+  const changeZoom = useCallback((next: number, anchorTime: number) => {
+    const nextZoom = Math.max(1, Math.min(MAX_ZOOM, next));
+    const nextSpan = totalDuration / nextZoom;
+    // Keep the anchor at the same spot on screen
+    const anchorRatio = viewSpan > 0 ? (anchorTime - viewStart) / viewSpan : 0;
+    setZoom(nextZoom);
+    setViewStart(Math.max(0, Math.min(anchorTime - anchorRatio * nextSpan, totalDuration - nextSpan)));
+  }, [totalDuration, viewSpan, viewStart]);
+
+  // React's wheel listener is passive, so it can't stop the page from zooming
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        const anchor = viewStart + ((event.clientX - rect.left) / rect.width) * viewSpan;
+        changeZoom(zoom * (event.deltaY < 0 ? 1.25 : 0.8), anchor);
+      } else if (zoom > 1 && Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        event.preventDefault();
+        setViewStart(clampStart(viewStart + (event.deltaX / canvas.clientWidth) * viewSpan));
+      }
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoom, viewStart, viewSpan, changeZoom, clampStart]);
+
+  const pinchDistance = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (totalDuration === 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    // A second finger turns the drag into a pinch, which never seeks
+    if (pointersRef.current.size === 2) {
+      pinchRef.current = { distance: pinchDistance(), zoom };
+      setDragTime(null);
+    } else if (!pinchRef.current) {
+      setDragTime(timeAt(event.clientX));
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      // The moment between the fingers stays put
+      if (pinch.distance > 0) changeZoom(pinch.zoom * pinchDistance() / pinch.distance, timeAt((a.x + b.x) / 2));
+    } else if (dragTime !== null) {
+      setDragTime(timeAt(event.clientX));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pinchRef.current) {
+      // Only once every finger has lifted can a new drag start
+      if (pointersRef.current.size === 0) pinchRef.current = null;
+      return;
+    }
+    if (dragTime === null) return;
+    onSeek(timeAt(event.clientX));
+    setDragTime(null);
+  };
+
+  const handlePointerCancel = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pointersRef.current.size === 0) pinchRef.current = null;
+    setDragTime(null);
+  };
+
+  const visibleMarkers = markers?.filter(marker => marker.time >= viewStart && marker.time <= viewStart + viewSpan);
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <div ref={containerRef} className="relative flex-1 min-w-0" style={{ height }}>
+        <canvas
+          ref={canvasRef}
+          className={cn('block w-full touch-none', totalDuration > 0 && 'cursor-pointer', isLoading && 'animate-pulse')}
+          style={{ height }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+        />
+        {dragTime !== null && (
+          <div
+            className="pointer-events-none absolute -top-5 -translate-x-1/2 rounded bg-popover px-1 font-mono text-[10px] shadow"
+            style={{ left: `${((dragTime - viewStart) / viewSpan) * 100}%` }}
+          >
+            {formatTime(dragTime)}
+          </div>
+        )}
+        {totalDuration > 0 && visibleMarkers?.map(marker => (
+          <button
+            key={marker.id}
+            type="button"
+            onClick={() => onSeek(marker.time)}
+            className="absolute top-0 h-full w-1 -translate-x-1/2 rounded-full bg-amber-500/80 hover:bg-amber-500 transition-colors"
+            style={{ left: `${((marker.time - viewStart) / viewSpan) * 100}%` }}
+            title={`${formatTime(marker.time)}${marker.label ? ` - ${marker.label}` : ''}`}
+          />
+        ))}
+      </div>
+      {!compact && (
+        <div className="flex flex-shrink-0 items-center">
+          <button
+            type="button"
+            onClick={() => changeZoom(zoom / 2, currentTime)}
+            disabled={zoom <= 1}
+            className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-40"
+            title="Zoom out"
+          >
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => changeZoom(zoom * 2, currentTime)}
+            disabled={zoom >= MAX_ZOOM || totalDuration === 0}
+            className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-40"
+            title="Zoom in"
+          >
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -13,11 +13,12 @@ import { useAudioStore } from '../../stores/audioStore';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Card, CardContent } from '../ui/card';
-import { Plus, Search, Play, Pause, Trash2, Bot, FileText } from 'lucide-react';
+import { Plus, Search, Play, Pause, Trash2, Bot, FileText, ListMusic } from 'lucide-react';
 import { AppHeader } from '../Layout/AppHeader';
 import { AddButton } from '../AddButton';
 import { cn } from '../../lib/utils';
 import { MarkdownPreview } from '../MarkdownPreview';
+import { getNoteClips, getNoteDuration } from '../../utils/noteClips';
 
 interface LibraryScreenProps {
   onUploadFile: () => void;
@@ -28,7 +29,7 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({ onUploadFile, onFr
   // Get everything from stores
   const { notes, deleteNote, createNote } = useNotesStore();
   const { startRecordingFlow } = useRecordingStore();
-  const { playAudio, togglePlayPause, currentPlayingAudioUrl, globalIsPlaying } = useAudioStore();
+  const { playAudio, togglePlayPause, playQueue, currentPlayingAudioUrl, globalIsPlaying } = useAudioStore();
   const navigate = useNavigate({ from: Route.id });
   const { q: searchInput = '' } = Route.useSearch();
 
@@ -110,6 +111,12 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({ onUploadFile, onFr
     return groups;
   }, [filteredNotes]);
 
+  // Notes a "Play all" queues up: those with audio, and while searching only the matches
+  const getPlayableIds = (groupNotes: Note[]) => groupNotes
+    .filter(note => getNoteClips(note).length > 0 && (!searchInput || matches(note)))
+    .map(note => note.id);
+  const playableResultIds = searchInput ? getPlayableIds(filteredNotes) : [];
+
   // Helper function to get a plain text preview of content for cards
   const getContentPreview = (content: string, maxLength: number = 120) => {
     if (!content) return '';
@@ -137,8 +144,9 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({ onUploadFile, onFr
     const visibleChildren = isSearching ? childNotes.filter(c => hasMatchInSubtree(c)) : childNotes;
     const isAgentNote = note.type === 'agent';
     const hasAudio = note.audioUrl !== null && note.audioUrl !== undefined;
-    const formattedDuration = note.duration ?
-      `${Math.floor(note.duration / 60)}:${(note.duration % 60).toString().padStart(2, '0')}` :
+    const duration = getNoteDuration(note);
+    const formattedDuration = duration ?
+      `${Math.floor(duration / 60)}:${(duration % 60).toString().padStart(2, '0')}` :
       null;
 
     const handleNoteClick = (note: Note) => {
@@ -306,14 +314,34 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({ onUploadFile, onFr
             />
           </div>
 
+          {playableResultIds.length > 1 && (
+            <Button variant="secondary" size="sm" onClick={() => playQueue(playableResultIds)}>
+              <ListMusic className="h-4 w-4 mr-2" />
+              Play all {playableResultIds.length} results
+            </Button>
+          )}
+
           {/* Notes List */}
           <div className="space-y-6">
             {Object.keys(groupedNotes).length > 0 ? (
               Object.entries(groupedNotes).map(([groupName, groupNotes]) => (
                 <div key={groupName} className="space-y-3">
-                  <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-3">
-                    {groupName}
-                  </h2>
+                  <div className="flex items-center justify-between mb-3">
+                    <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                      {groupName}
+                    </h2>
+                    {getPlayableIds(groupNotes).length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => playQueue(getPlayableIds(groupNotes))}
+                        className="h-7 text-xs text-muted-foreground"
+                      >
+                        <Play className="h-3 w-3 mr-1" />
+                        Play all
+                      </Button>
+                    )}
+                  </div>
                   <div className="space-y-3">
                     {groupNotes.map(note => renderNoteWithChildren(note))}
                   </div>
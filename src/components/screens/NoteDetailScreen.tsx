@@ -6,7 +6,9 @@ import {
   SparklesIcon,
   TrashIcon,
   ArrowDownTrayIcon,
-  ShareIcon
+  ShareIcon,
+  MicrophoneIcon,
+  ScissorsIcon
 } from '@heroicons/react/24/outline';
 import { AnimatePresence, motion } from 'framer-motion';
 import React, { useEffect, useState } from 'react';
@@ -16,9 +18,10 @@ import { formatDistanceToNow } from 'date-fns';
 import { useAgentsStore } from '../../stores/agentsStore';
 
 import { useAudioStore } from '../../stores/audioStore';
-import { resolveStorageUrl } from '../../utils/audioStorage';
-import { Note, useNotesStore } from '../../stores/notesStore';
+import { audioStorage, getAudioExtension, getStorageId, isStorageUrl, resolveStorageUrl } from '../../utils/audioStorage';
+import { Note, NoteVersion, useNotesStore } from '../../stores/notesStore';
 import { useTranscriptionStore } from '../../stores/transcriptionStore';
+import { useRecordingStore } from '../../stores/recordingStore';
 import { BottomNavigation } from '../BottomNavigation';
 import { CrepeEditorWrapper } from '../CrepeEditor';
 import { RunAgentsDialog } from '../RunAgentsDialog';
@@ -28,6 +31,19 @@ import { Card, CardContent } from '../ui/card';
 import { cn } from '../../lib/utils';
 import { toast } from '../../hooks/use-toast';
 import { MarkdownPreview } from '../MarkdownPreview';
+import { TranscriptView } from '../TranscriptView';
+import { SpeakerLabels } from '../SpeakerLabels';
+import { NoteBookmarks } from '../NoteBookmarks';
+import { NoteClips } from '../NoteClips';
+import { RecordingPartsNav } from '../RecordingPartsNav';
+import { Waveform } from '../Waveform';
+import { AudioEditor } from '../AudioEditor';
+import { VersionHistory } from '../VersionHistory';
+import { VersionDiffDialog } from '../VersionDiffDialog';
+import { getSpeakerIds } from '../../utils/speakerTurns';
+import { getNoteAudioUrls, getNoteDuration, isBookmarkInClip } from '../../utils/noteClips';
+import { getLanguageName } from '../../utils/languages';
+import { formatAudioSources } from '../../utils/recordingProfiles';
 
 interface NoteDetailScreenProps {
   note: Note;
@@ -45,14 +61,18 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   // Get everything from stores
   const { 
     playAudio, 
+    playAudioFrom,
     currentPlayingAudioUrl, 
     globalIsPlaying, 
     globalAudioDuration, 
     globalAudioCurrentTime,
     setIsUserInteracting,
-    togglePlayPause
+    togglePlayPause,
+    closePlayer
   } = useAudioStore();
   
+  const { isRecording, startRecordingFlow } = useRecordingStore();
+  
   const { 
     canRunAnyAgents, 
     isProcessing: agentsProcessing,
@@ -63,14 +83,20 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
     notes, 
     updateNote, 
     deleteNote, 
-    updateTags 
+    updateTags,
+    saveVersion,
+    restoreVersion
   } = useNotesStore();
   
   const { 
-    startTranscriptionFromUrl,
+    enqueueTranscription,
     isNoteProcessing,
     getNoteProcessingStatus,
-    getNoteProgressItems
+    getNoteProgressItems,
+    getLatestJobForNote,
+    cancelJob,
+    retryJob,
+    removeJob
   } = useTranscriptionStore();
   const navigate = useNavigate();
   
@@ -81,6 +107,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showRetranscribeConfirm, setShowRetranscribeConfirm] = useState(false);
   const [showRunAgentsDialog, setShowRunAgentsDialog] = useState(false);
+  const [compareVersion, setCompareVersion] = useState<NoteVersion | null>(null);
 
   // Note: sourceNote is already defined below
 
@@ -95,6 +122,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   // Get transcription status for this specific note
   const isTranscribing = note ? isNoteProcessing(note.id) : false;
   const transcriptionStatus = note ? getNoteProcessingStatus(note.id) : '';
+  const latestTranscriptionJob = note ? getLatestJobForNote(note.id) : undefined;
   
   // Get child notes for this note
   const childNotes = notes.filter(n => 
@@ -117,8 +145,9 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
     const childNotes = getChildNotes(note.id);
     const isAgentNote = note.type === 'agent';
     const hasAudio = note.audioUrl !== null && note.audioUrl !== undefined;
-    const formattedDuration = note.duration ? 
-      `${Math.floor(note.duration / 60)}:${(note.duration % 60).toString().padStart(2, '0')}` : 
+    const duration = getNoteDuration(note);
+    const formattedDuration = duration ? 
+      `${Math.floor(duration / 60)}:${(duration % 60).toString().padStart(2, '0')}` : 
       null;
     
     return (
@@ -251,19 +280,25 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   const handleEditorChange = (newContent: string) => {
     setContent(newContent);
     if (note) {
-      updateNote({ ...note, content: newContent });
+      updateNote({ ...note, content: newContent, contentEditedAt: Date.now() });
     }
   };
 
   const handleRetranscribe = async () => {
     setShowRetranscribeConfirm(false);
     
-    // Clear current content
-    setContent('');
-    updateNote({ ...note, content: '' });
-    
-    // Start transcription from URL - this handles storage URLs properly
-    startTranscriptionFromUrl(note.audioUrl ?? '', note.id);
+    // The result lands in the version history, leaving manual edits intact
+    enqueueTranscription(note.id, note.audioUrl ?? '', {
+      priority: 1,
+      progressiveUpdates: false,
+      saveAsVersion: true
+    });
+  };
+
+  const handleRestoreVersion = (version: NoteVersion) => {
+    // Restoring is itself undoable from the history
+    saveVersion(note.id, 'Before restore');
+    restoreVersion(note.id, version);
   };
 
   const handleAddTag = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -330,7 +365,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
           const blob = await response.blob();
 
           // Create a file from the blob
-          const fileName = `${note.title.replace(/\s+/g, '_')}_audio.${resolvedAudio.mimeType.split('/')[1] || 'webm'}`;
+          const fileName = `${note.title.replace(/\s+/g, '_')}_audio.${getAudioExtension(resolvedAudio.mimeType)}`;
           const file = new File([blob], fileName, { type: resolvedAudio.mimeType });
 
           // Share the file
@@ -417,6 +452,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   };
 
   const isCurrentlyPlaying = note.audioUrl === currentPlayingAudioUrl && globalIsPlaying;
+  const isTrimmedPlaying = !!note.trimmedAudio && note.trimmedAudio.url === currentPlayingAudioUrl && globalIsPlaying;
   
   // ALWAYS use the note's stored duration - never let the audio element override it
   // The note duration is the actual recorded duration and should never change
@@ -452,6 +488,23 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
     setShowDeleteAudioConfirm(true);
   };
 
+  // Records a follow-up clip into this note instead of starting a new one
+  const handleRecordMore = async () => {
+    if (currentPlayingAudioUrl) {
+      closePlayer();
+    }
+    try {
+      await startRecordingFlow(note.id);
+    } catch (error) {
+      console.error('❌ NoteDetailScreen: Failed to start recording:', error);
+      toast({
+        title: 'Recording Error',
+        description: error instanceof Error ? error.message : 'Could not start recording',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const handleDownloadAudio = async () => {
     if (!note.audioUrl) {
       toast({
@@ -479,7 +532,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
       downloadLink.href = resolvedAudio.url;
       
       // Set a filename based on the note title
-      const fileExtension = resolvedAudio.mimeType.split('/')[1] || 'webm';
+      const fileExtension = getAudioExtension(resolvedAudio.mimeType);
       const fileName = `${note.title.replace(/\s+/g, '_')}_audio.${fileExtension}`;
       downloadLink.download = fileName;
       
@@ -500,11 +553,36 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
   };
 
   const [showDeleteAudioConfirm, setShowDeleteAudioConfirm] = useState(false);
+  const [showAudioEditor, setShowAudioEditor] = useState(false);
+  // Toggle between the original transcript and its English translation
+  const [showTranslation, setShowTranslation] = useState(false);
+  const translation = showTranslation ? note.translation : undefined;
 
   const handleConfirmDeleteAudio = () => {
     if (note.audioUrl) {
-      const updatedNote = { ...note, audioUrl: undefined, duration: undefined };
+      const updatedNote = {
+        ...note,
+        audioUrl: undefined,
+        duration: undefined,
+        segments: undefined,
+        trimmedAudio: undefined,
+        originalAudio: undefined
+      };
       updateNote(updatedNote);
+
+      // Drop the stored copies nothing points at any more, the pre-edit original included
+      const kept = new Set([
+        ...getNoteAudioUrls(updatedNote),
+        ...useNotesStore.getState().notes.filter(other => other.id !== note.id).flatMap(getNoteAudioUrls)
+      ]);
+      getNoteAudioUrls(note)
+        .filter(url => !kept.has(url) && isStorageUrl(url))
+        .forEach(url => {
+          if (currentPlayingAudioUrl === url) closePlayer();
+          audioStorage.deleteAudio(getStorageId(url)).catch(error => {
+            console.warn('⚠️ NoteDetailScreen: Could not delete stored audio:', error);
+          });
+        });
     }
     setShowDeleteAudioConfirm(false);
   };
@@ -636,7 +714,15 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
               <div className="flex items-center gap-4">
                 <span>Words: {getWordCount(content)}</span>
                 <span>Characters: {getCharacterCount(content)}</span>
-                {effectiveDuration > 0 && <span>Duration: {formatDuration(effectiveDuration)}</span>}
+                {getNoteDuration(note) > 0 && <span>Duration: {formatDuration(getNoteDuration(note))}</span>}
+                {note.recordingSources && <span>Source: {formatAudioSources(note.recordingSources)}</span>}
+                {note.transcribedBy && (
+                  <span title={`Transcribed ${formatDate(note.transcribedBy.transcribedAt)}`}>
+                    Transcribed by {note.transcribedBy.providerName}
+                    {note.transcribedBy.model ? ` (${note.transcribedBy.model})` : ''}
+                  </span>
+                )}
+                {note.language && <span>Language: {getLanguageName(note.language)}</span>}
               </div>
               <div>
                 Last edited: {formatDate(note.lastEdited)}
@@ -644,6 +730,9 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
             </div>
           </div>
 
+          {/* Neighbouring parts of a recording split by the recording rules */}
+          <RecordingPartsNav note={note} />
+
           {/* Audio Player */}
           {note.audioUrl && (
             <div className="card">
@@ -673,6 +762,26 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
                 <div className="flex-1"></div>
                 {/* Audio Controls */}
                 <div className="flex items-center gap-1">
+                  {!isAgentNote && !isRecording && (
+                    <Button
+                      onClick={handleRecordMore}
+                      variant="secondary"
+                      className="p-2 rounded-lg"
+                      title="Record more into this note"
+                    >
+                      <MicrophoneIcon className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {!isAgentNote && (
+                    <Button
+                      onClick={() => setShowAudioEditor(!showAudioEditor)}
+                      variant={showAudioEditor ? 'default' : 'secondary'}
+                      className="p-2 rounded-lg"
+                      title="Trim, cut, split or merge audio"
+                    >
+                      <ScissorsIcon className="w-4 h-4" />
+                    </Button>
+                  )}
                   {/* Retranscribe button */}
                   {!isTranscribing && (
                     <Button
@@ -718,9 +827,51 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
                   </Button>
                 </div>
               </div>
+
+              <Waveform
+                audioUrl={note.audioUrl}
+                duration={note.audioUrl === currentPlayingAudioUrl ? progressDuration : effectiveDuration}
+                currentTime={note.audioUrl === currentPlayingAudioUrl ? globalAudioCurrentTime : 0}
+                onSeek={(time) => {
+                  setIsUserInteracting(true);
+                  playAudioFrom(note.audioUrl!, time);
+                }}
+                markers={note.bookmarks?.filter(bookmark => isBookmarkInClip(note, bookmark, note.id))}
+                height={64}
+                className="mt-3"
+              />
+
+              {/* Trim, cut, split and merge; an unconfirmed edit shows here too */}
+              {(showAudioEditor || note.originalAudio) && (
+                <AudioEditor note={note} onClose={() => setShowAudioEditor(false)} />
+              )}
+
+              {/* Silence-trimmed copy saved during transcription */}
+              {note.trimmedAudio && (
+                <div className="flex items-center gap-3 mt-3 pt-3 border-t border-border">
+                  <Button
+                    onClick={() => {
+                      setIsUserInteracting(true);
+                      playAudio(note.trimmedAudio!.url);
+                    }}
+                    variant="ghost"
+                    size="icon"
+                    title="Play silence-trimmed copy"
+                  >
+                    {isTrimmedPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                  </Button>
+                  <div className="text-sm">Silence-trimmed copy</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDuration(note.trimmedAudio.duration)}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
+          {/* Clips added with "Record more" */}
+          <NoteClips note={note} />
+
           {/* Show transcription/model loading status */}
           {isTranscribing && (
             <>
@@ -738,15 +889,68 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
                       transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
                       className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full"
                     />
-                    <span className="text-sm text-primary/80 font-medium">
+                    <span className="text-sm text-primary/80 font-medium flex-1">
                       {transcriptionStatus || 'Processing...'}
                     </span>
+                    {latestTranscriptionJob && (
+                      <Button
+                        onClick={() => cancelJob(latestTranscriptionJob.id)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Cancel
+                      </Button>
+                    )}
                   </div>
                 </div>
               )}
             </>
           )}
 
+          {/* Failed transcription with retry */}
+          {!isTranscribing && latestTranscriptionJob?.status === 'failed' && (
+            <div className="card border-destructive/30">
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-destructive flex-1">
+                  {latestTranscriptionJob.statusText}
+                </span>
+                <Button
+                  onClick={() => removeJob(latestTranscriptionJob.id)}
+                  variant="ghost"
+                  size="sm"
+                >
+                  Dismiss
+                </Button>
+                <Button
+                  onClick={() => retryJob(latestTranscriptionJob.id)}
+                  variant="outline"
+                  size="sm"
+                >
+                  Retry
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Timestamped transcript - click a segment to seek */}
+          {note.audioUrl && note.segments && note.segments.length > 0 && (
+            <TranscriptView
+              segments={translation ? translation.segments : note.segments}
+              audioUrl={note.audioUrl}
+              speakers={note.speakers}
+            />
+          )}
+
+          {/* Moments flagged while recording - click to seek */}
+          {note.bookmarks && note.bookmarks.length > 0 && (
+            <NoteBookmarks note={note} />
+          )}
+
+          {/* Speaker names - rename once, applies to the whole note */}
+          {note.segments && (
+            <SpeakerLabels noteId={note.id} speakerIds={getSpeakerIds(note.segments)} speakers={note.speakers} />
+          )}
+
           {/* Tags */}
           <div className="space-y-3">
             <div className="flex flex-wrap gap-2">
@@ -785,7 +989,32 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
             )}
           </div>
 
+          {/* Original / translation switch */}
+          {note.translation && (
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setShowTranslation(false)}
+                variant={showTranslation ? 'outline' : 'default'}
+                size="sm"
+              >
+                Original{note.language ? ` (${getLanguageName(note.language)})` : ''}
+              </Button>
+              <Button
+                onClick={() => setShowTranslation(true)}
+                variant={showTranslation ? 'default' : 'outline'}
+                size="sm"
+              >
+                {getLanguageName(note.translation.language)} translation
+              </Button>
+            </div>
+          )}
+
           {/* Editor with floating copy button */}
+          {translation ? (
+            <div className="border border-border rounded-lg p-4">
+              <MarkdownPreview content={translation.text} />
+            </div>
+          ) : (
           <div className="border border-border rounded-lg p-4 relative">
             {/* Floating copy button */}
             <Button
@@ -806,6 +1035,15 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
               placeholder="Start writing your note..."
             />
           </div>
+          )}
+
+          {/* Earlier versions and retranscriptions, compared word by word */}
+          <VersionHistory
+            versions={note.versions}
+            onCompare={setCompareVersion}
+            onRestore={handleRestoreVersion}
+          />
+
           {/* Agent note indicator with icon instead of text */}
           {isAgentNote && (
             <div className="flex items-center gap-2 text-sm text-indigo-400">
@@ -938,7 +1176,7 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
             >
               <h3 className="text-lg font-semibold mb-4">Re-transcribe Audio</h3>
               <p className="text-muted-foreground mb-6">
-                This will replace the current content with a new transcription. This action cannot be undone.
+                The audio will be transcribed again with the current model. The result is saved as a new version you can compare and merge, so your edits are kept.
               </p>
               <div className="flex justify-end gap-2">
                 <Button
@@ -959,6 +1197,14 @@ export const NoteDetailScreen: React.FC<NoteDetailScreenProps> = ({
         )}
       </AnimatePresence>
 
+      {/* Version Diff Dialog */}
+      <VersionDiffDialog
+        version={compareVersion}
+        content={content}
+        onApply={handleEditorChange}
+        onClose={() => setCompareVersion(null)}
+      />
+
       {/* Run AI Agents Dialog */}
       <AnimatePresence>
         {showRunAgentsDialog && (
@@ -3,6 +3,11 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { MicrophoneIcon } from '@heroicons/react/24/solid';
 import { useRecordingStore } from '../../stores/recordingStore';
 import { useAudioStore } from '../../stores/audioStore';
+import { LiveTranscript } from '../LiveTranscript';
+import { InputLevelMeter } from '../InputLevelMeter';
+import { RecordingOptions } from '../RecordingOptions';
+import { RecordingBookmarks } from '../RecordingBookmarks';
+import { SourceGainControls } from '../SourceGainControls';
 
 // Helper function to format time in MM:SS format
 const formatTime = (seconds: number): string => {
@@ -13,8 +18,9 @@ const formatTime = (seconds: number): string => {
 
 export const RecordScreen: React.FC = () => {
   // Get everything from stores
-  const { isRecording, isPaused, recordingTime, startRecordingFlow, pauseRecordingFlow, resumeRecordingFlow, stopRecordingFlow } = useRecordingStore();
+  const { isRecording, isPaused, recordingTime, audioStream, startRecordingFlow, pauseRecordingFlow, resumeRecordingFlow, stopRecordingFlow } = useRecordingStore();
   const { currentPlayingAudioUrl, closePlayer } = useAudioStore();
+  const audioMixer = useRecordingStore(state => state.audioMixer);
   
   // We don't need this function anymore as we've moved the logic to handleStartRecording
 
@@ -84,6 +90,8 @@ export const RecordScreen: React.FC = () => {
                     <MicrophoneIcon className="w-10 h-10 text-white" />
                   </motion.button>
                 )}
+                
+                <RecordingOptions />
               </motion.div>
             ) : (
               <motion.div
@@ -101,6 +109,14 @@ export const RecordScreen: React.FC = () => {
                   {formatTime(recordingTime)} - {isPaused ? 'Paused' : 'Recording'}
                 </p>
                 
+                <InputLevelMeter stream={audioStream} />
+                
+                {audioMixer && <SourceGainControls sources={audioMixer.sources} />}
+                
+                <LiveTranscript />
+                
+                <RecordingBookmarks />
+                
                 {/* Recording Controls */}
                 <div className="flex justify-center space-x-6 mt-8">
                   {/* Pause/Resume Button */}
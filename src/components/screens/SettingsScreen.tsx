@@ -13,9 +13,16 @@ import {
 // Import components
 import { ModelSelector } from '../ModelSelector';
 import { LLMProviderSettings } from '../LLMProviderSettings';
+import { SttProviderSettings } from '../SttProviderSettings';
+import { VocabularySettings } from '../VocabularySettings';
+import { TranscriptFormattingSettings } from '../TranscriptFormattingSettings';
+import { RecordingRulesSettings } from '../RecordingRulesSettings';
+import { ModelManager } from '../ModelManager';
 import { 
   NotesManagement, 
   AudioManagement, 
+  AudioCompression,
+  StorageDashboard,
   SettingsManagement, 
   DangerZone,
 } from '../settings';
@@ -30,7 +37,8 @@ import { Button } from "../ui/button";
 
 // Import stores
 import { useSettingsStore } from '../../stores/settingsStore';
-import { useLLMProvidersStore } from '../../stores/llmProvidersStore';
+import { useModelCacheStore } from '../../stores/modelCacheStore';
+import type { DiarizationMode } from '../../services/diarizationService';
 import { deleteDownloadedModels } from '@/utils/settingsExporter';
 import { useTheme } from '../../hooks/useTheme';
 import { cn } from '@/lib/utils';
@@ -40,19 +48,25 @@ export const SettingsScreen: React.FC = () => {
   const { theme, setTheme } = useTheme();
   
   // Get only what we need from stores using primitive selectors to avoid unnecessary re-renders
-  const useOpenAIForSTT = useSettingsStore(state => state.useOpenAIForSTT);
-  
-  // Check if we have a valid OpenAI provider for STT option
-  const hasOpenAIProvider = useLLMProvidersStore(state => 
-    state.providers.some(p => p.name.toLowerCase() === 'openai' && p.isValid)
-  );
+  const maxConcurrentTranscriptions = useSettingsStore(state => state.maxConcurrentTranscriptions);
+  const liveTranscription = useSettingsStore(state => state.liveTranscription);
+  const diarization = useSettingsStore(state => state.diarization);
+  const voiceActivityDetection = useSettingsStore(state => state.voiceActivityDetection);
+  const saveTrimmedAudio = useSettingsStore(state => state.saveTrimmedAudio);
 
   // Define the settings groups structure with their components
   // Using stable references to prevent infinite loops
   const modelSelectorComponent = useMemo(() => <ModelSelector className="w-full" />, []);
   const llmProviderSettingsComponent = useMemo(() => <LLMProviderSettings />, []);
+  const sttProviderSettingsComponent = useMemo(() => <SttProviderSettings />, []);
+  const vocabularySettingsComponent = useMemo(() => <VocabularySettings />, []);
+  const transcriptFormattingComponent = useMemo(() => <TranscriptFormattingSettings />, []);
+  const recordingRulesComponent = useMemo(() => <RecordingRulesSettings />, []);
+  const modelManagerComponent = useMemo(() => <ModelManager />, []);
 
   const memoizedAudioManagement = useMemo(() => <AudioManagement />, []);
+  const memoizedAudioCompression = useMemo(() => <AudioCompression />, []);
+  const memoizedStorageDashboard = useMemo(() => <StorageDashboard />, []);
   const memoizedNotesManagement = useMemo(() => <NotesManagement />, []);
   const memoizedSettingsManagement = useMemo(() => <SettingsManagement />, []);
   const memoizedDangerZone = useMemo(() => <DangerZone />, []);
@@ -66,6 +80,7 @@ export const SettingsScreen: React.FC = () => {
     
     try {
       const result = await deleteDownloadedModels();
+      useModelCacheStore.getState().refresh();
       
       if (result.success) {
         setClearModelsStatus('success');
@@ -154,25 +169,150 @@ export const SettingsScreen: React.FC = () => {
       title: 'Transcription',
       icon: CpuChipIcon,
       items: [
+        {
+          label: 'Speech-to-Text Providers',
+          description: 'Choose which services transcribe your recordings and in what order',
+          component: (
+            <div className="w-full">
+              {sttProviderSettingsComponent}
+            </div>
+          )
+        },
+        {
+          label: 'Recording Rules',
+          description: 'Stop or split long recordings automatically',
+          component: (
+            <div className="w-full">
+              {recordingRulesComponent}
+            </div>
+          )
+        },
         {
           label: 'Transcription Settings',
           description: 'Choose the AI model and language settings for speech recognition',
           component: (
             <div className="w-full space-y-6">
-              {hasOpenAIProvider && (
-                <div className="flex items-center justify-between mb-2">
-                  <label className="text-sm font-medium">Use OpenAI for STT whenever possible</label>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Transcribe live while recording</label>
+                <input
+                  type="checkbox"
+                  checked={liveTranscription}
+                  onChange={e => useSettingsStore.getState().setLiveTranscription(e.target.checked)}
+                  className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+                />
+              </div>
+              {liveTranscription && (
+                <p className="text-xs text-muted-foreground">
+                  Sends the last few seconds to your first speech-to-text provider throughout the recording, on top of the final transcription.
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Skip silence before transcribing</label>
+                <input
+                  type="checkbox"
+                  checked={voiceActivityDetection}
+                  onChange={e => useSettingsStore.getState().setVoiceActivityDetection(e.target.checked)}
+                  className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
+                />
+              </div>
+              {voiceActivityDetection && (
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Save a silence-trimmed copy of the audio</label>
                   <input
                     type="checkbox"
-                    checked={useOpenAIForSTT}
-                    onChange={e => useSettingsStore.getState().setUseOpenAIForSTT(e.target.checked)}
+                    checked={saveTrimmedAudio}
+                    onChange={e => useSettingsStore.getState().setSaveTrimmedAudio(e.target.checked)}
                     className="w-5 h-5 text-primary bg-background border-border rounded focus:ring-primary"
                   />
                 </div>
               )}
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Parallel transcription jobs</label>
+                <Select
+                  value={String(maxConcurrentTranscriptions)}
+                  onValueChange={value => useSettingsStore.getState().setMaxConcurrentTranscriptions(Number(value))}
+                >
+                  <SelectTrigger className="w-[80px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3].map(count => (
+                      <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               {modelSelectorComponent}
             </div>
           )
+        },
+        {
+          label: 'Custom Vocabulary',
+          description: 'Teach transcription your product names, acronyms and colleagues',
+          component: (
+            <div className="w-full">
+              {vocabularySettingsComponent}
+            </div>
+          )
+        },
+        {
+          label: 'Transcript Formatting',
+          description: 'Break finished transcripts into readable paragraphs',
+          component: (
+            <div className="w-full">
+              {transcriptFormattingComponent}
+            </div>
+          )
+        },
+        {
+          label: 'Speaker Detection',
+          description: 'Split transcripts into speaker turns so notes and agents know who said what',
+          component: (
+            <div className="w-full space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Detect speakers</label>
+                <Select
+                  value={diarization.mode}
+                  onValueChange={value => useSettingsStore.getState().setDiarization({ mode: value as DiarizationMode })}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="heuristic">Pauses &amp; voice changes</SelectItem>
+                    <SelectItem value="remote">Diarization server</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {diarization.mode === 'remote' && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1">Server URL</label>
+                    <input
+                      type="url"
+                      value={diarization.url}
+                      onChange={e => useSettingsStore.getState().setDiarization({ url: e.target.value })}
+                      placeholder="https://example.com/diarize"
+                      className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1">API Key (optional)</label>
+                    <input
+                      type="password"
+                      value={diarization.apiKey}
+                      onChange={e => useSettingsStore.getState().setDiarization({ apiKey: e.target.value })}
+                      className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Falls back to pause &amp; voice change detection if the server is unreachable.
+                  </p>
+                </>
+              )}
+            </div>
+          )
         }
       ]
     },
@@ -198,12 +338,25 @@ export const SettingsScreen: React.FC = () => {
             </div>
           )
         },
+        {
+          label: 'Storage',
+          description: 'Usage, quota and storage problems',
+          component: memoizedStorageDashboard
+        },
+        {
+          label: 'Audio Storage',
+          description: 'Store recordings compactly',
+          component: memoizedAudioCompression
+        },
         {
           label: 'Cache',
           description: 'Manage cached data',
           component: (
           <div>
             <h4 className="text-sm text-gray-400 mb-2">Downloaded Models</h4>
+            <div className="mb-4">
+              {modelManagerComponent}
+            </div>
             <Button
               onClick={handleClearModels}
               variant="destructive"
@@ -211,7 +364,7 @@ export const SettingsScreen: React.FC = () => {
               disabled={clearModelsStatus === 'loading'}
             >
               <TrashIcon className="w-5 h-5" />
-              Delete Downloaded Models
+              Delete All Downloaded Models
             </Button>
             
             {clearModelsMessage && (
@@ -246,7 +399,7 @@ export const SettingsScreen: React.FC = () => {
     //     }
     //   ]
     // }
-  ], [hasOpenAIProvider, useOpenAIForSTT]);
+  ], [maxConcurrentTranscriptions, liveTranscription, diarization, voiceActivityDetection, saveTrimmedAudio]);
 
   return (
     <div className="flex flex-col h-full bg-background relative">
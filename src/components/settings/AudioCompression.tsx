@@ -0,0 +1,101 @@
+import React, { useEffect } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useAudioCompactionStore } from '../../stores/audioCompactionStore';
+import { getStorageQuality, StorageQuality, storageQualities } from '../../utils/audioTranscoder';
+import { formatBytes } from '../../utils/formatBytes';
+import { Button } from '../ui/button';
+import { Progress } from '../ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+export const AudioCompression: React.FC = () => {
+  const audioStorageQuality = useSettingsStore(state => state.audioStorageQuality);
+  const { setAudioStorageQuality } = useSettingsStore.getState();
+  const { candidates, isScanning, isRunning, total, processed, currentProgress, savedBytes, failed } = useAudioCompactionStore();
+  const { scan, compactAll, cancel } = useAudioCompactionStore.getState();
+
+  useEffect(() => {
+    if (!useAudioCompactionStore.getState().isRunning) scan();
+  }, [scan]);
+
+  const candidateBytes = candidates.reduce((sum, item) => sum + item.size, 0);
+  const overallProgress = total > 0 ? ((processed + currentProgress) / total) * 100 : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <label className="text-sm font-medium">Storage quality</label>
+        <Select
+          value={audioStorageQuality}
+          onValueChange={value => setAudioStorageQuality(value as StorageQuality)}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(storageQualities).map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {getStorageQuality(audioStorageQuality).description}. Uncompressed audio is stored as MP3.
+      </p>
+
+      <div className="border border-border rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm">
+            {isScanning
+              ? 'Looking for uncompressed recordings...'
+              : candidates.length > 0
+                ? `${candidates.length} uncompressed recording${candidates.length === 1 ? '' : 's'} using ${formatBytes(candidateBytes)}`
+                : 'All stored recordings are compressed'}
+          </p>
+          {isRunning ? (
+            <Button onClick={cancel} variant="ghost" size="sm" className="flex items-center gap-1">
+              <XMarkIcon className="w-4 h-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              onClick={compactAll}
+              variant="secondary"
+              size="sm"
+              className="flex items-center gap-1"
+              disabled={isScanning || candidates.length === 0}
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Compress
+            </Button>
+          )}
+        </div>
+
+        {isRunning && (
+          <div className="space-y-1">
+            <Progress value={overallProgress} className="h-1" />
+            <p className="text-xs text-muted-foreground">
+              Compressing {Math.min(processed + 1, total)} of {total}. Originals are kept until each copy is verified.
+            </p>
+          </div>
+        )}
+
+        {(savedBytes > 0 || failed > 0) && (
+          <p className="text-xs text-muted-foreground">
+            {savedBytes > 0 && <span className="text-green-500">Saved {formatBytes(savedBytes)}</span>}
+            {savedBytes > 0 && failed > 0 && ' · '}
+            {failed > 0 && `${failed} recording${failed === 1 ? '' : 's'} kept as they were`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioCompression;
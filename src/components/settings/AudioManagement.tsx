@@ -1,10 +1,13 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { ArrowDownTrayIcon, ArrowUpTrayIcon, TrashIcon, ShareIcon } from '@heroicons/react/24/outline';
 import { useNotesStore } from '../../stores/notesStore';
+import { useStorageStore } from '../../stores/storageStore';
+import { formatBytes } from '../../utils/formatBytes';
 import { Button } from '../ui/button';
 
 export const AudioManagement: React.FC = () => {
   const { downloadAllAudio, downloadSingleAudio, importAudio, clearAllRecordings, notes } = useNotesStore();
+  const noteAudioSizes = useStorageStore(state => state.noteAudioSizes);
   
   // UI state
   const [exportAudioStatus, setExportAudioStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
@@ -102,7 +105,12 @@ export const AudioManagement: React.FC = () => {
         <h3 className="text-sm font-medium mb-2">Audio Management</h3>
         <div className="flex flex-col sm:flex-row gap-2 sm:gap-4">
           <Button
-            onClick={() => isIOS ? setShowSingleExport(!showSingleExport) : handleExportAllAudio()}
+            onClick={() => {
+              if (!isIOS) return handleExportAllAudio();
+              // Sizes help pick what to export first
+              if (!showSingleExport) useStorageStore.getState().refresh();
+              setShowSingleExport(!showSingleExport);
+            }}
             variant="default"
             className="flex items-center justify-center gap-2"
             disabled={exportAudioStatus === 'loading'}
@@ -157,7 +165,10 @@ export const AudioManagement: React.FC = () => {
               <div key={note.id} className="flex items-center justify-between bg-gray-800/50 p-2 rounded">
                 <div className="truncate flex-1">
                   <p className="text-sm text-gray-300 truncate">{note.title || 'Untitled Recording'}</p>
-                  <p className="text-xs text-gray-500">{new Date(note.created).toLocaleDateString()}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(note.created).toLocaleDateString()}
+                    {noteAudioSizes[note.id] ? ` · ${formatBytes(noteAudioSizes[note.id])}` : ''}
+                  </p>
                 </div>
                 <Button
                   onClick={() => handleExportSingleAudio(note.id)}
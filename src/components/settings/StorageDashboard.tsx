@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { ArrowPathIcon, ExclamationTriangleIcon, LockClosedIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { useNotesStore } from '../../stores/notesStore';
+import { useStorageStore } from '../../stores/storageStore';
+import { formatBytes } from '../../utils/formatBytes';
+import { Button } from '../ui/button';
+import { Progress } from '../ui/progress';
+
+// Notes listed before "Show all"
+const TOP_NOTES = 5;
+
+export const StorageDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const notes = useNotesStore(state => state.notes);
+  const { deleteNote } = useNotesStore.getState();
+  const { estimate, persisted, breakdown, noteAudioSizes, integrity, isScanning } = useStorageStore();
+  const { refresh, requestPersistence, deleteOrphan, restoreOrphan, detachMissingAudio } = useStorageStore.getState();
+  const [showAllNotes, setShowAllNotes] = useState(false);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const notesBySize = useMemo(() =>
+    notes
+      .filter(note => noteAudioSizes[note.id])
+      .sort((a, b) => noteAudioSizes[b.id] - noteAudioSizes[a.id]),
+    [notes, noteAudioSizes]
+  );
+  const visibleNotes = showAllNotes ? notesBySize : notesBySize.slice(0, TOP_NOTES);
+  const usagePercent = estimate ? (estimate.usage / estimate.quota) * 100 : 0;
+
+  const typeRows = breakdown ? [
+    { label: 'Recordings', bytes: breakdown.audio },
+    { label: 'Notes & settings', bytes: breakdown.notes },
+    { label: 'Transcription models', bytes: breakdown.models },
+    { label: 'Other', bytes: breakdown.other }
+  ] : [];
+
+  const handleRestore = async (id: string) => {
+    const noteId = await restoreOrphan(id);
+    if (noteId) navigate({ to: '/note/$id', params: { id: noteId } });
+  };
+
+  const handleDeleteAllOrphans = async () => {
+    for (const orphan of integrity?.orphans ?? []) {
+      await deleteOrphan(orphan.id);
+    }
+    refresh();
+  };
+
+  const noteTitle = (noteId: string) => notes.find(note => note.id === noteId)?.title || 'Untitled';
+
+  return (
+    <div className="space-y-4">
+      {/* Usage against the browser quota */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {estimate ? `${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} used` : 'Storage usage unavailable'}
+          </span>
+          <Button onClick={refresh} variant="ghost" size="icon" disabled={isScanning} title="Refresh">
+            <ArrowPathIcon className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        {estimate && (
+          <Progress
+            value={usagePercent}
+            className={`h-2 ${usagePercent >= 80 ? '[&>div]:bg-destructive' : ''}`}
+          />
+        )}
+        <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <LockClosedIcon className="w-3 h-3" />
+            {persisted ? 'Protected from automatic cleanup' : 'The browser may clear this data when space runs low'}
+          </span>
+          {!persisted && (
+            <Button onClick={requestPersistence} variant="secondary" size="sm">
+              Keep my data
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* By type */}
+      {typeRows.length > 0 && (
+        <div className="space-y-1">
+          {typeRows.map(row => (
+            <div key={row.label} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{row.label}</span>
+              <span className="font-mono text-xs">{formatBytes(row.bytes)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* By note */}
+      {notesBySize.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">Largest recordings</h4>
+          {visibleNotes.map(note => (
+            <button
+              key={note.id}
+              type="button"
+              onClick={() => navigate({ to: '/note/$id', params: { id: note.id } })}
+              className="flex w-full items-center justify-between gap-3 rounded-md px-2 py-1 text-left text-sm hover:bg-accent/50"
+            >
+              <span className="truncate">{note.title || 'Untitled'}</span>
+              <span className="flex-shrink-0 font-mono text-xs text-muted-foreground">{formatBytes(noteAudioSizes[note.id])}</span>
+            </button>
+          ))}
+          {notesBySize.length > TOP_NOTES && (
+            <Button onClick={() => setShowAllNotes(!showAllNotes)} variant="ghost" size="sm">
+              {showAllNotes ? 'Show fewer' : `Show all ${notesBySize.length}`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Integrity */}
+      {integrity && (integrity.orphans.length > 0 || integrity.missing.length > 0) && (
+        <div className="border border-border rounded-lg p-3 space-y-3">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <ExclamationTriangleIcon className="w-4 h-4 text-amber-500" />
+            Storage problems
+          </h4>
+
+          {integrity.orphans.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                  {integrity.orphans.length} recording{integrity.orphans.length === 1 ? '' : 's'} not linked to any note
+                </p>
+                <Button onClick={handleDeleteAllOrphans} variant="ghost" size="sm" className="text-destructive">
+                  Delete all
+                </Button>
+              </div>
+              {integrity.orphans.map(orphan => (
+                <div key={orphan.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {format(new Date(orphan.timestamp), 'PPp')}
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">{formatBytes(orphan.size)}</span>
+                  </span>
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    <Button onClick={() => handleRestore(orphan.id)} variant="secondary" size="sm">
+                      Restore as note
+                    </Button>
+                    <Button onClick={() => deleteOrphan(orphan.id)} variant="ghost" size="icon" title="Delete recording">
+                      <TrashIcon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {integrity.missing.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {integrity.missing.length} note recording{integrity.missing.length === 1 ? ' is' : 's are'} missing from storage
+              </p>
+              {integrity.missing.map(item => (
+                <div key={`${item.noteId}-${item.audioUrl}`} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{noteTitle(item.noteId)}</span>
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    <Button
+                      onClick={() => detachMissingAudio(item.noteId, item.audioUrl)}
+                      variant="secondary"
+                      size="sm"
+                      title="Keep the note and its text, without the missing audio"
+                    >
+                      Remove audio link
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        deleteNote(item.noteId);
+                        refresh();
+                      }}
+                      variant="ghost"
+                      size="icon"
+                      title="Delete note"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageDashboard;
@@ -1,4 +1,6 @@
 export { default as NotesManagement } from './NotesManagement';
 export { default as AudioManagement } from './AudioManagement';
+export { default as AudioCompression } from './AudioCompression';
+export { default as StorageDashboard } from './StorageDashboard';
 export { default as SettingsManagement } from './SettingsManagement';
 export { default as DangerZone } from './DangerZone';
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react'
+
+export interface AudioInputDevice {
+  deviceId: string
+  label: string
+}
+
+// Microphones the browser can record from, kept current as devices are plugged in
+export function useAudioInputDevices() {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices())
+        .filter(device => device.kind === 'audioinput' && device.deviceId && device.deviceId !== 'default')
+      // Labels stay empty until microphone permission has been granted once
+      setDevices(inputs.map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Microphone ${index + 1}`
+      })))
+    } catch (error) {
+      console.error('❌ useAudioInputDevices: Failed to list devices:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh)
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh)
+  }, [refresh])
+
+  return { devices, refresh }
+}
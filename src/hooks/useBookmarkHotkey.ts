@@ -0,0 +1,25 @@
+import { useEffect } from 'react'
+import { useRecordingStore } from '../stores/recordingStore'
+import { isTypingTarget } from '../utils/keyboard'
+
+const BOOKMARK_KEY = 'm'
+
+// Pressing "M" while recording drops a bookmark at the current position
+export function useBookmarkHotkey() {
+  const isRecording = useRecordingStore(state => state.isRecording)
+
+  useEffect(() => {
+    if (!isRecording) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== BOOKMARK_KEY || event.repeat) return
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return
+
+      event.preventDefault()
+      useRecordingStore.getState().addBookmark()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isRecording])
+}
@@ -0,0 +1,138 @@
+import { useEffect } from 'react'
+import { format } from 'date-fns'
+import { useAudioStore } from '../stores/audioStore'
+import { useNotesStore } from '../stores/notesStore'
+import { useRecordingStore } from '../stores/recordingStore'
+import { getNoteAudioUrls } from '../utils/noteClips'
+
+const APP_NAME = 'AI Voice Notes'
+const ARTWORK: MediaImage[] = [
+  { src: '/icon128.png', sizes: '128x128', type: 'image/png' },
+  { src: '/icon.svg', sizes: '512x512', type: 'image/svg+xml' }
+]
+// Used when the system doesn't say how far to skip
+const DEFAULT_SKIP_SECONDS = 15
+
+const ACTIONS: MediaSessionAction[] = ['play', 'pause', 'stop', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack']
+
+type ActionHandlers = Partial<Record<MediaSessionAction, MediaSessionActionHandler>>
+
+// Actions without a handler are cleared, which hides their buttons
+function setActionHandlers(handlers: ActionHandlers) {
+  for (const action of ACTIONS) {
+    try {
+      navigator.mediaSession.setActionHandler(action, handlers[action] ?? null)
+    } catch {
+      // Not every browser supports every action
+    }
+  }
+}
+
+// The same flows as the record screen's buttons, so the recorder itself pauses and stops
+const recordingHandlers: ActionHandlers = {
+  play: () => useRecordingStore.getState().resumeRecordingFlow(),
+  pause: () => useRecordingStore.getState().pauseRecordingFlow(),
+  stop: () => useRecordingStore.getState().stopRecordingFlow()
+}
+
+const playbackHandlers = (hasNext: boolean): ActionHandlers => ({
+  play: () => {
+    if (!useAudioStore.getState().globalIsPlaying) useAudioStore.getState().togglePlayPause()
+  },
+  pause: () => {
+    if (useAudioStore.getState().globalIsPlaying) useAudioStore.getState().togglePlayPause()
+  },
+  stop: () => useAudioStore.getState().closePlayer(),
+  seekbackward: details => useAudioStore.getState().skipBy(-(details.seekOffset ?? DEFAULT_SKIP_SECONDS)),
+  seekforward: details => useAudioStore.getState().skipBy(details.seekOffset ?? DEFAULT_SKIP_SECONDS),
+  seekto: details => {
+    if (details.seekTime !== undefined) useAudioStore.getState().seekAudio(details.seekTime)
+  },
+  previoustrack: () => useAudioStore.getState().playPrevious(),
+  ...(hasNext && { nexttrack: () => useAudioStore.getState().playNext() })
+})
+
+/**
+ * Publishes what's playing, or that a recording is running, to the lock
+ * screen and system media controls, and routes headset buttons back to the
+ * stores.
+ */
+export function useMediaSession() {
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return
+
+    const session = navigator.mediaSession
+    // Metadata and handlers only change with the track; position changes constantly
+    let lastMetadataKey = ''
+    let lastHandlersKey = ''
+
+    const publish = (key: string, metadata: MediaMetadataInit | null, handlersKey: string, handlers: ActionHandlers) => {
+      if (key !== lastMetadataKey) {
+        lastMetadataKey = key
+        session.metadata = metadata && new MediaMetadata({ ...metadata, artwork: ARTWORK })
+      }
+      if (handlersKey !== lastHandlersKey) {
+        lastHandlersKey = handlersKey
+        setActionHandlers(handlers)
+      }
+    }
+
+    const sync = () => {
+      const recording = useRecordingStore.getState()
+      const audio = useAudioStore.getState()
+
+      if (recording.isRecording) {
+        const title = recording.isPaused ? 'Recording paused' : 'Recording'
+        publish(
+          `recording:${title}`,
+          { title, artist: `Started ${format(recording.recordingStartTime, 'p')}`, album: APP_NAME },
+          'recording',
+          recordingHandlers
+        )
+        session.playbackState = recording.isPaused ? 'paused' : 'playing'
+        return
+      }
+
+      if (!audio.currentPlayingAudioUrl) {
+        publish('', null, '', {})
+        session.playbackState = 'none'
+        return
+      }
+
+      const note = useNotesStore.getState().notes.find(n => getNoteAudioUrls(n).includes(audio.currentPlayingAudioUrl!))
+      const title = note?.title || 'Audio'
+      const artist = note?.tags.length ? note.tags.map(tag => `#${tag}`).join(' ') : APP_NAME
+      const hasNext = audio.queueIndex !== -1 && audio.queueIndex < audio.queue.length - 1
+      publish(
+        `playback:${audio.currentPlayingAudioUrl}:${title}:${artist}`,
+        { title, artist, album: APP_NAME },
+        `playback:${hasNext}`,
+        playbackHandlers(hasNext)
+      )
+      session.playbackState = audio.globalIsPlaying ? 'playing' : 'paused'
+
+      const { globalAudioDuration: duration, globalAudioCurrentTime: position, playbackRate } = audio
+      if (session.setPositionState && isFinite(duration) && duration > 0) {
+        try {
+          session.setPositionState({ duration, playbackRate, position: Math.min(position, duration) })
+        } catch (error) {
+          console.warn('⚠️ useMediaSession: Could not update position state:', error)
+        }
+      }
+    }
+
+    sync()
+    const unsubscribers = [
+      useAudioStore.subscribe(sync),
+      useRecordingStore.subscribe(sync),
+      useNotesStore.subscribe(sync)
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      session.metadata = null
+      session.playbackState = 'none'
+      setActionHandlers({})
+    }
+  }, [])
+}
@@ -0,0 +1,73 @@
+import { useEffect } from 'react'
+import { useAudioStore } from '../stores/audioStore'
+import { useSettingsStore } from '../stores/settingsStore'
+import { isTypingTarget } from '../utils/keyboard'
+
+const SHORT_SKIP_SECONDS = 15
+const LONG_SKIP_SECONDS = 30
+
+// Buttons and sliders already react to space and the arrow keys themselves
+const handlesKeysItself = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'BUTTON' || target.getAttribute('role') === 'slider')
+
+/**
+ * Keyboard control of the audio player while something is loaded:
+ * Space/K play or pause, ←/→ skip 15s (30s with Shift), </> change speed,
+ * S toggles skip silence, L sets the A-B loop and Shift+N/P move through
+ * the queue.
+ */
+export function usePlaybackHotkeys() {
+  const currentPlayingAudioUrl = useAudioStore(state => state.currentPlayingAudioUrl)
+
+  useEffect(() => {
+    if (!currentPlayingAudioUrl) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return
+
+      const audio = useAudioStore.getState()
+      const skipSeconds = event.shiftKey ? LONG_SKIP_SECONDS : SHORT_SKIP_SECONDS
+      switch (event.key) {
+        case ' ':
+        case 'k':
+          if (handlesKeysItself(event.target) || event.repeat) return
+          audio.togglePlayPause()
+          break
+        case 'ArrowLeft':
+          if (handlesKeysItself(event.target)) return
+          audio.skipBy(-skipSeconds)
+          break
+        case 'ArrowRight':
+          if (handlesKeysItself(event.target)) return
+          audio.skipBy(skipSeconds)
+          break
+        case '<':
+          audio.stepPlaybackRate(-1)
+          break
+        case '>':
+          audio.stepPlaybackRate(1)
+          break
+        case 's':
+          if (event.repeat) return
+          audio.setSkipSilence(!useSettingsStore.getState().skipSilence)
+          break
+        case 'l':
+          if (event.repeat) return
+          audio.cycleLoop()
+          break
+        case 'N':
+          audio.playNext()
+          break
+        case 'P':
+          audio.playPrevious()
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [currentPlayingAudioUrl])
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { getWaveformPeaks, WaveformPeaks } from '../utils/waveformPeaks'
+
+// Peaks for a recording, loaded from the cache or computed on first use
+export function useWaveformPeaks(audioUrl: string | null | undefined) {
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setPeaks(null)
+    if (!audioUrl) return
+
+    let cancelled = false
+    setIsLoading(true)
+    getWaveformPeaks(audioUrl)
+      .then(result => {
+        if (!cancelled) setPeaks(result)
+      })
+      .catch(error => {
+        console.error('❌ useWaveformPeaks: Failed to load peaks:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [audioUrl])
+
+  return { peaks, isLoading }
+}
@@ -2,25 +2,58 @@ import { useEffect } from 'react'
 import { createRootRoute, Outlet, useNavigate, ScrollRestoration } from '@tanstack/react-router'
 import { useRecordingStore } from '../stores/recordingStore'
 import { useAudioStore } from '../stores/audioStore'
+import { useTranscriptionStore } from '../stores/transcriptionStore'
+import { useStorageStore } from '../stores/storageStore'
 import { useTheme } from '../hooks/useTheme'
+import { useBookmarkHotkey } from '../hooks/useBookmarkHotkey'
+import { usePlaybackHotkeys } from '../hooks/usePlaybackHotkeys'
+import { useMediaSession } from '../hooks/useMediaSession'
 import { BottomNavigation } from '../components/Layout/BottomNavigation'
 import { PersistentRecordingWidget } from '../components/Layout/PersistentRecordingWidget'
 import { PersistentAudioPlayer } from '../components/Layout/PersistentAudioPlayer'
+import { RecoverRecordingDialog } from '../components/RecoverRecordingDialog'
 import { Toaster } from '../components/ui/sonner'
 
 function RootComponent() {
   const navigate = useNavigate()
   const { isRecording } = useRecordingStore()
   const { initializeAudio } = useAudioStore()
+  const loadQueue = useTranscriptionStore(state => state.loadQueue)
+  const checkForUnfinishedRecordings = useRecordingStore(state => state.checkForUnfinishedRecordings)
+  const checkQuota = useStorageStore(state => state.checkQuota)
 
   // Initialize theme
   useTheme()
 
+  // "M" flags a moment while recording, from any screen
+  useBookmarkHotkey()
+
+  // Space, arrows and friends control the audio player while it's open
+  usePlaybackHotkeys()
+
+  // Lock screen and headset controls for playback and recording
+  useMediaSession()
+
   // Initialize audio on app load
   useEffect(() => {
     initializeAudio()
   }, [])
 
+  // Resume transcription jobs left over from a previous session
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  // Offer to recover recordings interrupted by a crash or closed tab
+  useEffect(() => {
+    checkForUnfinishedRecordings()
+  }, [checkForUnfinishedRecordings])
+
+  // Warn before the browser quota runs out rather than when a save fails
+  useEffect(() => {
+    checkQuota()
+  }, [checkQuota])
+
   // Make navigate available globally for the store
   useEffect(() => {
     (window as any).navigate = navigate
@@ -34,6 +67,7 @@ function RootComponent() {
       
       <PersistentRecordingWidget />
       <PersistentAudioPlayer />
+      <RecoverRecordingDialog />
       <BottomNavigation />
       <Toaster />
     </div>
@@ -1,5 +1,6 @@
 import { Note } from '../stores/notesStore';
-import { resolveStorageUrl } from '../utils/audioStorage';
+import { getAudioExtension, resolveStorageUrl } from '../utils/audioStorage';
+import { getNoteClips } from '../utils/noteClips';
 import { toast } from '@/hooks/use-toast';
 
 /**
@@ -15,7 +16,8 @@ export interface ExportStatusCallback {
 
 /**
  * Exports all audio files from notes as a zip file
- * Uses StreamSaver.js and a web worker for memory-efficient streaming
+ * Uses StreamSaver.js and a web worker for memory-efficient streaming.
+ * Every clip of a multi-clip note becomes its own file.
  */
 export async function exportAudioFiles(
   notesWithAudio: Note[],
@@ -63,7 +65,8 @@ export async function exportAudioFiles(
     
     // Process in smaller batches to avoid memory issues on iOS
     const batchSize = 1; // Process one file at a time on iOS to minimize memory usage
-    const totalNotes = notesWithAudio.length;
+    const audioFiles = notesWithAudio.flatMap(note => getNoteClips(note).map(clip => ({ note, clip })));
+    const totalFiles = audioFiles.length;
     let processedCount = 0;
     
     // Create a web worker for zip creation
@@ -112,46 +115,46 @@ export async function exportAudioFiles(
     // Configure the worker
     zipWorker.postMessage({
       type: 'configure',
-      totalFiles: totalNotes,
+      totalFiles,
       batchSize: batchSize
     });
     
     // Process audio files one by one to minimize memory usage
-    for (let i = 0; i < notesWithAudio.length; i++) {
-      const note = notesWithAudio[i];
+    for (let i = 0; i < audioFiles.length; i++) {
+      const { note, clip } = audioFiles[i];
       const currentBatch = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(notesWithAudio.length / batchSize);
+      const totalBatches = Math.ceil(audioFiles.length / batchSize);
       
       // More detailed progress updates
-      onProgress(`Processing file ${i + 1} of ${notesWithAudio.length} (batch ${currentBatch}/${totalBatches})`);
+      onProgress(`Processing file ${i + 1} of ${audioFiles.length} (batch ${currentBatch}/${totalBatches})`);
       
       try {
-        if (!note.audioUrl) continue;
-        
         // Get the audio blob from storage
-        const audioUrl = note.audioUrl;
+        const audioUrl = clip.audioUrl;
         
         // Resolve the storage URL to a blob URL
-        onProgress(`Resolving audio URL for file ${i + 1}/${notesWithAudio.length}...`);
+        onProgress(`Resolving audio URL for file ${i + 1}/${audioFiles.length}...`);
         const resolvedAudio = await resolveStorageUrl(audioUrl);
         if (!resolvedAudio) {
           throw new Error(`Failed to resolve audio URL: ${audioUrl}`);
         }
         
         // Fetch the audio using the resolved URL
-        onProgress(`Fetching audio for file ${i + 1}/${notesWithAudio.length}...`);
+        onProgress(`Fetching audio for file ${i + 1}/${audioFiles.length}...`);
         const response = await fetch(resolvedAudio.url);
         if (!response.ok) throw new Error(`Failed to fetch audio: ${response.statusText}`);
         
         // Use streaming approach for blob creation if possible
-        onProgress(`Processing audio data for file ${i + 1}/${notesWithAudio.length}...`);
+        onProgress(`Processing audio data for file ${i + 1}/${audioFiles.length}...`);
         let audioBlob;
         
         // Create a filename that includes note title and ID for reimporting
         const titleSnippet = note.title ? note.title.slice(0, 20).replace(/[^a-z0-9]/gi, '_') : 'untitled';
         // Use the correct extension based on the MIME type
-        const extension = resolvedAudio.mimeType.includes('wav') ? 'wav' : 'webm';
-        const filename = `${titleSnippet}_${note.id}.${extension}`;
+        const extension = getAudioExtension(resolvedAudio.mimeType);
+        // Later clips carry their clip id after the note id
+        const fileId = clip.id === note.id ? note.id : `${note.id}-${clip.id}`;
+        const filename = `${titleSnippet}_${fileId}.${extension}`;
         
         if (isIOS) {
           // On iOS, we need to be extra careful with memory
@@ -168,12 +171,12 @@ export async function exportAudioFiles(
           let chunkCount = 0;
           
           // Create a unique ID for this file to track chunks in the worker
-          const fileId = `${note.id}-${Date.now()}`;
+          const workerFileId = `${fileId}-${Date.now()}`;
           
           // Tell the worker we're starting a new file
           zipWorker.postMessage({
             type: 'startFile',
-            fileId,
+            fileId: workerFileId,
             filename,
             mimeType: resolvedAudio.mimeType
           });
@@ -185,7 +188,7 @@ export async function exportAudioFiles(
               // Tell the worker we're done with this file
               zipWorker.postMessage({
                 type: 'endFile',
-                fileId
+                fileId: workerFileId
               });
               break;
             }
@@ -193,7 +196,7 @@ export async function exportAudioFiles(
             // Send this chunk directly to the worker
             zipWorker.postMessage({
               type: 'addChunk',
-              fileId,
+              fileId: workerFileId,
               chunk: value
             }, [value.buffer]); // Transfer ownership of the buffer to avoid copying
             
@@ -215,7 +218,7 @@ export async function exportAudioFiles(
           audioBlob = await response.blob();
           
           // Send the file to the worker
-          onProgress(`Adding file ${i + 1}/${notesWithAudio.length} to zip...`);
+          onProgress(`Adding file ${i + 1}/${audioFiles.length} to zip...`);
           zipWorker.postMessage({
             type: 'addFile',
             filename,
@@ -227,7 +230,7 @@ export async function exportAudioFiles(
         }
         
         processedCount++;
-        onProgress(`Added ${processedCount}/${totalNotes} audio files to zip`);
+        onProgress(`Added ${processedCount}/${totalFiles} audio files to zip`);
         
         // Clear references to large objects to help garbage collection
         audioBlob = null;
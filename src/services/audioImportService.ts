@@ -15,7 +15,8 @@ export interface ImportStatusCallback {
 }
 
 export interface NoteUpdateCallback {
-  (noteId: string, audioUrl: string): void;
+  // clipId is set when the file belongs to a clip recorded into the note later
+  (noteId: string, audioUrl: string, clipId?: string): void;
 }
 
 /**
@@ -93,9 +94,9 @@ export async function importAudioFiles(
           processedCount++;
           onProgress(`Processing audio files (${successCount}/${totalFiles})... (${processedCount} processed)`);
           
-          // Extract note ID from filename
-          // Expected format: title_noteId.extension
-          const noteIdMatch = filename.match(/_([0-9]+)\.[a-z0-9]+$/i);
+          // Extract note ID (and clip ID for later clips) from filename
+          // Expected format: title_noteId.extension or title_noteId-clipId.extension
+          const noteIdMatch = filename.match(/_([0-9]+)(?:-([0-9]+))?\.[a-z0-9]+$/i);
           
           if (!noteIdMatch) {
             console.warn(`Skipping file ${filename} - cannot parse note ID`);
@@ -103,6 +104,7 @@ export async function importAudioFiles(
           }
           
           const noteId = noteIdMatch[1];
+          const clipId = noteIdMatch[2];
           
           // Find the note with this ID
           const note = notes.find(n => n.id === noteId);
@@ -112,6 +114,11 @@ export async function importAudioFiles(
             continue;
           }
           
+          if (clipId && !note.clips?.some(clip => clip.id === clipId)) {
+            console.warn(`Clip ${clipId} not found on note ${noteId}, skipping audio import`);
+            continue;
+          }
+          
           try {
             // Get the blob from the zip file
             const blob = await zipEntry.async('blob');
@@ -129,13 +136,13 @@ export async function importAudioFiles(
             if (extension === 'm4a') mimeType = 'audio/mp4';
             
             // Store the audio
-            const storageId = `recording_${note.id}_${Date.now()}`;
+            const storageId = `recording_${note.id}${clipId ? `_${clipId}` : ''}_${Date.now()}`;
             const audioUrl = await audioStorage.saveAudio(blob, storageId, mimeType);
             
             // The saveAudio method already returns the storage URL in the format 'audio-storage://filename'
             
             // Call the update callback
-            onNoteUpdate(noteId, audioUrl);
+            onNoteUpdate(noteId, audioUrl, clipId);
             
             successCount++;
           } catch (blobError) {
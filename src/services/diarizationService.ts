@@ -0,0 +1,66 @@
+import { useSettingsStore } from '../stores/settingsStore';
+import type { TranscriptSegment } from '../stores/notesStore';
+import { audioStorage } from '../utils/audioStorage';
+import { applySpeakerRanges, detectSpeakerTurns } from '../utils/speakerTurns';
+
+export type DiarizationMode = 'off' | 'heuristic' | 'remote';
+
+interface SpeakerRange {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+/**
+ * Sends audio to a diarization server (e.g. a pyannote wrapper). The server
+ * receives the WAV as multipart `file` and answers with speaker ranges, either
+ * as a bare array or as `{ segments: [...] }`.
+ */
+async function fetchRemoteSpeakerRanges(audio: AudioBuffer, signal?: AbortSignal): Promise<SpeakerRange[]> {
+  const { diarization } = useSettingsStore.getState();
+  const wavBlob = await audioStorage.audioBufferToWAV(audio);
+
+  const formData = new FormData();
+  formData.append('file', wavBlob, 'audio.wav');
+
+  const response = await fetch(diarization.url.trim(), {
+    method: 'POST',
+    headers: diarization.apiKey ? { 'Authorization': `Bearer ${diarization.apiKey}` } : undefined,
+    body: formData,
+    signal
+  });
+  if (!response.ok) throw new Error(`Diarization request failed (${response.status})`);
+
+  const result = await response.json();
+  const ranges: Partial<SpeakerRange>[] = Array.isArray(result) ? result : result.segments || [];
+  return ranges
+    .filter((range): range is SpeakerRange =>
+      typeof range?.start === 'number' && typeof range?.end === 'number' && range?.speaker !== undefined)
+    .map(range => ({ start: range.start, end: range.end, speaker: String(range.speaker) }));
+}
+
+/**
+ * Labels transcript segments with speaker ids according to the configured
+ * diarization mode. Remote failures fall back to the local heuristic so a
+ * flaky server never blocks a transcript.
+ */
+export async function assignSpeakers(
+  audio: AudioBuffer,
+  segments: TranscriptSegment[],
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> {
+  const { diarization } = useSettingsStore.getState();
+  if (diarization.mode === 'off' || segments.length === 0) return segments;
+
+  if (diarization.mode === 'remote' && diarization.url.trim()) {
+    try {
+      const ranges = await fetchRemoteSpeakerRanges(audio, signal);
+      if (ranges.length > 0) return applySpeakerRanges(segments, ranges);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('⚠️ Diarization: Remote backend failed, using local heuristic:', error);
+    }
+  }
+
+  return detectSpeakerTurns(audio, segments);
+}
@@ -0,0 +1,34 @@
+import { useSettingsStore } from '../../stores/settingsStore';
+import { localWhisperProvider } from './localWhisperProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { mockProvider } from './mockProvider';
+import { SttProvider, SttProviderId } from './types';
+
+export * from './types';
+export { shutdownLocalWhisper } from './localWhisperProvider';
+export { OPENAI_BASE_URL } from './openAICompatibleProvider';
+
+export const sttProviders: Record<SttProviderId, SttProvider> = {
+  'local-whisper': localWhisperProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider
+};
+
+export const getSttProvider = (id: string): SttProvider | undefined =>
+  sttProviders[id as SttProviderId];
+
+/**
+ * Enabled providers in the user's fallback order, skipping any that are not
+ * configured. Falls back to local Whisper when nothing else is usable.
+ */
+export function getSttProviderChain(): SttProvider[] {
+  const { sttProviderOrder } = useSettingsStore.getState();
+  const chain = sttProviderOrder
+    .map(id => sttProviders[id])
+    .filter((provider): provider is SttProvider => !!provider && provider.isAvailable());
+
+  if (chain.length === 0 && localWhisperProvider.isAvailable()) {
+    chain.push(localWhisperProvider);
+  }
+  return chain;
+}
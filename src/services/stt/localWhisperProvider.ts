@@ -0,0 +1,197 @@
+import { useSettingsStore } from '../../stores/settingsStore';
+import { segmentsFromWhisperChunks } from '../../utils/transcriptSegments';
+import { toLanguageCode } from '../../utils/languages';
+import { useModelCacheStore } from '../../stores/modelCacheStore';
+import { SttProvider, SttResult, SttTranscribeContext, TranscriptionCancelledError } from './types';
+
+interface PendingRequest {
+  context: SttTranscribeContext;
+  // Called without a result when a model preload finishes
+  resolve: (result?: SttResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+
+// Pending worker requests, keyed by job id. The worker echoes the job id on
+// every message so results can never be attributed to the wrong note.
+const pendingRequests = new Map<string, PendingRequest>();
+
+// The local model runs one job at a time; later jobs wait their turn
+let workerChain: Promise<unknown> = Promise.resolve();
+
+function handleWorkerMessage(event: MessageEvent) {
+  const message = event.data;
+  const request = message.jobId ? pendingRequests.get(message.jobId) : undefined;
+  if (!request) return;
+
+  switch (message.status) {
+    case 'initiate':
+    case 'download':
+    case 'progress':
+    case 'done':
+    case 'ready':
+      request.context.onModelProgress({
+        status: message.status,
+        file: message.file,
+        progress: message.progress
+      });
+      break;
+
+    case 'update':
+      if (message.data && message.data[0]) {
+        request.context.onPartialText(message.data[0]);
+      }
+      break;
+
+    case 'complete':
+      // Silence transcribes to nothing; the store decides what that means
+      if (message.data?.text?.trim()) {
+        request.resolve({
+          text: message.data.text,
+          segments: segmentsFromWhisperChunks(message.data.chunks),
+          model: useSettingsStore.getState().model,
+          // English-only models never emit a language token
+          language: useSettingsStore.getState().multilingual ? toLanguageCode(message.data.language) : 'en'
+        });
+      } else {
+        request.resolve({ text: '', segments: [], model: useSettingsStore.getState().model });
+      }
+      break;
+
+    case 'loaded':
+      request.resolve();
+      break;
+
+    case 'error':
+      console.error('❌ LocalWhisper: Worker error:', message.data);
+      request.reject(new Error(message.data?.message || 'Transcription failed'));
+      break;
+  }
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  console.log('🎯 LocalWhisper: Initializing worker');
+  worker = new Worker(new URL('../../worker.js', import.meta.url), {
+    type: 'module',
+  });
+  worker.addEventListener('message', handleWorkerMessage);
+  worker.addEventListener('error', (event) => {
+    console.error('❌ LocalWhisper: Worker error:', event);
+  });
+  return worker;
+}
+
+// The pipeline cannot be interrupted mid-run, so cancelling tears the worker down
+function terminateWorker() {
+  worker?.terminate();
+  worker = null;
+  pendingRequests.forEach(request => request.reject(new TranscriptionCancelledError()));
+  pendingRequests.clear();
+}
+
+function mixToMono(audioData: AudioBuffer): Float32Array {
+  if (audioData.numberOfChannels === 2) {
+    const SCALING_FACTOR = Math.sqrt(2);
+    const left = audioData.getChannelData(0);
+    const right = audioData.getChannelData(1);
+
+    const audio = new Float32Array(left.length);
+    for (let i = 0; i < audioData.length; ++i) {
+      audio[i] = SCALING_FACTOR * (left[i] + right[i]) / 2;
+    }
+    return audio;
+  }
+  return audioData.getChannelData(0);
+}
+
+/**
+ * Queues a request on the worker. The message is built when the request's
+ * turn comes, so it sees the settings at that moment.
+ */
+function runOnWorker(
+  context: SttTranscribeContext,
+  buildMessage: () => Record<string, unknown>
+): Promise<SttResult | undefined> {
+  const run = workerChain.then(() => {
+    if (context.signal.aborted) throw new TranscriptionCancelledError();
+
+    const message = buildMessage();
+    const activeWorker = getWorker();
+
+    return new Promise<SttResult | undefined>((resolve, reject) => {
+      const onAbort = () => terminateWorker();
+      context.signal.addEventListener('abort', onAbort, { once: true });
+
+      pendingRequests.set(context.jobId, {
+        context,
+        resolve: (result) => {
+          context.signal.removeEventListener('abort', onAbort);
+          pendingRequests.delete(context.jobId);
+          resolve(result);
+        },
+        reject: (error) => {
+          context.signal.removeEventListener('abort', onAbort);
+          pendingRequests.delete(context.jobId);
+          reject(error);
+        }
+      });
+
+      activeWorker.postMessage({ jobId: context.jobId, ...message });
+    });
+  });
+
+  workerChain = run.catch(() => {});
+  return run;
+}
+
+export const localWhisperProvider: SttProvider = {
+  id: 'local-whisper',
+  name: 'Local Whisper',
+  description: 'Runs Whisper in your browser with transformers.js. Private and offline, slower on long audio.',
+  // transformers.js v2 has no prompt_ids support for Whisper
+  supportsPrompt: false,
+
+  isAvailable: () => typeof Worker !== 'undefined',
+
+  transcribe: async (audioData, context) => {
+    const audio = mixToMono(audioData);
+    context.onStatus('Waiting for transcription worker...');
+
+    const result = await runOnWorker(context, () => {
+      const settings = useSettingsStore.getState();
+      context.onStatus('Preparing transcription...');
+      useModelCacheStore.getState().markUsed(settings.model);
+
+      return {
+        audio,
+        model: settings.model,
+        multilingual: settings.multilingual,
+        quantized: settings.quantized,
+        subtask: settings.multilingual ? context.task || 'transcribe' : null,
+        language: settings.multilingual ? context.language || null : null,
+      };
+    });
+    if (!result) throw new Error('Transcription worker finished without a result');
+    return result;
+  }
+};
+
+/**
+ * Downloads a model into the transformers.js cache by loading it in the
+ * worker. Queued behind any running transcription like a normal job.
+ */
+export async function preloadLocalWhisperModel(
+  model: string,
+  quantized: boolean,
+  context: Pick<SttTranscribeContext, 'jobId' | 'signal' | 'onModelProgress'>
+): Promise<void> {
+  await runOnWorker(
+    { ...context, onStatus: () => {}, onPartialText: () => {} },
+    () => ({ type: 'preload', model, quantized })
+  );
+}
+
+export const shutdownLocalWhisper = terminateWorker;
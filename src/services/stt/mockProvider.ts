@@ -0,0 +1,39 @@
+import type { TranscriptSegment } from '../../stores/notesStore';
+import { SttProvider, TranscriptionCancelledError } from './types';
+
+const SEGMENT_LENGTH = 5;
+
+/**
+ * Deterministic provider for tests and UI work. The output depends only on the
+ * audio duration, so the same input always produces the same transcript.
+ */
+export const mockProvider: SttProvider = {
+  id: 'mock',
+  name: 'Mock (testing)',
+  description: 'Returns a predictable transcript without running any model.',
+  supportsPrompt: false,
+
+  isAvailable: () => true,
+
+  transcribe: async (audioData, context) => {
+    if (context.signal.aborted) throw new TranscriptionCancelledError();
+    context.onStatus('Generating mock transcript...');
+
+    const duration = Math.round(audioData.duration * 10) / 10;
+    const segments: TranscriptSegment[] = [];
+    for (let start = 0; start < duration; start += SEGMENT_LENGTH) {
+      const end = Math.min(start + SEGMENT_LENGTH, duration);
+      const label = context.task === 'translate' ? 'Translated segment' : 'Mock segment';
+      segments.push({ start, end, text: `${label} ${segments.length + 1}.` });
+    }
+
+    return {
+      text: segments.length > 0
+        ? segments.map(segment => segment.text).join(' ')
+        : 'Mock transcript.',
+      segments,
+      model: 'mock',
+      language: context.language || 'en'
+    };
+  }
+};
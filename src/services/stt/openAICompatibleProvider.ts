@@ -0,0 +1,85 @@
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useLLMProvidersStore } from '../../stores/llmProvidersStore';
+import { audioStorage } from '../../utils/audioStorage';
+import { segmentsFromVerboseJson } from '../../utils/transcriptSegments';
+import { toLanguageCode } from '../../utils/languages';
+import { SttProvider } from './types';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+const isOpenAIHost = (baseUrl: string) => {
+  try {
+    return new URL(normalizeBaseUrl(baseUrl)).hostname === 'api.openai.com';
+  } catch {
+    return false;
+  }
+};
+
+// An explicit key wins; against api.openai.com we can reuse the LLM provider key
+function resolveApiKey(): string {
+  const { sttOpenAICompatible } = useSettingsStore.getState();
+  if (sttOpenAICompatible.apiKey.trim()) return sttOpenAICompatible.apiKey.trim();
+  if (!isOpenAIHost(sttOpenAICompatible.baseUrl)) return '';
+
+  const providers = useLLMProvidersStore.getState().getValidProviders();
+  return providers.find(p => p.name.toLowerCase() === 'openai')?.apiKey || '';
+}
+
+export const openAICompatibleProvider: SttProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible API',
+  description: 'OpenAI Whisper or any server exposing /audio/transcriptions, such as whisper.cpp or faster-whisper.',
+  supportsPrompt: true,
+
+  isAvailable: () => {
+    const { sttOpenAICompatible } = useSettingsStore.getState();
+    if (!normalizeBaseUrl(sttOpenAICompatible.baseUrl)) return false;
+    // Self-hosted servers commonly run without authentication
+    return !isOpenAIHost(sttOpenAICompatible.baseUrl) || !!resolveApiKey();
+  },
+
+  transcribe: async (audioData, context) => {
+    const { sttOpenAICompatible, openAIModel } = useSettingsStore.getState();
+    const baseUrl = normalizeBaseUrl(sttOpenAICompatible.baseUrl);
+    const apiKey = resolveApiKey();
+    const model = openAIModel || 'whisper-1';
+
+    context.onStatus(`Uploading audio to ${isOpenAIHost(baseUrl) ? 'OpenAI' : new URL(baseUrl).host}...`);
+
+    // Convert AudioBuffer to WAV Blob using robust utility
+    const wavBlob = await audioStorage.audioBufferToWAV(audioData);
+
+    const formData = new FormData();
+    formData.append('file', wavBlob, 'audio.wav');
+    formData.append('model', model);
+    // verbose_json includes per-segment timestamps alongside the text
+    formData.append('response_format', 'verbose_json');
+    if (context.prompt) formData.append('prompt', context.prompt);
+
+    // Translations always produce English and take no language hint
+    const endpoint = context.task === 'translate' ? 'translations' : 'transcriptions';
+    if (endpoint === 'transcriptions' && context.language) formData.append('language', context.language);
+
+    const response = await fetch(`${baseUrl}/audio/${endpoint}`, {
+      method: 'POST',
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : undefined,
+      body: formData,
+      signal: context.signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Transcription request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const result = await response.json();
+    return {
+      text: result.text || '',
+      segments: segmentsFromVerboseJson(result.segments),
+      model,
+      // verbose_json reports the language by name, e.g. "spanish"
+      language: toLanguageCode(result.language) || context.language
+    };
+  }
+};
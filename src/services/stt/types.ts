@@ -0,0 +1,52 @@
+import type { TranscriptSegment } from '../../stores/notesStore';
+
+export type SttProviderId = 'local-whisper' | 'openai-compatible' | 'mock';
+
+export type SttTask = 'transcribe' | 'translate';
+
+export interface SttResult {
+  text: string;
+  segments: TranscriptSegment[];
+  model?: string;
+  // Language code of the spoken audio, when the provider reports it
+  language?: string;
+}
+
+// Model download progress reported by providers that fetch weights locally
+export interface SttModelProgress {
+  status: 'initiate' | 'download' | 'progress' | 'done' | 'ready';
+  file?: string;
+  progress?: number;
+}
+
+export interface SttTranscribeContext {
+  jobId: string;
+  signal: AbortSignal;
+  // Vocabulary hint for providers that accept an initial prompt
+  prompt?: string;
+  // Spoken language code; omitted to let the provider auto-detect
+  language?: string;
+  // 'translate' produces English text regardless of the spoken language
+  task?: SttTask;
+  onStatus: (status: string) => void;
+  onModelProgress: (progress: SttModelProgress) => void;
+  onPartialText: (text: string) => void;
+}
+
+export interface SttProvider {
+  id: SttProviderId;
+  name: string;
+  description: string;
+  // Whether the provider has everything it needs (keys, URLs) to run
+  isAvailable: () => boolean;
+  // Whether the custom vocabulary can be passed as a prompt
+  supportsPrompt: boolean;
+  transcribe: (audio: AudioBuffer, context: SttTranscribeContext) => Promise<SttResult>;
+}
+
+export class TranscriptionCancelledError extends Error {
+  constructor() {
+    super('Transcription cancelled');
+    this.name = 'TranscriptionCancelledError';
+  }
+}
@@ -1,8 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useLLMProvidersStore } from './llmProvidersStore';
-import { useNotesStore } from './notesStore';
+import { Note, useNotesStore } from './notesStore';
 import { generateSmartTitle } from '../utils/titleGenerator';
+import { formatSpeakerTranscript, getSpeakerIds, getSpeakerName } from '../utils/speakerTurns';
+import { findActiveSegmentIndex } from '../utils/transcriptSegments';
+import { formatTime } from '../utils/formatTime';
+import { getNoteClips, isBookmarkInClip } from '../utils/noteClips';
 
 interface Agent {
   id: string;
@@ -62,7 +66,7 @@ const BUILT_IN_AGENTS: Omit<Agent, 'id' | 'createdAt' | 'updatedAt'>[] = [
 
 - **Main Topics Discussed**: Key subjects covered
 - **Key Decisions Made**: Important decisions and outcomes
-- **Action Items**: Tasks assigned with owners (if mentioned)
+- **Action Items**: Tasks assigned with owners (use speaker names when the transcript is speaker-attributed)
 - **Next Steps**: Follow-up actions identified
 
 Format as clear markdown with sections. Be concise but comprehensive.`,
@@ -181,6 +185,48 @@ function extractTitleFromAgentResponse(agentName: string, content: string): stri
   // Fallback to agent name
   return agentName;
 }
+/**
+ * Bookmarks flagged while recording, each with the words spoken just before
+ * it since people tend to mark a moment right after it happens.
+ */
+function formatBookmarks(note: Note): string {
+  if (!note.bookmarks || note.bookmarks.length === 0) return '';
+
+  const clips = getNoteClips(note);
+  const lines = [...note.bookmarks].sort((a, b) => a.time - b.time).map(bookmark => {
+    const clipIndex = clips.findIndex(clip => isBookmarkInClip(note, bookmark, clip.id));
+    const clipLabel = clips.length > 1 && clipIndex !== -1 ? `clip ${clipIndex + 1}, ` : '';
+    let line = `- [${clipLabel}${formatTime(bookmark.time)}]${bookmark.label ? ` ${bookmark.label}` : ''}`;
+    const segments = clips[clipIndex]?.segments;
+    if (segments && segments.length > 0) {
+      const index = findActiveSegmentIndex(segments, bookmark.time);
+      const nearby = segments.slice(Math.max(0, index - 1), index + 1).map(s => s.text.trim()).join(' ');
+      if (nearby) line += ` (around: "${nearby}")`;
+    }
+    return line;
+  });
+
+  return `\n\nMoments the user flagged as important:\n${lines.join('\n')}`;
+}
+
+/**
+ * Note text sent to agents. Multi-speaker transcripts are speaker-attributed
+ * so agents can tell who said what (e.g. owners of action items).
+ */
+function buildAgentInput(note: Note): string {
+  const text = note.content.replace(/<[^>]*>/g, ''); // Strip HTML
+  const bookmarks = formatBookmarks(note);
+  const speakerIds = getSpeakerIds(note.segments);
+  if (speakerIds.length < 2 || !note.segments) return text + bookmarks;
+
+  const names = speakerIds.map(id => getSpeakerName(id, note.speakers));
+  // Fall back to the segments if edits removed the speaker labels
+  const hasLabels = names.some(name => text.includes(`**${name}:**`));
+  const transcript = hasLabels ? text : formatSpeakerTranscript(note.segments, note.speakers);
+
+  return `Participants: ${names.join(', ')}\n\n${transcript}${bookmarks}`;
+}
+
 export const useAgentsStore = create<AgentsState>()(
   persist(
     (set, get) => ({
@@ -381,7 +427,7 @@ export const useAgentsStore = create<AgentsState>()(
           }
           
           // Prepare content for processing
-          const contentToProcess = note.content.replace(/<[^>]*>/g, ''); // Strip HTML
+          const contentToProcess = buildAgentInput(note);
           if (!contentToProcess.trim()) {
             throw new Error('Note has no content to process');
           }
@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { audioStorage, StoredAudioInfo } from '../utils/audioStorage';
+import { isUncompressedAudio, MP3_MIME_TYPE, verifyTranscode } from '../utils/audioTranscoder';
+
+// Smaller files aren't worth a decode and re-encode
+const MIN_COMPACT_BYTES = 512 * 1024;
+
+interface AudioCompactionState {
+  // Uncompressed recordings found by the last scan
+  candidates: StoredAudioInfo[];
+  isScanning: boolean;
+  isRunning: boolean;
+  total: number;
+  processed: number;
+  // Progress of the file being encoded, 0-1
+  currentProgress: number;
+  savedBytes: number;
+  failed: number;
+
+  // Actions
+  scan: () => Promise<void>;
+  compactAll: () => Promise<void>;
+  cancel: () => void;
+}
+
+let cancelRequested = false;
+
+export const useAudioCompactionStore = create<AudioCompactionState>((set, get) => ({
+  candidates: [],
+  isScanning: false,
+  isRunning: false,
+  total: 0,
+  processed: 0,
+  currentProgress: 0,
+  savedBytes: 0,
+  failed: 0,
+
+  scan: async () => {
+    set({ isScanning: true });
+    try {
+      const stored = await audioStorage.listAudio();
+      set({
+        candidates: stored.filter(item => isUncompressedAudio(item.mimeType) && item.size >= MIN_COMPACT_BYTES)
+      });
+    } catch (error) {
+      console.error('❌ AudioCompaction: Failed to scan stored audio:', error);
+    } finally {
+      set({ isScanning: false });
+    }
+  },
+
+  /**
+   * Re-encodes every candidate to MP3, one at a time. The original stays
+   * stored until its replacement has decoded to the same length.
+   */
+  compactAll: async () => {
+    if (get().isRunning) return;
+    cancelRequested = false;
+    const { candidates } = get();
+    set({ isRunning: true, total: candidates.length, processed: 0, currentProgress: 0, savedBytes: 0, failed: 0 });
+
+    for (const item of candidates) {
+      if (cancelRequested) break;
+
+      try {
+        const original = await audioStorage.getAudioBlob(item.id);
+        if (!original) continue;
+
+        const compact = await audioStorage.transcodeForStorage(original, progress => set({ currentProgress: progress }));
+        if (compact.size >= original.size || !(await verifyTranscode(original, compact))) {
+          console.warn(`⚠️ AudioCompaction: Keeping original for ${item.id}`);
+          set(state => ({ failed: state.failed + 1 }));
+          continue;
+        }
+
+        await audioStorage.replaceAudio(item.id, compact, MP3_MIME_TYPE);
+        console.log(`💾 AudioCompaction: ${item.id} ${original.size} → ${compact.size} bytes`);
+        set(state => ({
+          savedBytes: state.savedBytes + original.size - compact.size,
+          candidates: state.candidates.filter(candidate => candidate.id !== item.id)
+        }));
+      } catch (error) {
+        console.error(`❌ AudioCompaction: Failed to compact ${item.id}:`, error);
+        set(state => ({ failed: state.failed + 1 }));
+      } finally {
+        set(state => ({ processed: state.processed + 1, currentProgress: 0 }));
+      }
+    }
+
+    set({ isRunning: false });
+  },
+
+  cancel: () => {
+    // Takes effect between files; the one being encoded finishes first
+    cancelRequested = true;
+  }
+}));
@@ -0,0 +1,343 @@
+import { create } from 'zustand';
+import { toast } from '@/hooks/use-toast';
+import { audioStorage, getStorageId, isStorageUrl } from '../utils/audioStorage';
+import {
+  cutRanges,
+  decodeAudioUrl,
+  KeptRange,
+  mapBookmarksThroughEdit,
+  mapSegmentsThroughEdit,
+  renderAudio,
+  trimRanges
+} from '../utils/audioEditing';
+import { isBookmarkInClip } from '../utils/noteClips';
+import { useAudioStore } from './audioStore';
+import { Note, NoteBookmark, NoteTranslation, OriginalAudio, TranscriptSegment, useNotesStore } from './notesStore';
+import { layoutTranscript } from './transcriptionStore';
+
+interface AudioEditState {
+  // Note whose audio is being rendered
+  processingNoteId: string | null;
+
+  // Actions
+  trimAudio: (noteId: string, start: number, end: number) => Promise<boolean>;
+  cutAudio: (noteId: string, from: number, to: number) => Promise<boolean>;
+  splitAudio: (noteId: string, time: number) => Promise<string | null>;
+  mergeAudio: (noteId: string, otherNoteIds: string[]) => Promise<boolean>;
+  confirmEdit: (noteId: string) => Promise<void>;
+  revertEdit: (noteId: string) => Promise<void>;
+}
+
+async function saveEditedAudio(noteId: string, buffer: AudioBuffer): Promise<string> {
+  const wavBlob = await audioStorage.audioBufferToWAV(buffer);
+  return audioStorage.saveAudio(wavBlob, `${noteId}-edited-${Date.now()}.wav`, 'audio/wav');
+}
+
+async function deleteStoredAudio(audioUrl: string | undefined) {
+  if (!audioUrl || !isStorageUrl(audioUrl)) return;
+  const audio = useAudioStore.getState();
+  if (audio.currentPlayingAudioUrl === audioUrl) audio.closePlayer();
+  await audioStorage.deleteAudio(getStorageId(audioUrl));
+}
+
+function snapshot(note: Note, edit: string): OriginalAudio {
+  return {
+    edit,
+    audioUrl: note.audioUrl!,
+    duration: note.duration,
+    segments: note.segments,
+    bookmarks: note.bookmarks,
+    trimmedAudio: note.trimmedAudio,
+    recordingSeries: note.recordingSeries,
+    content: note.content,
+    translation: note.translation
+  };
+}
+
+const layoutSegments = (segments: TranscriptSegment[], speakers?: Record<string, string>, language?: string) =>
+  layoutTranscript(segments.map(segment => segment.text).join(' '), segments, speakers, language);
+
+// The transcript laid out again from the edited first recording's segments,
+// followed by those of later clips. Notes without segments keep their text
+function editContent(note: Note, segments: TranscriptSegment[] | undefined): string {
+  if (!segments) return note.content;
+  return [segments, ...(note.clips ?? []).map(clip => clip.segments ?? [])]
+    .filter(clipSegments => clipSegments.length > 0)
+    .map(clipSegments => layoutSegments(clipSegments, note.speakers, note.language))
+    .join('\n\n');
+}
+
+// Rebuilding the text drops any hand edits, so the text as it was goes into
+// the note's history first, where it survives keeping the edit
+function saveTextVersion(note: Note, content: string, edit: string): Note {
+  if (content === note.content || !note.content.trim()) return note;
+  const notesStore = useNotesStore.getState();
+  notesStore.saveVersion(note.id, `Before the recording was ${edit.toLowerCase()}`);
+  return notesStore.getNoteById(note.id) ?? note;
+}
+
+function editTranslation(translation: NoteTranslation | undefined, ranges: KeptRange[]): NoteTranslation | undefined {
+  if (!translation) return undefined;
+  const segments = mapSegmentsThroughEdit(translation.segments, ranges);
+  return { ...translation, segments, text: layoutSegments(segments, undefined, translation.language) };
+}
+
+// Bookmarks of the first recording follow the edit; those of later clips stay put
+function editBookmarks(note: Note, edit: (bookmarks: NoteBookmark[]) => NoteBookmark[]): NoteBookmark[] | undefined {
+  if (!note.bookmarks) return undefined;
+  const primary = note.bookmarks.filter(bookmark => isBookmarkInClip(note, bookmark, note.id));
+  const others = note.bookmarks.filter(bookmark => !isBookmarkInClip(note, bookmark, note.id));
+  const result = [...edit(primary), ...others];
+  return result.length > 0 ? result : undefined;
+}
+
+// Bookmarks of the first recording, for the note splitting creates
+function splitOffBookmarks(note: Note, ranges: KeptRange[]): NoteBookmark[] | undefined {
+  const primary = (note.bookmarks ?? []).filter(bookmark => isBookmarkInClip(note, bookmark, note.id));
+  const result = mapBookmarksThroughEdit(primary, ranges).map(bookmark => ({ ...bookmark, clipId: undefined }));
+  return result.length > 0 ? result : undefined;
+}
+
+const offsetSegments = (segments: TranscriptSegment[], offset: number) =>
+  segments.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
+
+// Moves later parts of a split recording along by `delta`
+function renumberSeriesAfter(series: Note['recordingSeries'], delta: number) {
+  if (!series) return;
+  const notesStore = useNotesStore.getState();
+  notesStore.notes
+    .filter(note => note.recordingSeries?.id === series.id && note.recordingSeries.part > series.part)
+    .forEach(note => notesStore.updateNote({
+      ...note,
+      recordingSeries: { id: series.id, part: note.recordingSeries!.part + delta }
+    }));
+}
+
+function getEditableNote(noteId: string): Note {
+  const note = useNotesStore.getState().getNoteById(noteId);
+  if (!note?.audioUrl) throw new Error('This note has no recording to edit');
+  if (note.originalAudio) throw new Error('Keep or revert the previous edit first');
+  return note;
+}
+
+export const useAudioEditStore = create<AudioEditState>((set, get) => {
+  // One edit at a time; failures are reported here rather than thrown
+  const runEdit = async <T>(noteId: string, failureTitle: string, work: () => Promise<T>): Promise<T | null> => {
+    if (get().processingNoteId) return null;
+    set({ processingNoteId: noteId });
+    try {
+      return await work();
+    } catch (error) {
+      console.error(`❌ AudioEditStore: ${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+      return null;
+    } finally {
+      set({ processingNoteId: null });
+    }
+  };
+
+  // Renders the kept ranges of the note's first recording into a new file
+  // and points the note at it, keeping the original for revert
+  const applyRanges = async (noteId: string, getRanges: (duration: number) => KeptRange[], edit: string) =>
+    !!await runEdit(noteId, 'Audio Edit Failed', async () => {
+      const note = getEditableNote(noteId);
+      const source = await decodeAudioUrl(note.audioUrl!);
+      const ranges = getRanges(source.duration);
+      const rendered = await renderAudio(ranges.map(range => ({ buffer: source, ...range })));
+      const audioUrl = await saveEditedAudio(noteId, rendered);
+
+      const current = useNotesStore.getState().getNoteById(noteId) ?? note;
+      const segments = current.segments && mapSegmentsThroughEdit(current.segments, ranges);
+      const content = editContent(current, segments);
+      const latest = saveTextVersion(current, content, edit);
+      useNotesStore.getState().updateNote({
+        ...latest,
+        audioUrl,
+        duration: Math.round(rendered.duration),
+        segments,
+        content,
+        translation: editTranslation(latest.translation, ranges),
+        bookmarks: editBookmarks(latest, bookmarks => mapBookmarksThroughEdit(bookmarks, ranges)),
+        // The silence-trimmed copy no longer matches
+        trimmedAudio: undefined,
+        originalAudio: snapshot(latest, edit)
+      });
+      console.log(`✂️ AudioEditStore: ${edit} note ${noteId} to ${rendered.duration.toFixed(1)}s`);
+      return true;
+    });
+
+  return {
+    processingNoteId: null,
+
+    trimAudio: (noteId, start, end) =>
+      applyRanges(noteId, duration => trimRanges(duration, start, end), 'Trimmed'),
+
+    cutAudio: (noteId, from, to) =>
+      applyRanges(noteId, duration => cutRanges(duration, from, to), 'Cut'),
+
+    /**
+     * Moves everything after `time` into a new note, linked to this one as
+     * the next part of the recording.
+     */
+    splitAudio: (noteId, time) => runEdit(noteId, 'Split Failed', async () => {
+      const note = getEditableNote(noteId);
+      const source = await decodeAudioUrl(note.audioUrl!);
+      const before: KeptRange[] = [{ start: 0, end: time }];
+      const after: KeptRange[] = [{ start: time, end: source.duration }];
+      const first = await renderAudio([{ buffer: source, ...before[0] }]);
+      const second = await renderAudio([{ buffer: source, ...after[0] }]);
+
+      const now = Date.now();
+      const newNoteId = now.toString();
+      const audioUrl = await saveEditedAudio(noteId, first);
+      const newAudioUrl = await saveEditedAudio(newNoteId, second);
+
+      const notesStore = useNotesStore.getState();
+      const latest = notesStore.getNoteById(noteId) ?? note;
+      const series = latest.recordingSeries ?? { id: latest.id, part: 1 };
+      renumberSeriesAfter(series, 1);
+
+      const newSegments = latest.segments && mapSegmentsThroughEdit(latest.segments, after);
+      notesStore.addNote({
+        id: newNoteId,
+        title: `${latest.title || 'Untitled'} (part ${series.part + 1})`,
+        content: newSegments ? layoutSegments(newSegments, latest.speakers, latest.language) : '',
+        audioUrl: newAudioUrl,
+        duration: Math.round(second.duration),
+        segments: newSegments,
+        bookmarks: splitOffBookmarks(latest, after),
+        speakers: latest.speakers,
+        language: latest.language,
+        translation: editTranslation(latest.translation, after),
+        recordingSeries: { id: series.id, part: series.part + 1 },
+        recordingSources: latest.recordingSources,
+        createdAt: now,
+        updatedAt: now,
+        created: now,
+        lastEdited: now,
+        versions: [],
+        tags: latest.tags
+      });
+
+      const segments = latest.segments && mapSegmentsThroughEdit(latest.segments, before);
+      const content = editContent(latest, segments);
+      const versioned = saveTextVersion(latest, content, 'Split');
+      notesStore.updateNote({
+        ...versioned,
+        audioUrl,
+        duration: Math.round(first.duration),
+        segments,
+        content,
+        translation: editTranslation(latest.translation, before),
+        bookmarks: editBookmarks(latest, bookmarks => mapBookmarksThroughEdit(bookmarks, before)),
+        trimmedAudio: undefined,
+        recordingSeries: series,
+        originalAudio: { ...snapshot(latest, 'Split'), splitNoteId: newNoteId }
+      });
+      console.log(`✂️ AudioEditStore: Split note ${noteId} at ${time.toFixed(1)}s into ${newNoteId}`);
+      return newNoteId;
+    }),
+
+    // Appends the other notes' recordings, and their transcripts, to this one
+    mergeAudio: async (noteId, otherNoteIds) => !!await runEdit(noteId, 'Merge Failed', async () => {
+      const note = getEditableNote(noteId);
+      const notesStore = useNotesStore.getState();
+      const others = otherNoteIds
+        .map(id => notesStore.getNoteById(id))
+        .filter((other): other is Note => !!other?.audioUrl);
+      if (others.length === 0) throw new Error('None of the chosen notes has a recording');
+
+      // One at a time, decoded recordings are large
+      const buffers: AudioBuffer[] = [];
+      for (const source of [note, ...others]) {
+        buffers.push(await decodeAudioUrl(source.audioUrl!));
+      }
+      const rendered = await renderAudio(buffers.map(buffer => ({ buffer, start: 0, end: buffer.duration })));
+      const audioUrl = await saveEditedAudio(noteId, rendered);
+
+      const latest = notesStore.getNoteById(noteId) ?? note;
+      let offset = buffers[0].duration;
+      let segments = latest.segments ?? [];
+      let bookmarks = latest.bookmarks ?? [];
+      let content = latest.content;
+      others.forEach((other, index) => {
+        segments = [...segments, ...offsetSegments(other.segments ?? [], offset)];
+        bookmarks = [
+          ...bookmarks,
+          ...(other.bookmarks ?? [])
+            .filter(bookmark => isBookmarkInClip(other, bookmark, other.id))
+            .map(bookmark => ({ ...bookmark, time: bookmark.time + offset, clipId: undefined }))
+        ];
+        if (other.content.trim()) content = `${content}\n\n${other.content}`;
+        offset += buffers[index + 1].duration;
+      });
+
+      notesStore.updateNote({
+        ...latest,
+        audioUrl,
+        duration: Math.round(rendered.duration),
+        segments: segments.length > 0 ? segments : undefined,
+        bookmarks: bookmarks.length > 0 ? bookmarks : undefined,
+        content,
+        trimmedAudio: undefined,
+        originalAudio: snapshot(latest, 'Merged')
+      });
+      console.log(`✂️ AudioEditStore: Merged ${others.length} notes into ${noteId}`);
+      return true;
+    }),
+
+    // The edit stays; the original recording is deleted
+    confirmEdit: async (noteId) => {
+      const notesStore = useNotesStore.getState();
+      const note = notesStore.getNoteById(noteId);
+      const original = note?.originalAudio;
+      if (!note || !original) return;
+
+      notesStore.updateNote({ ...note, originalAudio: undefined });
+      try {
+        await deleteStoredAudio(original.audioUrl);
+        await deleteStoredAudio(original.trimmedAudio?.url);
+      } catch (error) {
+        console.error('❌ AudioEditStore: Failed to delete original audio:', error);
+      }
+    },
+
+    // Puts the original recording back and removes what the edit created
+    revertEdit: async (noteId) => {
+      const notesStore = useNotesStore.getState();
+      const note = notesStore.getNoteById(noteId);
+      const original = note?.originalAudio;
+      if (!note || !original) return;
+
+      const editedAudioUrl = note.audioUrl;
+      notesStore.updateNote({
+        ...note,
+        audioUrl: original.audioUrl,
+        duration: original.duration,
+        segments: original.segments,
+        bookmarks: original.bookmarks,
+        trimmedAudio: original.trimmedAudio,
+        recordingSeries: original.recordingSeries,
+        content: original.content ?? note.content,
+        translation: original.translation ?? note.translation,
+        originalAudio: undefined
+      });
+
+      try {
+        await deleteStoredAudio(editedAudioUrl);
+        const splitNote = original.splitNoteId && notesStore.getNoteById(original.splitNoteId);
+        if (splitNote) {
+          notesStore.deleteNote(splitNote.id);
+          renumberSeriesAfter(splitNote.recordingSeries, -1);
+          await deleteStoredAudio(splitNote.audioUrl);
+        }
+      } catch (error) {
+        console.error('❌ AudioEditStore: Failed to clean up after reverting:', error);
+      }
+    }
+  };
+});
@@ -1,6 +1,18 @@
 import { create } from 'zustand';
 import { isStorageUrl, resolveStorageUrl } from '../utils/audioStorage';
 import { useDebugStore } from './debugStore';
+import { useNotesStore } from './notesStore';
+import { useSettingsStore } from './settingsStore';
+import { findNextClip, getNoteAudioUrls, getNoteClips } from '../utils/noteClips';
+import { getWaveformPeaks } from '../utils/waveformPeaks';
+import { findSilentRangeAt, findSilentRanges, SilentRange } from '../utils/silentRanges';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+// Further in than this, "previous" restarts the current note instead
+const RESTART_THRESHOLD_SECONDS = 3;
+
+const findNoteForAudio = (audioUrl: string) =>
+  useNotesStore.getState().notes.find(note => getNoteAudioUrls(note).includes(audioUrl));
 
 interface AudioState {
   // Global audio player state
@@ -10,6 +22,19 @@ interface AudioState {
   globalAudioDuration: number;
   globalAudioCurrentTime: number;
   
+  // Review controls
+  playbackRate: number;
+  // Quiet stretches of the current audio, skipped when skip silence is on
+  silentRanges: SilentRange[];
+  // A-B loop points in seconds; the loop is active once both are set
+  loopStart: number | null;
+  loopEnd: number | null;
+  
+  // Notes to play through one after another, by id
+  queue: string[];
+  // Position of the playing note in the queue, -1 when not playing from it
+  queueIndex: number;
+  
   // Mobile-specific state
   isUserInteracting: boolean;
   pendingPlayRequest: string | null;
@@ -43,6 +68,22 @@ interface AudioState {
   playAudio: (audioUrl: string) => Promise<void>;
   togglePlayPause: () => void;
   seekAudio: (time: number) => void;
+  playAudioFrom: (audioUrl: string, time: number) => Promise<void>;
+  skipBy: (seconds: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  stepPlaybackRate: (direction: 1 | -1) => void;
+  setSkipSilence: (enabled: boolean) => void;
+  cycleLoop: () => void;
+  setLoop: (start: number, end: number) => void;
+  clearLoop: () => void;
+  playQueue: (noteIds: string[], startIndex?: number) => Promise<void>;
+  playQueueItem: (index: number) => Promise<void>;
+  playNext: () => Promise<void>;
+  playPrevious: () => Promise<void>;
+  shuffleQueue: () => void;
+  reorderQueue: (noteIds: string[]) => void;
+  removeFromQueue: (index: number) => void;
+  clearQueue: () => void;
   closePlayer: () => void;
   handleUserInteraction: () => void;
   showError: (error: string) => void;
@@ -53,6 +94,7 @@ interface AudioState {
   cleanupAudio: () => void;
   loadAndPlay: (url: string) => Promise<void>;
   handleAudioError: () => void;
+  loadSilentRanges: () => Promise<void>;
 }
 
 export const useAudioStore = create<AudioState>()((set, get) => ({
@@ -62,6 +104,12 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
   globalIsPlaying: false,
   globalAudioDuration: 0,
   globalAudioCurrentTime: 0,
+  playbackRate: 1,
+  silentRanges: [],
+  loopStart: null,
+  loopEnd: null,
+  queue: [],
+  queueIndex: -1,
   isUserInteracting: false,
   pendingPlayRequest: null,
   showUrlModal: false,
@@ -130,13 +178,33 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
       }
       
       console.log('AudioStore: Setting new audio to play:', resolvedUrl);
+      const note = findNoteForAudio(audioUrl);
+      const playbackRate = note?.playbackRate ?? 1;
+      // Playing something outside the queue leaves it
+      const queueIndex = note ? get().queue.indexOf(note.id) : -1;
       set({
         currentPlayingAudioUrl: audioUrl,
         resolvedPlayingAudioUrl: resolvedUrl,
         globalAudioCurrentTime: 0,
-        pendingPlayRequest: audioUrl
+        pendingPlayRequest: audioUrl,
+        playbackRate,
+        silentRanges: [],
+        loopStart: null,
+        loopEnd: null,
+        queue: queueIndex === -1 ? [] : get().queue,
+        queueIndex
       });
       
+      // Loading a new source resets playbackRate to the default
+      const audio = get().audioElement;
+      if (audio) {
+        audio.defaultPlaybackRate = playbackRate;
+        audio.playbackRate = playbackRate;
+      }
+      if (useSettingsStore.getState().skipSilence) {
+        get().loadSilentRanges();
+      }
+      
       // Load and play the new audio
       await get().loadAndPlay(resolvedUrl);
     }
@@ -165,16 +233,44 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
     });
 
     audio.addEventListener('timeupdate', () => {
-      set({ globalAudioCurrentTime: audio.currentTime || 0 });
+      const time = audio.currentTime || 0;
+      set({ globalAudioCurrentTime: time });
+      
+      const { loopStart, loopEnd, silentRanges } = get();
+      if (loopStart !== null && loopEnd !== null && time >= loopEnd) {
+        audio.currentTime = loopStart;
+        return;
+      }
+      if (useSettingsStore.getState().skipSilence) {
+        const silence = findSilentRangeAt(silentRanges, time);
+        if (silence) audio.currentTime = silence.end;
+      }
     });
 
     audio.addEventListener('ended', () => {
+      // A loop ending right at the end of the audio can finish before timeupdate catches it
+      const { loopStart, loopEnd } = get();
+      if (loopStart !== null && loopEnd !== null) {
+        audio.currentTime = loopStart;
+        get().loadAndPlay(get().resolvedPlayingAudioUrl || '');
+        return;
+      }
+      
       set({
         globalIsPlaying: false,
         globalAudioCurrentTime: 0,
         pendingPlayRequest: null
       });
       useDebugStore.getState().addDebugEvent('AUDIO_ENDED', 'Playback completed');
+      
+      // Notes with several clips play straight through to the next one
+      const endedUrl = get().currentPlayingAudioUrl;
+      const nextClip = endedUrl && findNextClip(useNotesStore.getState().notes, endedUrl);
+      if (nextClip) {
+        get().playAudio(nextClip.audioUrl);
+      } else if (get().queueIndex !== -1) {
+        get().playNext();
+      }
     });
 
     audio.addEventListener('error', () => {
@@ -290,7 +386,12 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
       globalIsPlaying: false,
       globalAudioCurrentTime: 0,
       globalAudioDuration: 0,
-      pendingPlayRequest: null
+      pendingPlayRequest: null,
+      silentRanges: [],
+      loopStart: null,
+      loopEnd: null,
+      queue: [],
+      queueIndex: -1
     });
   },
   
@@ -336,6 +437,163 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
     }
   },
   
+  playAudioFrom: async (audioUrl, time) => {
+    const { currentPlayingAudioUrl } = get();
+    
+    if (currentPlayingAudioUrl !== audioUrl) {
+      // Load the new audio first, seeking only works once a source is set
+      await get().playAudio(audioUrl);
+      if (get().currentPlayingAudioUrl !== audioUrl) return;
+      get().seekAudio(time);
+      return;
+    }
+    
+    get().seekAudio(time);
+    if (!get().globalIsPlaying) {
+      set({ isUserInteracting: true });
+      await get().loadAndPlay(get().resolvedPlayingAudioUrl || '');
+    }
+  },
+  
+  skipBy: (seconds) => {
+    const { globalAudioCurrentTime, globalAudioDuration } = get();
+    const target = globalAudioCurrentTime + seconds;
+    get().seekAudio(Math.max(0, globalAudioDuration > 0 ? Math.min(target, globalAudioDuration) : target));
+  },
+  
+  setPlaybackRate: (rate) => {
+    const playbackRate = Math.min(Math.max(rate, PLAYBACK_RATES[0]), PLAYBACK_RATES[PLAYBACK_RATES.length - 1]);
+    const { audioElement, currentPlayingAudioUrl } = get();
+    if (audioElement) {
+      audioElement.defaultPlaybackRate = playbackRate;
+      audioElement.playbackRate = playbackRate;
+    }
+    set({ playbackRate });
+    
+    // Remembered per note, so each recording comes back at its own speed
+    const note = currentPlayingAudioUrl && findNoteForAudio(currentPlayingAudioUrl);
+    if (note) {
+      useNotesStore.getState().setPlaybackRate(note.id, playbackRate);
+    }
+  },
+  
+  stepPlaybackRate: (direction) => {
+    const { playbackRate } = get();
+    const next = direction > 0
+      ? PLAYBACK_RATES.find(rate => rate > playbackRate)
+      : [...PLAYBACK_RATES].reverse().find(rate => rate < playbackRate);
+    if (next !== undefined) get().setPlaybackRate(next);
+  },
+  
+  setSkipSilence: (enabled) => {
+    useSettingsStore.getState().setSkipSilence(enabled);
+    if (enabled && get().silentRanges.length === 0) {
+      get().loadSilentRanges();
+    }
+  },
+  
+  loadSilentRanges: async () => {
+    const audioUrl = get().currentPlayingAudioUrl;
+    if (!audioUrl) return;
+    
+    try {
+      const silentRanges = findSilentRanges(await getWaveformPeaks(audioUrl));
+      // The player may have moved on while the peaks were computed
+      if (get().currentPlayingAudioUrl === audioUrl) {
+        set({ silentRanges });
+        useDebugStore.getState().addDebugEvent('AUDIO_SILENCE', `${silentRanges.length} silent ranges`);
+      }
+    } catch (error) {
+      console.error('AudioStore: Failed to find silent ranges:', error);
+    }
+  },
+  
+  // First press marks A, the second marks B and starts looping, the third clears
+  cycleLoop: () => {
+    const { loopStart, loopEnd, globalAudioCurrentTime: time } = get();
+    if (loopStart !== null && loopEnd !== null) {
+      get().clearLoop();
+    } else if (loopStart !== null && time > loopStart) {
+      set({ loopEnd: time });
+      get().seekAudio(loopStart);
+    } else {
+      set({ loopStart: time, loopEnd: null });
+    }
+  },
+  
+  setLoop: (start, end) => {
+    if (end <= start) return;
+    set({ loopStart: start, loopEnd: end });
+    get().seekAudio(start);
+  },
+  
+  clearLoop: () => set({ loopStart: null, loopEnd: null }),
+  
+  playQueue: async (noteIds, startIndex = 0) => {
+    set({ queue: noteIds, queueIndex: -1 });
+    await get().playQueueItem(startIndex);
+  },
+  
+  // Starts a queued note from its first clip; notes deleted or left without
+  // audio since they were queued are skipped
+  playQueueItem: async (index) => {
+    const { queue } = get();
+    for (let i = index; i < queue.length; i++) {
+      const note = useNotesStore.getState().getNoteById(queue[i]);
+      const firstClip = note && getNoteClips(note)[0];
+      if (firstClip) {
+        set({ isUserInteracting: true, queueIndex: i });
+        await get().playAudioFrom(firstClip.audioUrl, 0);
+        return;
+      }
+    }
+    console.log('AudioStore: Reached the end of the queue');
+  },
+  
+  playNext: async () => {
+    const { queue, queueIndex } = get();
+    if (queueIndex !== -1 && queueIndex < queue.length - 1) {
+      await get().playQueueItem(queueIndex + 1);
+    }
+  },
+  
+  playPrevious: async () => {
+    const { queueIndex, globalAudioCurrentTime } = get();
+    if (queueIndex > 0 && globalAudioCurrentTime <= RESTART_THRESHOLD_SECONDS) {
+      await get().playQueueItem(queueIndex - 1);
+    } else {
+      get().seekAudio(0);
+    }
+  },
+  
+  // Shuffles what's still to come; what has played and what's playing stay put
+  shuffleQueue: () => {
+    const { queue, queueIndex } = get();
+    const upcoming = queue.slice(queueIndex + 1);
+    for (let i = upcoming.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [upcoming[i], upcoming[j]] = [upcoming[j], upcoming[i]];
+    }
+    set({ queue: [...queue.slice(0, queueIndex + 1), ...upcoming] });
+  },
+  
+  reorderQueue: (noteIds) => {
+    const { queue, queueIndex } = get();
+    const currentNoteId = queue[queueIndex];
+    set({ queue: noteIds, queueIndex: currentNoteId ? noteIds.indexOf(currentNoteId) : -1 });
+  },
+  
+  removeFromQueue: (index) => {
+    const { queue, queueIndex } = get();
+    if (index === queueIndex) return;
+    set({
+      queue: queue.filter((_, i) => i !== index),
+      queueIndex: index < queueIndex ? queueIndex - 1 : queueIndex
+    });
+  },
+  
+  clearQueue: () => set({ queue: [], queueIndex: -1 }),
+  
   closePlayer: () => {
     const state = get();
     if (state.audioElement) {
@@ -349,7 +607,12 @@ export const useAudioStore = create<AudioState>()((set, get) => ({
       globalAudioCurrentTime: 0,
       globalAudioDuration: 0,
       pendingPlayRequest: null,
-      isUserInteracting: false
+      isUserInteracting: false,
+      silentRanges: [],
+      loopStart: null,
+      loopEnd: null,
+      queue: [],
+      queueIndex: -1
     });
   },
   
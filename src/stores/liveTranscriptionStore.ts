@@ -0,0 +1,244 @@
+import { create } from 'zustand';
+import Constants from '../utils/Constants';
+import { getSttProviderChain, TranscriptionCancelledError } from '../services/stt';
+import { useSettingsStore } from './settingsStore';
+import { buildVocabularyPrompt } from '../utils/transcriptCorrections';
+import { resolveLanguageSetting } from '../utils/languages';
+import { detectSpeechRegions } from '../utils/voiceActivity';
+import type { TranscriptSegment } from './notesStore';
+
+// Seconds of audio sent per live pass. Shorter windows show text sooner but
+// give Whisper less context.
+const LIVE_WINDOW_SECONDS = 10;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+interface LiveWindow {
+  offset: number;
+  samples: Float32Array;
+}
+
+interface LiveTranscriptionState {
+  isActive: boolean;
+  isPaused: boolean;
+  segments: TranscriptSegment[];
+  // Text decoded so far for the window currently in flight
+  partialText: string;
+  status: string;
+
+  // Actions
+  start: (stream: MediaStream) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => { text: string; segments: TranscriptSegment[] };
+  reset: () => void;
+  getTranscriptText: () => string;
+
+  // Internal handlers
+  processWindows: () => Promise<void>;
+}
+
+// Audio graph and buffers live outside the store, like the recorder instances
+let audioContext: AudioContext | null = null;
+let sourceNode: MediaStreamAudioSourceNode | null = null;
+let processorNode: ScriptProcessorNode | null = null;
+let currentChunks: Float32Array[] = [];
+let currentLength = 0;
+let capturedSamples = 0;
+let windowQueue: LiveWindow[] = [];
+let isProcessingWindow = false;
+let abortController: AbortController | null = null;
+let windowCounter = 0;
+
+const joinSegments = (segments: TranscriptSegment[]) =>
+  segments.map(segment => segment.text).join(' ').replace(/\s+/g, ' ').trim();
+
+function concatChunks(chunks: Float32Array[], length: number): Float32Array {
+  const samples = new Float32Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return samples;
+}
+
+function toAudioBuffer(samples: Float32Array): AudioBuffer {
+  const buffer = new AudioBuffer({
+    length: samples.length,
+    numberOfChannels: 1,
+    sampleRate: Constants.SAMPLING_RATE
+  });
+  buffer.copyToChannel(samples, 0);
+  return buffer;
+}
+
+function teardownAudioGraph() {
+  if (processorNode) {
+    processorNode.onaudioprocess = null;
+    processorNode.disconnect();
+  }
+  sourceNode?.disconnect();
+  audioContext?.close().catch(() => {});
+
+  processorNode = null;
+  sourceNode = null;
+  audioContext = null;
+  currentChunks = [];
+  currentLength = 0;
+}
+
+export const useLiveTranscriptionStore = create<LiveTranscriptionState>((set, get) => ({
+  isActive: false,
+  isPaused: false,
+  segments: [],
+  partialText: '',
+  status: '',
+
+  start: async (stream) => {
+    get().reset();
+    console.log('📝 LiveTranscription: Starting');
+
+    try {
+      // Resample to Whisper's rate in the audio graph itself
+      audioContext = new AudioContext({ sampleRate: Constants.SAMPLING_RATE });
+      sourceNode = audioContext.createMediaStreamSource(stream);
+      // ScriptProcessorNode is deprecated but needs no separate worklet module
+      processorNode = audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+
+      processorNode.onaudioprocess = (event) => {
+        if (get().isPaused) return;
+
+        const input = event.inputBuffer.getChannelData(0);
+        currentChunks.push(new Float32Array(input));
+        currentLength += input.length;
+
+        if (currentLength >= LIVE_WINDOW_SECONDS * Constants.SAMPLING_RATE) {
+          windowQueue.push({
+            offset: capturedSamples / Constants.SAMPLING_RATE,
+            samples: concatChunks(currentChunks, currentLength)
+          });
+          capturedSamples += currentLength;
+          currentChunks = [];
+          currentLength = 0;
+          get().processWindows();
+        }
+      };
+
+      sourceNode.connect(processorNode);
+      // The processor only runs while connected to a destination
+      processorNode.connect(audioContext.destination);
+
+      abortController = new AbortController();
+      set({ isActive: true, isPaused: false, status: 'Listening...' });
+    } catch (error) {
+      console.error('❌ LiveTranscription: Failed to start:', error);
+      teardownAudioGraph();
+      set({ isActive: false, status: 'Live transcription unavailable' });
+    }
+  },
+
+  pause: () => set({ isPaused: true }),
+
+  resume: () => set({ isPaused: false }),
+
+  processWindows: async () => {
+    if (isProcessingWindow) return;
+    isProcessingWindow = true;
+
+    try {
+      while (windowQueue.length > 0 && get().isActive) {
+        // When falling behind, merge queued windows so we catch up in one pass
+        const windows = windowQueue;
+        windowQueue = [];
+        const length = windows.reduce((total, w) => total + w.samples.length, 0);
+        const offset = windows[0].offset;
+        const samples = concatChunks(windows.map(w => w.samples), length);
+
+        const providers = getSttProviderChain();
+        const signal = abortController?.signal;
+        if (!signal || providers.length === 0) return;
+
+        // Silent windows are where Whisper hallucinates; skip them
+        const audio = toAudioBuffer(samples);
+        if (useSettingsStore.getState().voiceActivityDetection && detectSpeechRegions(audio).length === 0) {
+          continue;
+        }
+
+        set({ status: 'Transcribing...' });
+        for (const provider of providers) {
+          try {
+            const result = await provider.transcribe(audio, {
+              jobId: `live-${++windowCounter}`,
+              signal,
+              prompt: buildVocabularyPrompt(useSettingsStore.getState().vocabulary),
+              language: resolveLanguageSetting(useSettingsStore.getState().language),
+              onStatus: () => {},
+              onModelProgress: (progress) => {
+                if (progress.status === 'initiate') set({ status: 'Loading model...' });
+              },
+              onPartialText: (partialText) => set({ partialText })
+            });
+
+            if (!get().isActive) return;
+
+            // Shift window-relative timestamps onto the recording timeline
+            const shifted = result.segments.length > 0
+              ? result.segments.map(segment => ({
+                  start: segment.start + offset,
+                  end: segment.end + offset,
+                  text: segment.text
+                }))
+              : [{ start: offset, end: offset + length / Constants.SAMPLING_RATE, text: result.text.trim() }];
+
+            set((state) => ({
+              segments: [...state.segments, ...shifted.filter(segment => segment.text)],
+              partialText: '',
+              status: 'Listening...'
+            }));
+            break;
+          } catch (error) {
+            if (error instanceof TranscriptionCancelledError || signal.aborted) return;
+            console.warn(`⚠️ LiveTranscription: ${provider.name} failed:`, error);
+          }
+        }
+      }
+    } finally {
+      isProcessingWindow = false;
+    }
+  },
+
+  stop: () => {
+    console.log('📝 LiveTranscription: Stopping');
+
+    // Free the model for the final full pass
+    abortController?.abort();
+    abortController = null;
+    teardownAudioGraph();
+    windowQueue = [];
+
+    const { segments } = get();
+    set({ isActive: false, isPaused: false, partialText: '', status: '' });
+    return { text: joinSegments(segments), segments };
+  },
+
+  reset: () => {
+    abortController?.abort();
+    abortController = null;
+    teardownAudioGraph();
+    windowQueue = [];
+    capturedSamples = 0;
+
+    set({
+      isActive: false,
+      isPaused: false,
+      segments: [],
+      partialText: '',
+      status: ''
+    });
+  },
+
+  getTranscriptText: () => {
+    const { segments, partialText } = get();
+    return [joinSegments(segments), partialText.trim()].filter(Boolean).join(' ');
+  }
+}));
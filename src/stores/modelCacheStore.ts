@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ProgressItem } from './transcriptionStore';
+import type { SttModelProgress } from '../services/stt';
+import { CachedModelInfo, deleteCachedModel, listCachedModels } from '../utils/modelCache';
+import { useSettingsStore } from './settingsStore';
+
+interface ModelDownload {
+  progressItems: ProgressItem[];
+  error?: string;
+}
+
+interface ModelCacheState {
+  cachedModels: Record<string, CachedModelInfo>;
+  // When each model last ran a transcription, by model id
+  lastUsed: Record<string, number>;
+  downloads: Record<string, ModelDownload>;
+  isScanning: boolean;
+
+  // Actions
+  refresh: () => Promise<void>;
+  markUsed: (modelId: string) => void;
+  downloadModel: (modelId: string) => Promise<void>;
+  cancelDownload: (modelId: string) => void;
+  deleteModel: (modelId: string) => Promise<void>;
+}
+
+// Downloads that can be aborted from the model manager
+const downloadControllers = new Map<string, AbortController>();
+
+const withoutDownload = (downloads: Record<string, ModelDownload>, modelId: string) => {
+  const next = { ...downloads };
+  delete next[modelId];
+  return next;
+};
+
+function applyProgress(items: ProgressItem[], progress: SttModelProgress): ProgressItem[] {
+  switch (progress.status) {
+    case 'initiate':
+      return [
+        ...items.filter(item => item.file !== progress.file),
+        { file: progress.file || 'model', progress: 0, status: 'Starting...' }
+      ];
+    case 'progress':
+      return items.map(item =>
+        item.file === progress.file ? { ...item, progress: Math.round(progress.progress || 0) } : item
+      );
+    case 'ready':
+      return items.map(item => ({ ...item, progress: 100, status: 'Complete' }));
+    default:
+      return items;
+  }
+}
+
+export const useModelCacheStore = create<ModelCacheState>()(
+  persist(
+    (set, get) => ({
+      cachedModels: {},
+      lastUsed: {},
+      downloads: {},
+      isScanning: false,
+
+      refresh: async () => {
+        set({ isScanning: true });
+        try {
+          const models = await listCachedModels();
+          set({ cachedModels: Object.fromEntries(models.map(model => [model.modelId, model])) });
+        } catch (error) {
+          console.error('❌ ModelCache: Failed to inspect cache:', error);
+        } finally {
+          set({ isScanning: false });
+        }
+      },
+
+      markUsed: (modelId) => set((state) => ({
+        lastUsed: { ...state.lastUsed, [modelId]: Date.now() }
+      })),
+
+      downloadModel: async (modelId) => {
+        if (downloadControllers.has(modelId)) return;
+
+        const controller = new AbortController();
+        downloadControllers.set(modelId, controller);
+        set((state) => ({ downloads: { ...state.downloads, [modelId]: { progressItems: [] } } }));
+        console.log('📦 ModelCache: Downloading', modelId);
+
+        const updateDownload = (updates: Partial<ModelDownload>) => set((state) => ({
+          downloads: {
+            ...state.downloads,
+            [modelId]: { ...(state.downloads[modelId] || { progressItems: [] }), ...updates }
+          }
+        }));
+
+        try {
+          // Imported lazily; the provider itself depends on this store
+          const { preloadLocalWhisperModel } = await import('../services/stt/localWhisperProvider');
+          await preloadLocalWhisperModel(modelId, useSettingsStore.getState().quantized, {
+            jobId: `preload-${modelId}-${Date.now()}`,
+            signal: controller.signal,
+            onModelProgress: (progress) => {
+              const current = get().downloads[modelId];
+              if (current) updateDownload({ progressItems: applyProgress(current.progressItems, progress) });
+            }
+          });
+
+          set((state) => ({ downloads: withoutDownload(state.downloads, modelId) }));
+        } catch (error) {
+          if (controller.signal.aborted) {
+            set((state) => ({ downloads: withoutDownload(state.downloads, modelId) }));
+          } else {
+            console.error('❌ ModelCache: Download failed:', error);
+            updateDownload({ error: error instanceof Error ? error.message : 'Download failed' });
+          }
+        } finally {
+          downloadControllers.delete(modelId);
+          get().refresh();
+        }
+      },
+
+      cancelDownload: (modelId) => {
+        downloadControllers.get(modelId)?.abort();
+      },
+
+      deleteModel: async (modelId) => {
+        console.log('🗑️ ModelCache: Deleting', modelId);
+        await deleteCachedModel(modelId);
+        await get().refresh();
+      }
+    }),
+    {
+      name: 'model-cache-store',
+      version: 1,
+      // Cache contents are re-scanned; only usage history needs persisting
+      partialize: (state) => ({ lastUsed: state.lastUsed })
+    }
+  )
+);
@@ -1,14 +1,84 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { audioStorage } from '../utils/audioStorage';
+import { getSpeakerName } from '../utils/speakerTurns';
+import { getNoteClips } from '../utils/noteClips';
 import { exportAudioFiles } from '../services/audioExportService';
 import { importAudioFiles } from '../services/audioImportService';
+import type { AudioSourceKind } from '../utils/recordingProfiles';
 import { toast } from '@/hooks/use-toast';
 
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  // Speaker id ("S1", "S2", ...) when speaker turns were detected
+  speaker?: string;
+}
+
+export interface TranscriptSource {
+  providerId: string;
+  providerName: string;
+  model?: string;
+  transcribedAt: number;
+}
+
 export interface NoteVersion {
   content: string;
   timestamp: number;
   description: string;
+  // Set when the version came from a retranscription rather than an edit
+  transcribedBy?: TranscriptSource;
+  segments?: TranscriptSegment[];
+}
+
+// A moment flagged while recording, in seconds from the start of the audio
+export interface NoteBookmark {
+  id: string;
+  time: number;
+  label?: string;
+  // Set when the moment belongs to a clip recorded into the note later
+  clipId?: string;
+}
+
+// A recording added to an existing note; segment times are relative to the clip
+export interface AudioClip {
+  id: string;
+  audioUrl: string;
+  duration: number;
+  recordedAt: number;
+  segments?: TranscriptSegment[];
+  recordingSources?: AudioSourceKind[];
+}
+
+// Position of a note within a long recording that was split into parts
+export interface RecordingSeries {
+  id: string;
+  part: number;
+}
+
+// The recording as it was before an edit in the audio editor, kept until the
+// edit is confirmed so it can be reverted
+export interface OriginalAudio {
+  // What was done, e.g. "Trimmed"
+  edit: string;
+  audioUrl: string;
+  duration?: number;
+  segments?: TranscriptSegment[];
+  bookmarks?: NoteBookmark[];
+  trimmedAudio?: Note['trimmedAudio'];
+  recordingSeries?: RecordingSeries;
+  content?: string;
+  translation?: NoteTranslation;
+  // The note splitting created, removed again on revert
+  splitNoteId?: string;
+}
+
+// English translation kept alongside a non-English transcript
+export interface NoteTranslation {
+  language: string;
+  text: string;
+  segments: TranscriptSegment[];
 }
 
 export interface Note {
@@ -19,8 +89,31 @@ export interface Note {
   versions: NoteVersion[];
   created: number;
   lastEdited: number;
+  // Set only when the user edits the text; lastEdited also moves on app writes
+  contentEditedAt?: number;
   audioUrl?: string;
   duration?: number;
+  // Copy of the recording with long silences removed
+  trimmedAudio?: {
+    url: string;
+    duration: number;
+  };
+  segments?: TranscriptSegment[];
+  transcribedBy?: TranscriptSource;
+  // Display names for speaker ids, e.g. { S1: 'Alice' }
+  speakers?: Record<string, string>;
+  // Language code of the recording, as detected during transcription
+  language?: string;
+  translation?: NoteTranslation;
+  bookmarks?: NoteBookmark[];
+  // Recordings added after the first, in order; the first stays on audioUrl
+  clips?: AudioClip[];
+  recordingSeries?: RecordingSeries;
+  // What was captured, e.g. the mic mixed with a meeting tab
+  recordingSources?: AudioSourceKind[];
+  // Speed this note was last listened at
+  playbackRate?: number;
+  originalAudio?: OriginalAudio;
   createdAt?: number;
   updatedAt?: number;
   type?: 'user' | 'agent';
@@ -49,8 +142,14 @@ interface NotesState {
   // Complex actions
   createNote: () => string;
   saveVersion: (noteId: string, description: string) => void;
+  addVersion: (noteId: string, version: NoteVersion) => void;
   restoreVersion: (noteId: string, version: NoteVersion) => void;
   updateTags: (noteId: string, tags: string[]) => void;
+  renameSpeaker: (noteId: string, speakerId: string, name: string) => void;
+  updateBookmark: (noteId: string, bookmarkId: string, label: string) => void;
+  removeBookmark: (noteId: string, bookmarkId: string) => void;
+  addClip: (noteId: string, clip: AudioClip, bookmarks?: NoteBookmark[]) => void;
+  setPlaybackRate: (noteId: string, rate: number) => void;
   
   // Data management
   exportNotes: () => void;
@@ -139,6 +238,14 @@ export const useNotesStore = create<NotesState>()(
         }
       },
       
+      addVersion: (noteId, version) => set((state) => ({
+        notes: state.notes.map(note =>
+          note.id === noteId
+            ? { ...note, versions: [...note.versions, version] }
+            : note
+        )
+      })),
+      
       restoreVersion: (noteId, version) => {
         const { notes } = get();
         const note = notes.find(n => n.id === noteId);
@@ -146,6 +253,11 @@ export const useNotesStore = create<NotesState>()(
           const updatedNote = {
             ...note,
             content: version.content,
+            // A retranscribed version brings its timestamps along
+            ...(version.segments && {
+              segments: version.segments,
+              transcribedBy: version.transcribedBy
+            }),
             lastEdited: Date.now()
           };
           
@@ -171,6 +283,87 @@ export const useNotesStore = create<NotesState>()(
         }
       },
       
+      renameSpeaker: (noteId, speakerId, name) => {
+        const { notes } = get();
+        const note = notes.find(n => n.id === noteId);
+        const newName = name.trim();
+        if (note && newName) {
+          const oldName = getSpeakerName(speakerId, note.speakers);
+          const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+          // Speaker labels in the transcript text follow the new name too.
+          // A function replacer keeps `$&` and friends in names literal
+          const now = Date.now();
+          const updatedNote = {
+            ...note,
+            speakers: { ...note.speakers, [speakerId]: newName },
+            content: note.content.replace(new RegExp(`\\*\\*${escaped}:\\*\\*`, 'g'), () => `**${newName}:**`),
+            updatedAt: now,
+            lastEdited: now
+          };
+          
+          set((state) => ({
+            notes: state.notes.map(n => n.id === noteId ? updatedNote : n)
+          }));
+        }
+      },
+      
+      updateBookmark: (noteId, bookmarkId, label) => {
+        const { notes } = get();
+        const note = notes.find(n => n.id === noteId);
+        if (note?.bookmarks) {
+          const updatedNote = {
+            ...note,
+            bookmarks: note.bookmarks.map(b =>
+              b.id === bookmarkId ? { ...b, label: label.trim() || undefined } : b
+            ),
+            lastEdited: Date.now()
+          };
+          
+          set((state) => ({
+            notes: state.notes.map(n => n.id === noteId ? updatedNote : n)
+          }));
+        }
+      },
+      
+      removeBookmark: (noteId, bookmarkId) => {
+        const { notes } = get();
+        const note = notes.find(n => n.id === noteId);
+        if (note?.bookmarks) {
+          const updatedNote = {
+            ...note,
+            bookmarks: note.bookmarks.filter(b => b.id !== bookmarkId),
+            lastEdited: Date.now()
+          };
+          
+          set((state) => ({
+            notes: state.notes.map(n => n.id === noteId ? updatedNote : n)
+          }));
+        }
+      },
+      
+      addClip: (noteId, clip, bookmarks = []) => {
+        const { notes } = get();
+        const note = notes.find(n => n.id === noteId);
+        if (note) {
+          const updatedNote = {
+            ...note,
+            clips: [...(note.clips || []), clip],
+            bookmarks: bookmarks.length > 0 ? [...(note.bookmarks || []), ...bookmarks] : note.bookmarks,
+            lastEdited: Date.now()
+          };
+          
+          set((state) => ({
+            notes: state.notes.map(n => n.id === noteId ? updatedNote : n)
+          }));
+        }
+      },
+      
+      // A listening preference rather than an edit, so lastEdited stays put
+      setPlaybackRate: (noteId, rate) => set((state) => ({
+        notes: state.notes.map(n => n.id === noteId ? { ...n, playbackRate: rate } : n)
+      })),
+      
       // Data management
       exportNotes: () => {
         const { notes } = get();
@@ -242,7 +435,7 @@ export const useNotesStore = create<NotesState>()(
       
       clearAllRecordings: async () => {
         const { notes } = get();
-        const recordingsCount = notes.filter(note => note.audioUrl).length;
+        const recordingsCount = notes.filter(note => getNoteClips(note).length > 0).length;
         if (recordingsCount === 0) return;
         
         // Use the confirmation dialog if available
@@ -259,7 +452,10 @@ export const useNotesStore = create<NotesState>()(
           const updatedNotes = notes.map(note => ({
             ...note,
             audioUrl: undefined,
-            duration: undefined
+            duration: undefined,
+            clips: undefined,
+            trimmedAudio: undefined,
+            originalAudio: undefined
           }));
           
           set({ notes: updatedNotes });
@@ -282,7 +478,10 @@ export const useNotesStore = create<NotesState>()(
           const updatedNotes = notes.map(note => ({
             ...note,
             audioUrl: undefined,
-            duration: undefined
+            duration: undefined,
+            clips: undefined,
+            trimmedAudio: undefined,
+            originalAudio: undefined
           }));
           
           set({ notes: updatedNotes });
@@ -301,7 +500,7 @@ export const useNotesStore = create<NotesState>()(
       
       downloadAllAudio: async (): Promise<void> => {
         const { notes } = get();
-        const notesWithAudio = notes.filter(note => note.audioUrl);
+        const notesWithAudio = notes.filter(note => getNoteClips(note).length > 0);
         
         // Reset progress state
         set({ exportProgress: 'Preparing export...', isExportingAudio: true });
@@ -379,13 +578,13 @@ export const useNotesStore = create<NotesState>()(
           // Status callback
           (isImporting) => set({ isExportingAudio: isImporting }),
           // Note update callback
-          (noteId, audioUrl) => {
+          (noteId, audioUrl, clipId) => {
             set((state) => ({
-              notes: state.notes.map(n => 
-                n.id === noteId 
-                  ? { ...n, audioUrl } 
-                  : n
-              )
+              notes: state.notes.map(n => {
+                if (n.id !== noteId) return n;
+                if (!clipId) return { ...n, audioUrl };
+                return { ...n, clips: n.clips?.map(c => c.id === clipId ? { ...c, audioUrl } : c) };
+              })
             }));
           }
         );
@@ -1,5 +1,13 @@
 import { create } from 'zustand';
 import { audioStorage } from '../utils/audioStorage';
+import { recordingSessionStorage, RecordingSession } from '../utils/recordingSessionStorage';
+import type { NoteBookmark, RecordingSeries, TranscriptSegment } from './notesStore';
+import { createSilenceMonitor, SilenceMonitor } from '../utils/silenceMonitor';
+import { toast } from '@/hooks/use-toast';
+import { AudioSourceKind, buildAudioConstraints, getRecordingProfile } from '../utils/recordingProfiles';
+import { AudioMixer, captureTabAudio, createAudioMixer } from '../utils/audioMixer';
+import { useSettingsStore } from './settingsStore';
+import { useLiveTranscriptionStore } from './liveTranscriptionStore';
 
 interface RecordingState {
   // Recording state
@@ -26,6 +34,29 @@ interface RecordingState {
   audioStreamInstance: MediaStream | null;
   recordedChunksInternal: Blob[];
   timerInterval: number | null;
+  recorderOptions: MediaRecorderOptions | null;
+  silenceMonitor: SilenceMonitor | null;
+  isSplitting: boolean;
+  
+  // Set when tab audio is mixed in with the mic
+  audioMixer: AudioMixer | null;
+  recordingSources: AudioSourceKind[];
+  
+  // Crash recovery: the session being written to IndexedDB, and sessions a
+  // previous page load never finished
+  recordingSession: RecordingSession | null;
+  recoverableSessions: RecordingSession[];
+  
+  // Moments flagged during the current recording
+  bookmarks: NoteBookmark[];
+  
+  // Note the current recording will be added to as a new clip, if any
+  appendToNoteId: string | null;
+  
+  // Set once the recording rules split the recording; the part in progress
+  recordingSeries: RecordingSeries | null;
+  // Seconds recorded in parts that were already split off and saved
+  completedPartsDuration: number;
   
   // Actions
   setIsRecording: (recording: boolean) => void;
@@ -49,9 +80,16 @@ interface RecordingState {
   resetRecording: () => void;
   updateRecordingTime: () => void;
   calculateFinalDuration: () => number;
+  getElapsedSeconds: () => number;
+  addBookmark: (label?: string) => string | null;
+  setBookmarkLabel: (bookmarkId: string, label: string) => void;
+  applyRecordingRules: () => void;
+  splitRecording: () => Promise<void>;
+  setSourceGain: (source: AudioSourceKind, gain: number) => void;
   
   // High-level actions that handle everything
-  startRecordingFlow: () => Promise<void>;
+  startRecorderPart: (stream: MediaStream) => Promise<void>;
+  startRecordingFlow: (appendToNoteId?: string) => Promise<void>;
   pauseRecordingFlow: () => void;
   resumeRecordingFlow: () => void;
   stopRecordingFlow: () => void;
@@ -59,7 +97,165 @@ interface RecordingState {
   cleanup: () => void;
   handleRecordingStop: () => Promise<void>;
   createNoteFromRecording: () => Promise<void>;
-  startTranscription: (audioBlob: Blob, noteId: string) => Promise<void>;
+  startTranscription: (audioUrl: string, noteId: string, hasLiveTranscript?: boolean, clipId?: string) => Promise<void>;
+  checkForUnfinishedRecordings: () => Promise<void>;
+  recoverRecording: (sessionId: string) => Promise<string | null>;
+  discardRecording: (sessionId: string) => Promise<void>;
+}
+
+// Sessions written to this recently may still be recording in another tab
+const STALE_SESSION_MS = 15000;
+
+const getFileExtension = (mimeType: string) => {
+  if (mimeType.startsWith('audio/mp4')) return 'mp4';
+  if (mimeType.startsWith('audio/aac')) return 'aac';
+  if (mimeType.startsWith('audio/wav')) return 'wav';
+  return 'webm';
+};
+
+const finishSession = (sessionId: string) => {
+  recordingSessionStorage.deleteSession(sessionId).catch(error => {
+    console.error('❌ RecordingStore: Failed to delete recording session:', error);
+  });
+};
+
+// Recorders whose part was finished by a split; their events no longer
+// belong to the recording in progress
+const splitRecorders = new WeakSet<MediaRecorder>();
+
+// Bookmarks ride along with the crash-recovery session
+const saveSessionBookmarks = (session: RecordingSession | null, bookmarks: NoteBookmark[]) => {
+  if (!session) return null;
+  const updatedSession = { ...session, bookmarks };
+  recordingSessionStorage.saveSession(updatedSession).catch(error => {
+    console.error('❌ RecordingStore: Failed to persist bookmarks:', error);
+  });
+  return updatedSession;
+};
+
+// A finished recording, or one part of a recording split by the rules
+interface FinishedRecording {
+  chunks: Blob[];
+  duration: number;
+  session: RecordingSession | null;
+  bookmarks: NoteBookmark[];
+  liveTranscript: { text: string; segments: TranscriptSegment[] };
+  appendToNoteId: string | null;
+  series: RecordingSeries | null;
+  sources: AudioSourceKind[];
+}
+
+/**
+ * Saves the audio into a new note, or as a clip of the note it was recorded
+ * into, and queues its transcription. Returns the note id, or null when the
+ * recording holds no usable audio.
+ */
+async function saveRecording(recording: FinishedRecording): Promise<string | null> {
+  const now = Date.now();
+  const noteId = now.toString();
+  
+  // Determine the correct MIME type based on browser
+  const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+  const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
+  
+  // Select appropriate MIME type for the blob
+  let mimeType = 'audio/webm';
+  let fileExtension = 'webm';
+  
+  if (isIOS || isSafari) {
+    if (MediaRecorder.isTypeSupported('audio/mp4')) {
+      mimeType = 'audio/mp4';
+      fileExtension = 'mp4';
+    } else if (MediaRecorder.isTypeSupported('audio/aac')) {
+      mimeType = 'audio/aac';
+      fileExtension = 'aac';
+    }
+  }
+  
+  console.log(`🎙️ RecordingStore: Creating blob with MIME type ${mimeType}`);
+  
+  // Create audio blob with the appropriate MIME type
+  const audioBlob = new Blob(recording.chunks, { type: mimeType });
+  console.log(`🎙️ RecordingStore: Created blob of size ${audioBlob.size} bytes`);
+  
+  if (audioBlob.size < 100) {
+    console.error('❌ RecordingStore: Audio blob is too small, likely no audio was recorded');
+    return null;
+  }
+  
+  console.log(`🎙️ RecordingStore: Recording duration: ${recording.duration} seconds`);
+  
+  const { useNotesStore } = await import('./notesStore');
+  const { startTranscription } = useRecordingStore.getState();
+  
+  // "Record more" adds the audio to the existing note as a clip, unless
+  // the note was deleted while recording
+  const targetNote = recording.appendToNoteId ? useNotesStore.getState().getNoteById(recording.appendToNoteId) : undefined;
+  
+  if (targetNote) {
+    const clipId = noteId;
+    const audioUrl = await audioStorage.saveAudio(audioBlob, `recording_${targetNote.id}_${clipId}.${fileExtension}`);
+    console.log(`🎙️ RecordingStore: Saved clip audio to ${audioUrl}`);
+    
+    useNotesStore.getState().addClip(
+      targetNote.id,
+      {
+        id: clipId,
+        audioUrl,
+        duration: recording.duration,
+        recordedAt: recording.session?.startedAt ?? now,
+        recordingSources: recording.sources
+      },
+      recording.bookmarks.map(bookmark => ({ ...bookmark, clipId }))
+    );
+    console.log(`🎙️ RecordingStore: Added clip ${clipId} to note ${targetNote.id}`);
+    
+    if (recording.session) {
+      finishSession(recording.session.id);
+    }
+    
+    // The clip's text is appended once transcribed; a live transcript
+    // has no place in the existing note, so it's dropped
+    await startTranscription(audioUrl, targetNote.id, false, clipId);
+    return targetNote.id;
+  }
+  
+  // Save audio with appropriate file extension
+  const audioFileName = `recording_${noteId}.${fileExtension}`;
+  const audioUrl = await audioStorage.saveAudio(audioBlob, audioFileName);
+  console.log(`🎙️ RecordingStore: Saved audio to ${audioUrl}`);
+  
+  // Create note
+  const { liveTranscript, series } = recording;
+  const newNote = {
+    id: noteId,
+    title: series ? `Voice Recording (part ${series.part})` : 'Voice Recording',
+    content: liveTranscript.text,
+    segments: liveTranscript.segments.length > 0 ? liveTranscript.segments : undefined,
+    audioUrl,
+    duration: recording.duration,
+    bookmarks: recording.bookmarks.length > 0 ? recording.bookmarks : undefined,
+    recordingSeries: series ?? undefined,
+    recordingSources: recording.sources,
+    createdAt: now,
+    updatedAt: now,
+    created: now,
+    lastEdited: now,
+    versions: [],
+    tags: []
+  };
+  
+  // Add to notes store
+  useNotesStore.getState().addNote(newNote);
+  console.log(`🎙️ RecordingStore: Added note to store with ID ${noteId}`);
+  
+  // The note owns the audio now; the crash-recovery copy can go
+  if (recording.session) {
+    finishSession(recording.session.id);
+  }
+  
+  await startTranscription(audioUrl, noteId, !!liveTranscript.text);
+  return noteId;
 }
 
 export const useRecordingStore = create<RecordingState>((set, get) => ({
@@ -84,6 +280,19 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
   audioStreamInstance: null,
   recordedChunksInternal: [],
   timerInterval: null,
+  recorderOptions: null,
+  silenceMonitor: null,
+  isSplitting: false,
+  audioMixer: null,
+  recordingSources: [],
+  
+  recordingSession: null,
+  recoverableSessions: [],
+  
+  bookmarks: [],
+  appendToNoteId: null,
+  recordingSeries: null,
+  completedPartsDuration: 0,
   
   // Simple setters
   setIsRecording: (recording) => set({ isRecording: recording }),
@@ -111,7 +320,8 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
       recordingStartTime: now,
       pausedDuration: 0,
       pauseStartTime: 0,
-      recordedChunks: []
+      recordedChunks: [],
+      bookmarks: []
     });
   },
   
@@ -147,16 +357,20 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     if (state.timerInterval) {
       clearInterval(state.timerInterval);
     }
+    state.silenceMonitor?.stop();
   
     // Release the audio stream
     if (state.audioStreamInstance) {
       state.audioStreamInstance.getTracks().forEach(track => track.stop());
     }
+    state.audioMixer?.stop();
   
     set({
       isRecording: false,
       isPaused: false,
-      timerInterval: null
+      timerInterval: null,
+      silenceMonitor: null,
+      audioMixer: null
     });
   },
   
@@ -186,7 +400,11 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
       recordedChunks: [],
       recordingStartTime: 0,
       pausedDuration: 0,
-      pauseStartTime: 0
+      pauseStartTime: 0,
+      bookmarks: [],
+      appendToNoteId: null,
+      recordingSeries: null,
+      completedPartsDuration: 0
     });
   },
   
@@ -196,7 +414,8 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     const now = Date.now();
     const state = get();
     const elapsedMs = now - state.recordingStartTime - state.pausedDuration;
-    const elapsedSeconds = Math.floor(elapsedMs / 1000);
+    // Parts split off by the recording rules still count towards the total
+    const elapsedSeconds = state.completedPartsDuration + Math.floor(elapsedMs / 1000);
     
     set({
       recordingTime: elapsedSeconds
@@ -211,10 +430,213 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     return Math.floor(actualRecordingTime / 1000);
   },
   
+  getElapsedSeconds: () => {
+    // Unlike recordingTime this isn't rounded to the timer tick, and holds
+    // still while paused
+    const state = get();
+    const now = Date.now();
+    const currentPause = state.isPaused && state.pauseStartTime > 0 ? now - state.pauseStartTime : 0;
+    const elapsedMs = now - state.recordingStartTime - state.pausedDuration - currentPause;
+    return Math.max(0, Math.round(elapsedMs / 100) / 10);
+  },
+  
+  addBookmark: (label) => {
+    const state = get();
+    if (!state.isRecording) return null;
+    
+    const bookmark: NoteBookmark = {
+      id: Date.now().toString(),
+      time: get().getElapsedSeconds(),
+      label: label?.trim() || undefined
+    };
+    const bookmarks = [...state.bookmarks, bookmark];
+    console.log(`🎙️ RecordingStore: Bookmark added at ${bookmark.time}s`);
+    
+    set({ bookmarks, recordingSession: saveSessionBookmarks(state.recordingSession, bookmarks) });
+    return bookmark.id;
+  },
+  
+  setBookmarkLabel: (bookmarkId, label) => {
+    const bookmarks = get().bookmarks.map(bookmark =>
+      bookmark.id === bookmarkId ? { ...bookmark, label: label.trim() || undefined } : bookmark
+    );
+    set({ bookmarks, recordingSession: saveSessionBookmarks(get().recordingSession, bookmarks) });
+  },
+  
+  applyRecordingRules: () => {
+    const state = get();
+    if (!state.isRecording || state.isPaused || state.isProcessing) return;
+    
+    const { maxDurationMinutes, silenceStopMinutes, splitEveryMinutes } = useSettingsStore.getState().recordingRules;
+    
+    if (maxDurationMinutes > 0 && state.recordingTime >= maxDurationMinutes * 60) {
+      console.log(`⏹️ RecordingStore: Reached the ${maxDurationMinutes} minute limit, stopping`);
+      toast({
+        title: 'Recording Stopped',
+        description: `The recording reached its ${maxDurationMinutes} minute limit.`
+      });
+      get().stopRecordingFlow();
+      return;
+    }
+    
+    if (silenceStopMinutes > 0 && state.silenceMonitor && state.silenceMonitor.getSilentSeconds() >= silenceStopMinutes * 60) {
+      console.log(`⏹️ RecordingStore: ${silenceStopMinutes} minutes of silence, stopping`);
+      toast({
+        title: 'Recording Stopped',
+        description: `Nothing was heard for ${silenceStopMinutes} minutes.`
+      });
+      get().stopRecordingFlow();
+      return;
+    }
+    
+    if (splitEveryMinutes > 0 && !state.isSplitting && get().getElapsedSeconds() >= splitEveryMinutes * 60) {
+      get().splitRecording();
+    }
+  },
+  
+  splitRecording: async () => {
+    const state = get();
+    const previousRecorder = state.mediaRecorderInstance;
+    const stream = state.audioStreamInstance;
+    if (!state.isRecording || state.isPaused || state.isSplitting || !previousRecorder || !stream || previousRecorder.state === 'inactive') {
+      return;
+    }
+    
+    const series = state.recordingSeries ?? { id: state.recordingSession?.id ?? Date.now().toString(), part: 1 };
+    console.log(`✂️ RecordingStore: Splitting off part ${series.part}`);
+    set({ isSplitting: true });
+    
+    const finished: FinishedRecording = {
+      chunks: [...state.recordedChunksInternal],
+      duration: get().calculateFinalDuration(),
+      session: state.recordingSession,
+      bookmarks: state.bookmarks,
+      liveTranscript: useLiveTranscriptionStore.getState().stop(),
+      appendToNoteId: state.appendToNoteId,
+      series,
+      sources: state.recordingSources
+    };
+    
+    // Stopping flushes the recorder's last chunk, which belongs to this part
+    splitRecorders.add(previousRecorder);
+    const previousStopped = new Promise<void>(resolve => {
+      previousRecorder.addEventListener('dataavailable', (event) => {
+        if (event.data.size > 0) finished.chunks.push(event.data);
+      });
+      previousRecorder.addEventListener('stop', () => resolve(), { once: true });
+    });
+    previousRecorder.stop();
+    
+    // Later parts become their own notes, even when recording into a note
+    set({
+      recordingSeries: { id: series.id, part: series.part + 1 },
+      completedPartsDuration: state.completedPartsDuration + finished.duration,
+      appendToNoteId: null
+    });
+    
+    try {
+      await get().startRecorderPart(stream);
+      if (useSettingsStore.getState().liveTranscription) {
+        useLiveTranscriptionStore.getState().start(stream);
+      }
+    } catch (error) {
+      console.error('❌ RecordingStore: Failed to continue after split:', error);
+    } finally {
+      set({ isSplitting: false });
+    }
+    
+    // Transcribe the finished part now rather than when the session ends
+    await previousStopped;
+    try {
+      await saveRecording(finished);
+    } catch (error) {
+      console.error('❌ RecordingStore: Failed to save split part:', error);
+    }
+  },
+  
+  // Remembered for the next recording, and applied to the mix in progress
+  setSourceGain: (source, gain) => {
+    useSettingsStore.getState().setSourceGain(source, gain);
+    get().audioMixer?.setGain(source, gain);
+  },
+
+  startRecorderPart: async (stream) => {
+    const options = get().recorderOptions ?? {};
+    const recorder = new MediaRecorder(stream, options);
+    
+    recorder.addEventListener('dataavailable', (event) => {
+      // A part finished by a split collects its own last chunk
+      if (splitRecorders.has(recorder)) return;
+      if (event.data.size > 0) {
+        console.log(`🎙️ RecordingStore: Received data chunk of size ${event.data.size} bytes`);
+        const currentState = get();
+        set({ 
+          recordedChunksInternal: [...currentState.recordedChunksInternal, event.data],
+          recordedChunks: [...currentState.recordedChunks, event.data]
+        });
+        
+        // Persist as we go so a crash only loses the last chunk
+        const session = currentState.recordingSession;
+        if (session) {
+          const updatedSession = {
+            ...session,
+            updatedAt: Date.now(),
+            duration: get().calculateFinalDuration(),
+            chunkCount: session.chunkCount + 1
+          };
+          set({ recordingSession: updatedSession });
+          recordingSessionStorage.appendChunk(updatedSession, session.chunkCount, event.data).catch(error => {
+            console.error('❌ RecordingStore: Failed to persist chunk:', error);
+          });
+        }
+      } else {
+        console.warn('🎙️ RecordingStore: Received empty data chunk');
+      }
+    });
+    
+    recorder.addEventListener('stop', () => {
+      if (splitRecorders.has(recorder)) return;
+      console.log('🎙️ RecordingStore: MediaRecorder stop event fired');
+      get().handleRecordingStop();
+    });
+    
+    const now = Date.now();
+    const mimeType = recorder.mimeType || options.mimeType || 'audio/webm';
+    const recordingSession: RecordingSession = {
+      id: now.toString(),
+      mimeType,
+      fileExtension: getFileExtension(mimeType),
+      startedAt: now,
+      updatedAt: now,
+      duration: 0,
+      chunkCount: 0,
+      appendToNoteId: get().appendToNoteId ?? undefined,
+      sources: get().recordingSources
+    };
+    set({ recordingSession });
+    await recordingSessionStorage.saveSession(recordingSession).catch(error => {
+      console.error('❌ RecordingStore: Failed to create recording session:', error);
+    });
+    
+    // Use a smaller timeslice for more frequent chunks, which helps with reliability
+    recorder.start(500);
+    
+    set({
+      mediaRecorderInstance: recorder,
+      mediaRecorder: recorder,
+      recordedChunks: [],
+      recordedChunksInternal: [],
+      recordingStartTime: Date.now(),
+      pausedDuration: 0,
+      pauseStartTime: 0,
+      bookmarks: []
+    });
+  },
+  
   // High-level flows that handle everything
-  startRecordingFlow: async () => {
+  startRecordingFlow: async (appendToNoteId) => {
     try {
-      console.log('🎙️ RecordingStore: Starting recording flow');
+      console.log('🎙️ RecordingStore: Starting recording flow', appendToNoteId ? `(adding to note ${appendToNoteId})` : '');
       
       // Clear previous data
       set({ recordedChunksInternal: [] });
@@ -230,23 +652,64 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
         throw new Error('Media recording is not supported in this browser or context');
       }
       
-      // Audio constraints optimized for voice recording and smaller file size
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          // Mono audio is sufficient for voice notes and reduces file size by half
-          channelCount: 1,
-          // Lower sample rate still good for voice but smaller files
-          sampleRate: 22050
-        } 
+      // Recording is when storage starts to matter: warn early if it's
+      // nearly full, and ask the browser not to evict what we save
+      import('./storageStore').then(({ useStorageStore }) => {
+        const storage = useStorageStore.getState();
+        storage.checkQuota();
+        storage.requestPersistence();
       });
       
+      // Constraints come from the selected recording profile and input device
+      const { recordingProfile, inputDeviceId } = useSettingsStore.getState();
+      const profile = getRecordingProfile(recordingProfile);
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(profile, inputDeviceId)
+        });
+      } catch (error) {
+        if (!inputDeviceId || (error as DOMException)?.name !== 'OverconstrainedError') throw error;
+        // The chosen mic was unplugged; record from the default one instead
+        console.warn('🎙️ RecordingStore: Selected input device unavailable, using default');
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(profile)
+        });
+      }
+      console.log(`🎙️ RecordingStore: Recording with "${profile.name}" profile`);
+      
+      // For meetings, the other participants only come through the tab's audio
+      let mixer: AudioMixer | null = null;
+      const { recordingSourceMode, sourceGains } = useSettingsStore.getState();
+      if (recordingSourceMode === 'microphone-and-tab') {
+        try {
+          const tabStream = await captureTabAudio();
+          mixer = createAudioMixer({ microphone: stream, tab: tabStream }, sourceGains);
+          tabStream.getAudioTracks()[0].addEventListener('ended', () => {
+            if (!get().isRecording) return;
+            console.log('🎙️ RecordingStore: Tab sharing ended, continuing with the microphone');
+            toast({
+              title: 'Tab Audio Stopped',
+              description: 'Sharing ended. The recording continues with the microphone only.'
+            });
+          });
+          console.log('🎙️ RecordingStore: Mixing tab audio with the microphone');
+        } catch (error) {
+          // Dismissing the share dialog shouldn't lose the recording
+          console.warn('⚠️ RecordingStore: Could not capture tab audio:', error);
+          toast({
+            title: 'Recording Microphone Only',
+            description: error instanceof Error && error.name !== 'NotAllowedError'
+              ? error.message
+              : 'Tab audio was not shared.'
+          });
+        }
+      }
+      const recordingStream = mixer?.stream ?? stream;
+      
       // Set up MediaRecorder with compatible format and compression
       let options: MediaRecorderOptions = {
-        // Low bitrate for voice is sufficient (8-16kbps is typical for voice)
-        audioBitsPerSecond: 16000
+        audioBitsPerSecond: profile.audioBitsPerSecond
       };
       
       if (isIOS || isSafari) {
@@ -267,49 +730,37 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
         }
       }
       
-      const recorder = new MediaRecorder(stream, options);
-      
-      recorder.addEventListener('dataavailable', (event) => {
-        if (event.data.size > 0) {
-          console.log(`🎙️ RecordingStore: Received data chunk of size ${event.data.size} bytes`);
-          const currentState = get();
-          set({ 
-            recordedChunksInternal: [...currentState.recordedChunksInternal, event.data],
-            recordedChunks: [...currentState.recordedChunks, event.data]
-          });
-        } else {
-          console.warn('🎙️ RecordingStore: Received empty data chunk');
-        }
-      });
-      
-      recorder.addEventListener('stop', () => {
-        console.log('🎙️ RecordingStore: MediaRecorder stop event fired');
-        get().handleRecordingStop();
+      set({
+        recorderOptions: options,
+        appendToNoteId: appendToNoteId ?? null,
+        audioMixer: mixer,
+        recordingSources: mixer?.sources ?? ['microphone']
       });
+      await get().startRecorderPart(recordingStream);
       
-      // Use a smaller timeslice for more frequent chunks, which helps with reliability
-      recorder.start(500);
+      // Transcribe as we go so text shows up before the recording ends
+      if (useSettingsStore.getState().liveTranscription) {
+        useLiveTranscriptionStore.getState().start(recordingStream);
+      }
       
       // Start timer
       const interval = window.setInterval(() => {
         get().updateRecordingTime();
+        get().applyRecordingRules();
       }, 1000);
       
       // Update state
       set({
-        mediaRecorderInstance: recorder,
-        audioStreamInstance: stream,
+        audioStreamInstance: recordingStream,
         timerInterval: interval,
+        silenceMonitor: createSilenceMonitor(recordingStream),
         isRecording: true,
         isPaused: false,
         isCancelled: false,
         recordingTime: 0,
-        recordingStartTime: Date.now(),
-        pausedDuration: 0,
-        pauseStartTime: 0,
-        recordedChunks: [],
-        audioStream: stream,
-        mediaRecorder: recorder
+        recordingSeries: null,
+        completedPartsDuration: 0,
+        audioStream: recordingStream
       });
       
       // No need to navigate - React Router handles this now
@@ -344,6 +795,8 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
           // For now, just mark as paused in the UI
         }
         
+        useLiveTranscriptionStore.getState().pause();
+        
         const now = Date.now();
         set({
           isPaused: true,
@@ -384,14 +837,20 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
           // For now, just update the UI state
         }
         
+        useLiveTranscriptionStore.getState().resume();
+        
         const now = Date.now();
         const additionalPausedTime = state.pauseStartTime > 0 ? now - state.pauseStartTime : 0;
         
         // Restart timer
         const interval = window.setInterval(() => {
           get().updateRecordingTime();
+          get().applyRecordingRules();
         }, 1000);
         
+        // Time spent paused doesn't count towards the silence limit
+        state.silenceMonitor?.reset();
+        
         set({
           isPaused: false,
           pausedDuration: state.pausedDuration + additionalPausedTime,
@@ -416,6 +875,15 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
       processingStatus: 'Finalizing recording...'
     });
     
+    state.silenceMonitor?.stop();
+    set({ silenceMonitor: null });
+    
+    // The clock stops now; the stream is released once the final chunk is in
+    if (state.timerInterval) {
+      clearInterval(state.timerInterval);
+      set({ timerInterval: null });
+    }
+    
     // Make sure we're not already stopped
     if (state.mediaRecorderInstance && state.mediaRecorderInstance.state !== 'inactive') {
       console.log('🎙️ RecordingStore: Stopping MediaRecorder');
@@ -469,13 +937,22 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
       state.mediaRecorderInstance.stop();
     }
     
+    useLiveTranscriptionStore.getState().reset();
     get().cleanup();
+    if (state.recordingSession) {
+      finishSession(state.recordingSession.id);
+    }
     set({
+      recordingSession: null,
       isRecording: false,
       isPaused: false,
       isCancelled: true,
       recordedChunks: [],
       recordedChunksInternal: [],
+      bookmarks: [],
+      appendToNoteId: null,
+      recordingSeries: null,
+      completedPartsDuration: 0,
       currentAudioBlob: null,
       isProcessing: false,
       processingStatus: ''
@@ -489,12 +966,17 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
       clearInterval(state.timerInterval);
     }
     
+    state.silenceMonitor?.stop();
+    
     if (state.audioStreamInstance) {
       state.audioStreamInstance.getTracks().forEach(track => track.stop());
     }
+    state.audioMixer?.stop();
     
     set({
       timerInterval: null,
+      silenceMonitor: null,
+      audioMixer: null,
       mediaRecorderInstance: null,
       audioStreamInstance: null,
       audioStream: null,
@@ -513,6 +995,10 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     
     console.log('🎙️ RecordingStore: Recording stopped, chunks collected:', state.recordedChunksInternal.length);
     
+    // The recorder has flushed its last chunk, so the mic, any shared tab and
+    // the mixer can go; otherwise the browser keeps showing them as in use
+    get().cleanup();
+    
     // If we don't have any chunks yet, try to wait a bit for them to arrive
     if (state.recordedChunksInternal.length === 0) {
       console.log('🎙️ RecordingStore: No chunks yet, waiting briefly for chunks to arrive...');
@@ -533,6 +1019,9 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     
     console.log('🎙️ RecordingStore: Creating note from recording, chunks:', state.recordedChunksInternal.length);
     
+    // Stop live transcription; its text seeds the note until the full pass lands
+    const liveTranscript = useLiveTranscriptionStore.getState().stop();
+    
     if (state.recordedChunksInternal.length === 0) {
       console.error('❌ RecordingStore: No chunks to process');
       set({
@@ -543,35 +1032,18 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     }
 
     try {
-      const now = Date.now();
-      const noteId = now.toString();
-      
-      // Determine the correct MIME type based on browser
-      const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
-      const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
-      
-      // Select appropriate MIME type for the blob
-      let mimeType = 'audio/webm';
-      let fileExtension = 'webm';
-      
-      if (isIOS || isSafari) {
-        if (MediaRecorder.isTypeSupported('audio/mp4')) {
-          mimeType = 'audio/mp4';
-          fileExtension = 'mp4';
-        } else if (MediaRecorder.isTypeSupported('audio/aac')) {
-          mimeType = 'audio/aac';
-          fileExtension = 'aac';
-        }
-      }
-      
-      console.log(`🎙️ RecordingStore: Creating blob with MIME type ${mimeType}`);
-      
-      // Create audio blob with the appropriate MIME type
-      const audioBlob = new Blob(state.recordedChunksInternal, { type: mimeType });
-      console.log(`🎙️ RecordingStore: Created blob of size ${audioBlob.size} bytes`);
+      const noteId = await saveRecording({
+        chunks: state.recordedChunksInternal,
+        duration: get().calculateFinalDuration(),
+        session: state.recordingSession,
+        bookmarks: state.bookmarks,
+        liveTranscript,
+        appendToNoteId: state.appendToNoteId,
+        series: state.recordingSeries,
+        sources: state.recordingSources
+      });
       
-      if (audioBlob.size < 100) {
-        console.error('❌ RecordingStore: Audio blob is too small, likely no audio was recorded');
+      if (!noteId) {
         set({
           isProcessing: false,
           processingStatus: 'Error: Recording failed'
@@ -579,39 +1051,15 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
         return;
       }
       
-      // Calculate duration
-      const actualDuration = get().calculateFinalDuration();
-      console.log(`🎙️ RecordingStore: Recording duration: ${actualDuration} seconds`);
-      
-      // Save audio with appropriate file extension
-      const audioFileName = `recording_${noteId}.${fileExtension}`;
-      const audioUrl = await audioStorage.saveAudio(audioBlob, audioFileName);
-      console.log(`🎙️ RecordingStore: Saved audio to ${audioUrl}`);
-      
-      // Create note
-      const newNote = {
-        id: noteId,
-        title: 'Voice Recording',
-        content: '',
-        audioUrl,
-        duration: actualDuration,
-        createdAt: now,
-        updatedAt: now,
-        created: now,
-        lastEdited: now,
-        versions: [],
-        tags: []
-      };
-      
-      // Add to notes store
-      const { useNotesStore } = await import('./notesStore');
-      useNotesStore.getState().addNote(newNote);
-      console.log(`🎙️ RecordingStore: Added note to store with ID ${noteId}`);
-      
       // Reset processing state
       set({
+        recordingSession: null,
         isProcessing: false,
-        processingStatus: ''
+        processingStatus: '',
+        bookmarks: [],
+        appendToNoteId: null,
+        recordingSeries: null,
+        completedPartsDuration: 0
       });
       
       // Use React Router for navigation without page reload
@@ -633,9 +1081,6 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
         console.error('❌ RecordingStore: Error navigating with history API:', error);
       }
       
-      // Start transcription
-      await get().startTranscription(audioBlob, noteId);
-      
     } catch (error) {
       console.error('❌ RecordingStore: Error creating note:', error);
       set({
@@ -645,18 +1090,129 @@ export const useRecordingStore = create<RecordingState>((set, get) => ({
     }
   },
   
-  startTranscription: async (audioBlob: Blob, noteId: string) => {
+  startTranscription: async (audioUrl: string, noteId: string, hasLiveTranscript = false, clipId?: string) => {
     try {
-      const audioBuffer = await audioBlob.arrayBuffer();
-      const audioContext = new AudioContext({ sampleRate: 16000 });
-      const audioData = await audioContext.decodeAudioData(audioBuffer);
-      
-      // Use the transcription store - it handles its own processing state
+      // Queue against the stored audio so the job survives a page reload.
+      // A live transcript stays in place until the full pass replaces it.
       const { useTranscriptionStore } = await import('./transcriptionStore');
-      useTranscriptionStore.getState().startTranscription(audioData, noteId);
+      await useTranscriptionStore.getState().enqueueTranscription(noteId, audioUrl, {
+        progressiveUpdates: !hasLiveTranscript && !clipId,
+        clipId
+      });
       
     } catch (error) {
       console.error('❌ RecordingStore: Error starting transcription:', error);
     }
+  },
+  
+  checkForUnfinishedRecordings: async () => {
+    try {
+      const sessions = await recordingSessionStorage.getAllSessions();
+      const currentId = get().recordingSession?.id;
+      const unfinished = sessions.filter(session =>
+        session.id !== currentId && Date.now() - session.updatedAt > STALE_SESSION_MS
+      );
+
+      // Sessions that never received audio have nothing to recover
+      unfinished
+        .filter(session => session.chunkCount === 0)
+        .forEach(session => finishSession(session.id));
+
+      const recoverableSessions = unfinished
+        .filter(session => session.chunkCount > 0)
+        .sort((a, b) => b.startedAt - a.startedAt);
+      if (recoverableSessions.length > 0) {
+        console.log(`🎙️ RecordingStore: Found ${recoverableSessions.length} unfinished recording(s)`);
+      }
+      set({ recoverableSessions });
+    } catch (error) {
+      console.error('❌ RecordingStore: Failed to check for unfinished recordings:', error);
+    }
+  },
+  
+  recoverRecording: async (sessionId) => {
+    const session = get().recoverableSessions.find(s => s.id === sessionId);
+    if (!session) return null;
+
+    try {
+      const chunks = await recordingSessionStorage.getChunks(sessionId);
+      const audioBlob = new Blob(chunks, { type: session.mimeType });
+      if (audioBlob.size < 100) {
+        console.warn('⚠️ RecordingStore: Unfinished recording has no usable audio, discarding');
+        await get().discardRecording(sessionId);
+        return null;
+      }
+
+      const { useNotesStore } = await import('./notesStore');
+      const targetNote = session.appendToNoteId ? useNotesStore.getState().getNoteById(session.appendToNoteId) : undefined;
+
+      // An interrupted "record more" goes back into the note it was adding to
+      if (targetNote) {
+        const clipId = session.id;
+        const audioUrl = await audioStorage.saveAudio(
+          audioBlob,
+          `recording_${targetNote.id}_${clipId}.${session.fileExtension}`,
+          session.mimeType
+        );
+        useNotesStore.getState().addClip(
+          targetNote.id,
+          { id: clipId, audioUrl, duration: session.duration, recordedAt: session.startedAt, recordingSources: session.sources },
+          (session.bookmarks ?? []).map(bookmark => ({ ...bookmark, clipId }))
+        );
+        console.log(`🎙️ RecordingStore: Recovered recording into note ${targetNote.id} as clip ${clipId}`);
+
+        await recordingSessionStorage.deleteSession(sessionId);
+        set((state) => ({
+          recoverableSessions: state.recoverableSessions.filter(s => s.id !== sessionId)
+        }));
+
+        await get().startTranscription(audioUrl, targetNote.id, false, clipId);
+        return targetNote.id;
+      }
+
+      const audioUrl = await audioStorage.saveAudio(
+        audioBlob,
+        `recording_${session.id}.${session.fileExtension}`,
+        session.mimeType
+      );
+
+      const noteId = session.id;
+      useNotesStore.getState().addNote({
+        id: noteId,
+        title: 'Recovered Recording',
+        content: '',
+        audioUrl,
+        duration: session.duration,
+        bookmarks: session.bookmarks?.length ? session.bookmarks : undefined,
+        recordingSources: session.sources,
+        createdAt: session.startedAt,
+        updatedAt: Date.now(),
+        created: session.startedAt,
+        lastEdited: Date.now(),
+        versions: [],
+        tags: []
+      });
+      console.log(`🎙️ RecordingStore: Recovered recording into note ${noteId}`);
+
+      await recordingSessionStorage.deleteSession(sessionId);
+      set((state) => ({
+        recoverableSessions: state.recoverableSessions.filter(s => s.id !== sessionId)
+      }));
+
+      await get().startTranscription(audioUrl, noteId);
+      return noteId;
+    } catch (error) {
+      console.error('❌ RecordingStore: Failed to recover recording:', error);
+      return null;
+    }
+  },
+  
+  discardRecording: async (sessionId) => {
+    await recordingSessionStorage.deleteSession(sessionId).catch(error => {
+      console.error('❌ RecordingStore: Failed to discard recording:', error);
+    });
+    set((state) => ({
+      recoverableSessions: state.recoverableSessions.filter(s => s.id !== sessionId)
+    }));
   }
 }));
\ No newline at end of file
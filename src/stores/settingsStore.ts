@@ -1,8 +1,54 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import Constants from '../utils/Constants';
+import type { SttProviderId } from '../services/stt/types';
+import type { DiarizationMode } from '../services/diarizationService';
+import { AudioSourceKind, DEFAULT_RECORDING_PROFILE, DEFAULT_SOURCE_GAINS, RecordingProfileId, RecordingSourceMode, SourceGains } from '../utils/recordingProfiles';
+import { DEFAULT_STORAGE_QUALITY, StorageQuality } from '../utils/audioTranscoder';
 import { downloadSettings as exportSettingsUtil, importSettings as importSettingsUtil, resetSettings as resetSettingsUtil, clearAllData as clearAllDataUtil } from '../utils/settingsExporter';
 
+export interface OpenAICompatibleSttSettings {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface DiarizationSettings {
+  mode: DiarizationMode;
+  url: string;
+  apiKey: string;
+}
+
+// How finished transcripts are laid out in the note
+export interface TranscriptFormattingSettings {
+  enabled: boolean;
+  // Start a new paragraph after a pause at least this long
+  paragraphPauseSeconds: number;
+  // Capitalize sentences and tidy spacing around punctuation
+  normalizeText: boolean;
+  // Insert a timestamp heading every N minutes, 0 turns them off
+  timestampHeadingMinutes: number;
+}
+
+// Safety limits for long recordings; 0 turns a rule off
+export interface RecordingRules {
+  // Stop once the recording reaches this many minutes
+  maxDurationMinutes: number;
+  // Stop after this many minutes without sound
+  silenceStopMinutes: number;
+  // Save the recording as a new linked note every N minutes
+  splitEveryMinutes: number;
+}
+
+// Find→replace rule applied to finished transcripts
+export interface CorrectionRule {
+  id: string;
+  find: string;
+  replace: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  enabled: boolean;
+}
+
 interface SettingsState {
   // Transcriber settings
   model: string;
@@ -10,19 +56,71 @@ interface SettingsState {
   quantized: boolean;
   subtask: string;
   language: string;
+  // Also keep an English translation of non-English recordings
+  keepEnglishTranslation: boolean;
   
-  // OpenAI STT settings
-  useOpenAIForSTT: boolean;
+  // Speech-to-text providers, in fallback order
+  sttProviderOrder: SttProviderId[];
+  sttOpenAICompatible: OpenAICompatibleSttSettings;
   openAIModel: string;
   
+  // Transcription queue settings
+  maxConcurrentTranscriptions: number;
+  liveTranscription: boolean;
+  // Only send detected speech to providers, skipping long silences
+  voiceActivityDetection: boolean;
+  saveTrimmedAudio: boolean;
+  
+  // Speaker detection
+  diarization: DiarizationSettings;
+  
+  // Custom vocabulary
+  vocabulary: string[];
+  correctionRules: CorrectionRule[];
+  
+  // Paragraphs, capitalization and timestamp headings
+  transcriptFormatting: TranscriptFormattingSettings;
+  
+  // Recording input; an empty device id means the system default
+  recordingProfile: RecordingProfileId;
+  inputDeviceId: string;
+  recordingSourceMode: RecordingSourceMode;
+  sourceGains: SourceGains;
+  recordingRules: RecordingRules;
+  
+  // MP3 quality uncompressed audio is stored at
+  audioStorageQuality: StorageQuality;
+  
+  // Playback jumps over the silent stretches of a recording
+  skipSilence: boolean;
+  
   // Actions
   setModel: (model: string) => void;
   setMultilingual: (multilingual: boolean) => void;
   setQuantized: (quantized: boolean) => void;
   setSubtask: (subtask: string) => void;
   setLanguage: (language: string) => void;
-  setUseOpenAIForSTT: (useOpenAI: boolean) => void;
+  setKeepEnglishTranslation: (enabled: boolean) => void;
+  setSttProviderOrder: (order: SttProviderId[]) => void;
+  setSttOpenAICompatible: (settings: Partial<OpenAICompatibleSttSettings>) => void;
   setOpenAIModel: (model: string) => void;
+  setMaxConcurrentTranscriptions: (max: number) => void;
+  setLiveTranscription: (enabled: boolean) => void;
+  setVoiceActivityDetection: (enabled: boolean) => void;
+  setSaveTrimmedAudio: (enabled: boolean) => void;
+  setDiarization: (settings: Partial<DiarizationSettings>) => void;
+  setVocabulary: (terms: string[]) => void;
+  addCorrectionRule: (rule: Omit<CorrectionRule, 'id'>) => void;
+  updateCorrectionRule: (id: string, updates: Partial<CorrectionRule>) => void;
+  removeCorrectionRule: (id: string) => void;
+  setTranscriptFormatting: (settings: Partial<TranscriptFormattingSettings>) => void;
+  setRecordingProfile: (profile: RecordingProfileId) => void;
+  setInputDeviceId: (deviceId: string) => void;
+  setRecordingSourceMode: (mode: RecordingSourceMode) => void;
+  setSourceGain: (source: AudioSourceKind, gain: number) => void;
+  setRecordingRules: (rules: Partial<RecordingRules>) => void;
+  setAudioStorageQuality: (quality: StorageQuality) => void;
+  setSkipSilence: (enabled: boolean) => void;
   
   // Complex actions
   updateModelSettings: (settings: Partial<SettingsState>) => void;
@@ -43,8 +141,41 @@ export const useSettingsStore = create<SettingsState>()(
       quantized: Constants.DEFAULT_QUANTIZED,
       subtask: Constants.DEFAULT_SUBTASK,
       language: Constants.DEFAULT_LANGUAGE,
-      useOpenAIForSTT: true, // default to true
+      keepEnglishTranslation: false,
+      sttProviderOrder: ['openai-compatible', 'local-whisper'],
+      sttOpenAICompatible: {
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: ''
+      },
+      vocabulary: [],
+      correctionRules: [],
+      transcriptFormatting: {
+        enabled: true,
+        paragraphPauseSeconds: 2,
+        normalizeText: true,
+        timestampHeadingMinutes: 0
+      },
+      recordingProfile: DEFAULT_RECORDING_PROFILE,
+      inputDeviceId: '',
+      recordingSourceMode: 'microphone',
+      sourceGains: DEFAULT_SOURCE_GAINS,
+      recordingRules: {
+        maxDurationMinutes: 0,
+        silenceStopMinutes: 0,
+        splitEveryMinutes: 0
+      },
+      audioStorageQuality: DEFAULT_STORAGE_QUALITY,
+      skipSilence: false,
       openAIModel: 'whisper-1', // default OpenAI STT model
+      maxConcurrentTranscriptions: 1,
+      liveTranscription: false,
+      voiceActivityDetection: true,
+      saveTrimmedAudio: false,
+      diarization: {
+        mode: 'off',
+        url: '',
+        apiKey: ''
+      },
       
       // Simple setters
       setModel: (model) => {
@@ -58,8 +189,48 @@ export const useSettingsStore = create<SettingsState>()(
       setQuantized: (quantized) => set({ quantized }),
       setSubtask: (subtask) => set({ subtask }),
       setLanguage: (language) => set({ language }),
-      setUseOpenAIForSTT: (useOpenAIForSTT) => set({ useOpenAIForSTT }),
+      setKeepEnglishTranslation: (keepEnglishTranslation) => set({ keepEnglishTranslation }),
+      setSttProviderOrder: (sttProviderOrder) => set({ sttProviderOrder }),
+      setSttOpenAICompatible: (settings) => set((state) => ({
+        sttOpenAICompatible: { ...state.sttOpenAICompatible, ...settings }
+      })),
       setOpenAIModel: (openAIModel) => set({ openAIModel }),
+      setMaxConcurrentTranscriptions: (max) => set({ maxConcurrentTranscriptions: Math.max(1, Math.floor(max)) }),
+      setLiveTranscription: (liveTranscription) => set({ liveTranscription }),
+      setVoiceActivityDetection: (voiceActivityDetection) => set({ voiceActivityDetection }),
+      setSaveTrimmedAudio: (saveTrimmedAudio) => set({ saveTrimmedAudio }),
+      setDiarization: (settings) => set((state) => ({
+        diarization: { ...state.diarization, ...settings }
+      })),
+      setVocabulary: (terms) => set({
+        // Trimmed and de-duplicated, keeping the user's order
+        vocabulary: [...new Set(terms.map(term => term.trim()).filter(Boolean))]
+      }),
+      addCorrectionRule: (rule) => set((state) => ({
+        correctionRules: [...state.correctionRules, { ...rule, id: Date.now().toString() }]
+      })),
+      updateCorrectionRule: (id, updates) => set((state) => ({
+        correctionRules: state.correctionRules.map(rule =>
+          rule.id === id ? { ...rule, ...updates } : rule
+        )
+      })),
+      removeCorrectionRule: (id) => set((state) => ({
+        correctionRules: state.correctionRules.filter(rule => rule.id !== id)
+      })),
+      setTranscriptFormatting: (settings) => set((state) => ({
+        transcriptFormatting: { ...state.transcriptFormatting, ...settings }
+      })),
+      setRecordingProfile: (recordingProfile) => set({ recordingProfile }),
+      setInputDeviceId: (inputDeviceId) => set({ inputDeviceId }),
+      setRecordingSourceMode: (recordingSourceMode) => set({ recordingSourceMode }),
+      setSourceGain: (source, gain) => set((state) => ({
+        sourceGains: { ...state.sourceGains, [source]: gain }
+      })),
+      setRecordingRules: (rules) => set((state) => ({
+        recordingRules: { ...state.recordingRules, ...rules }
+      })),
+      setAudioStorageQuality: (audioStorageQuality) => set({ audioStorageQuality }),
+      setSkipSilence: (skipSilence) => set({ skipSilence }),
       
       // Complex actions
       updateModelSettings: (settings) => set((state) => ({
@@ -105,8 +276,24 @@ export const useSettingsStore = create<SettingsState>()(
     }),
     {
       name: 'settings-store',
-      version: 0,
-      migrate: (persistedState: any) => persistedState
+      version: 1,
+      migrate: (persistedState: any, version) => {
+        if (version < 1 && persistedState) {
+          // The OpenAI toggle became a provider fallback order
+          const { useOpenAIForSTT, ...rest } = persistedState;
+          return {
+            ...rest,
+            sttProviderOrder: useOpenAIForSTT === false
+              ? ['local-whisper']
+              : ['openai-compatible', 'local-whisper'],
+            sttOpenAICompatible: {
+              baseUrl: 'https://api.openai.com/v1',
+              apiKey: ''
+            }
+          };
+        }
+        return persistedState;
+      }
     }
   )
 );
\ No newline at end of file
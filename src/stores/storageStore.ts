@@ -0,0 +1,211 @@
+import { create } from 'zustand';
+import { toast } from '@/hooks/use-toast';
+import { audioStorage } from '../utils/audioStorage';
+import { listCachedModels } from '../utils/modelCache';
+import {
+  AudioIntegrityReport,
+  checkAudioIntegrity,
+  getLocalStorageUsage,
+  getNoteAudioSizes,
+  getStorageEstimate,
+  isStoragePersisted,
+  requestPersistentStorage,
+  StorageEstimate
+} from '../utils/storageUsage';
+import { useNotesStore } from './notesStore';
+
+// Share of the quota at which to start warning, and to warn urgently
+const WARN_USAGE_RATIO = 0.8;
+const CRITICAL_USAGE_RATIO = 0.95;
+// Notes persist to localStorage, which browsers cap at about 5 MB on its own
+const LOCAL_STORAGE_WARN_BYTES = 4 * 1024 * 1024;
+
+export interface StorageBreakdown {
+  audio: number;
+  notes: number;
+  models: number;
+  // Whatever the estimate counts beyond the above: waveforms, unfinished
+  // recordings, database overhead
+  other: number;
+}
+
+interface StorageState {
+  estimate: StorageEstimate | null;
+  persisted: boolean;
+  breakdown: StorageBreakdown | null;
+  // Stored audio bytes by note id
+  noteAudioSizes: Record<string, number>;
+  integrity: AudioIntegrityReport | null;
+  isScanning: boolean;
+
+  // Actions
+  refresh: () => Promise<void>;
+  requestPersistence: () => Promise<boolean>;
+  checkQuota: () => Promise<void>;
+  deleteOrphan: (id: string) => Promise<void>;
+  restoreOrphan: (id: string) => Promise<string | null>;
+  detachMissingAudio: (noteId: string, audioUrl: string) => void;
+}
+
+// Each warning level is shown once per session
+let warnedLevel: 'warning' | 'critical' | null = null;
+let warnedLocalStorage = false;
+
+export const useStorageStore = create<StorageState>((set, get) => ({
+  estimate: null,
+  persisted: false,
+  breakdown: null,
+  noteAudioSizes: {},
+  integrity: null,
+  isScanning: false,
+
+  refresh: async () => {
+    set({ isScanning: true });
+    try {
+      const [estimate, persisted, stored, models] = await Promise.all([
+        getStorageEstimate(),
+        isStoragePersisted(),
+        audioStorage.listAudio(),
+        listCachedModels().catch(() => [])
+      ]);
+      const { notes } = useNotesStore.getState();
+
+      const audio = stored.reduce((sum, item) => sum + item.size, 0);
+      const notesBytes = getLocalStorageUsage();
+      const modelBytes = models.reduce((sum, model) => sum + model.size, 0);
+      set({
+        estimate,
+        persisted,
+        breakdown: {
+          audio,
+          notes: notesBytes,
+          models: modelBytes,
+          other: Math.max(0, (estimate?.usage ?? 0) - audio - notesBytes - modelBytes)
+        },
+        noteAudioSizes: getNoteAudioSizes(notes, stored),
+        integrity: checkAudioIntegrity(notes, stored)
+      });
+    } catch (error) {
+      console.error('❌ StorageStore: Failed to inspect storage:', error);
+    } finally {
+      set({ isScanning: false });
+    }
+  },
+
+  requestPersistence: async () => {
+    try {
+      const persisted = await requestPersistentStorage();
+      set({ persisted });
+      return persisted;
+    } catch (error) {
+      console.error('❌ StorageStore: Failed to request persistent storage:', error);
+      return false;
+    }
+  },
+
+  // Warns while there is still room to export or clean up, before saves fail
+  checkQuota: async () => {
+    if (!warnedLocalStorage && getLocalStorageUsage() >= LOCAL_STORAGE_WARN_BYTES) {
+      warnedLocalStorage = true;
+      toast({
+        title: 'Notes Storage Almost Full',
+        description: 'Notes are close to the browser\'s 5 MB limit for them. Export and delete old notes to keep saving changes.',
+        variant: 'destructive'
+      });
+    }
+
+    try {
+      const estimate = await getStorageEstimate();
+      set({ estimate });
+      if (!estimate) return;
+
+      const ratio = estimate.usage / estimate.quota;
+      const percent = Math.round(ratio * 100);
+      if (ratio >= CRITICAL_USAGE_RATIO && warnedLevel !== 'critical') {
+        warnedLevel = 'critical';
+        toast({
+          title: 'Storage Almost Full',
+          description: `${percent}% of browser storage is used. New recordings may fail to save. Export or delete old recordings in Settings.`,
+          variant: 'destructive'
+        });
+      } else if (ratio >= WARN_USAGE_RATIO && !warnedLevel) {
+        warnedLevel = 'warning';
+        toast({
+          title: 'Storage Running Low',
+          description: `${percent}% of browser storage is used. Compressing or exporting recordings frees space.`
+        });
+      }
+    } catch (error) {
+      console.warn('⚠️ StorageStore: Could not check storage quota:', error);
+    }
+  },
+
+  deleteOrphan: async (id) => {
+    await audioStorage.deleteAudio(id);
+    set((state) => ({
+      integrity: state.integrity && {
+        ...state.integrity,
+        orphans: state.integrity.orphans.filter(item => item.id !== id)
+      }
+    }));
+  },
+
+  // Gives an unreferenced recording a note of its own and transcribes it
+  restoreOrphan: async (id) => {
+    const orphan = get().integrity?.orphans.find(item => item.id === id);
+    if (!orphan) return null;
+
+    const now = Date.now();
+    const noteId = now.toString();
+    const audioUrl = `audio-storage://${orphan.id}`;
+    useNotesStore.getState().addNote({
+      id: noteId,
+      title: 'Recovered Audio',
+      content: '',
+      audioUrl,
+      createdAt: orphan.timestamp,
+      updatedAt: now,
+      created: orphan.timestamp,
+      lastEdited: now,
+      versions: [],
+      tags: []
+    });
+
+    set((state) => ({
+      integrity: state.integrity && {
+        ...state.integrity,
+        orphans: state.integrity.orphans.filter(item => item.id !== id)
+      }
+    }));
+
+    const { useTranscriptionStore } = await import('./transcriptionStore');
+    await useTranscriptionStore.getState().enqueueTranscription(noteId, audioUrl).catch(error => {
+      console.error('❌ StorageStore: Failed to queue transcription for recovered audio:', error);
+    });
+    return noteId;
+  },
+
+  // Keeps the note and its text, dropping only the link to audio that's gone
+  detachMissingAudio: (noteId, audioUrl) => {
+    const notesStore = useNotesStore.getState();
+    const note = notesStore.getNoteById(noteId);
+    if (!note) return;
+
+    const isPrimary = note.audioUrl === audioUrl;
+    notesStore.updateNote({
+      ...note,
+      audioUrl: isPrimary ? undefined : note.audioUrl,
+      duration: isPrimary ? undefined : note.duration,
+      trimmedAudio: note.trimmedAudio?.url === audioUrl ? undefined : note.trimmedAudio,
+      clips: note.clips?.filter(clip => clip.audioUrl !== audioUrl),
+      originalAudio: note.originalAudio?.audioUrl === audioUrl ? undefined : note.originalAudio
+    });
+
+    set((state) => ({
+      integrity: state.integrity && {
+        ...state.integrity,
+        missing: state.integrity.missing.filter(item => item.noteId !== noteId || item.audioUrl !== audioUrl)
+      }
+    }));
+  }
+}));
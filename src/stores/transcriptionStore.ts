@@ -1,10 +1,40 @@
 import { create } from 'zustand';
 import { useSettingsStore } from './settingsStore';
-import { useNotesStore } from './notesStore';
+import { NoteTranslation, TranscriptSegment, useNotesStore } from './notesStore';
 import { useAgentsStore } from './agentsStore';
-import { useLLMProvidersStore } from './llmProvidersStore';
 import { generateSmartTitle } from '../utils/titleGenerator';
-import { audioStorage, isStorageUrl, resolveStorageUrl } from '../utils/audioStorage';
+import { audioStorage, getStorageId, isStorageUrl } from '../utils/audioStorage';
+import { openAudioSource, truncateAudio, WindowedAudioSource } from '../utils/audioWindows';
+import {
+  detectSpeechRegions,
+  findQuietestPoint,
+  OffsetMapEntry,
+  remapSegments,
+  trimToSpeech
+} from '../utils/voiceActivity';
+import { formatSpeakerTranscript, getSpeakerIds, getSpeakerName } from '../utils/speakerTurns';
+import { assignSpeakers } from '../services/diarizationService';
+import { applyCorrectionRules, applyCorrectionsToSegments, buildVocabularyPrompt } from '../utils/transcriptCorrections';
+import { formatTranscript, normalizeSentences } from '../utils/transcriptFormatting';
+import { resolveLanguageSetting } from '../utils/languages';
+import {
+  getSttProvider,
+  getSttProviderChain,
+  shutdownLocalWhisper,
+  SttModelProgress,
+  SttProvider,
+  SttResult,
+  SttTranscribeContext,
+  TranscriptionCancelledError
+} from '../services/stt';
+import {
+  transcriptionJobStorage,
+  StoredTranscriptionJob,
+  TranscriptionCheckpoint,
+  TranscriptionJobStatus
+} from '../utils/transcriptionJobStorage';
+
+export type { TranscriptionJobStatus };
 
 export interface ProgressItem {
   file: string;
@@ -15,413 +45,685 @@ export interface ProgressItem {
   status: string;
 }
 
+export interface TranscriptionJob extends StoredTranscriptionJob {
+  // Model download progress is transient and never persisted
+  progressItems: ProgressItem[];
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  maxAttempts?: number;
+  progressiveUpdates?: boolean;
+  saveAsVersion?: boolean;
+  clipId?: string;
+}
+
+interface NoteProcessingState {
+  isProcessing: boolean;
+  status: string;
+  progressItems: ProgressItem[];
+}
+
 interface TranscriptionState {
-  // Worker state
-  worker: Worker | null;
-  isInitialized: boolean;
-  
-  // Current transcription
-  currentNoteId: string | null;
-  lastTranscription: string | null;
-  processingNotes: Map<string, { 
-    isProcessing: boolean; 
-    status: string;
-    progressItems: ProgressItem[];
-  }>;
-  
+  // Job queue
+  jobs: TranscriptionJob[];
+  isQueueLoaded: boolean;
+
+  // Derived from jobs, kept for components that read per-note status
+  processingNotes: Map<string, NoteProcessingState>;
+
   // Actions
-  initializeWorker: () => void;
-  initializeWorkerAsync: () => Promise<void>;
-  startTranscription: (audioData: AudioBuffer, noteId: string) => void;
-  startTranscriptionLocal: (audioData: AudioBuffer, noteId: string) => void;
+  loadQueue: () => Promise<void>;
+  enqueueTranscription: (noteId: string, audioUrl: string, options?: EnqueueOptions) => Promise<string>;
   startTranscriptionFromUrl: (audioUrl: string, noteId: string) => Promise<void>;
+  cancelJob: (jobId: string) => Promise<void>;
+  retryJob: (jobId: string) => Promise<void>;
+  removeJob: (jobId: string) => Promise<void>;
+  clearFinishedJobs: () => Promise<void>;
+  processQueue: () => void;
   cleanup: () => void;
-  
+
   // Status getters
   isNoteProcessing: (noteId: string) => boolean;
   getNoteProcessingStatus: (noteId: string) => string;
   getNoteProgressItems: (noteId: string) => ProgressItem[];
-  
+  getLatestJobForNote: (noteId: string) => TranscriptionJob | undefined;
+
   // Internal handlers
-  handleWorkerMessage: (event: MessageEvent) => void;
-  updateTranscription: (text: string) => void;
-  completeTranscription: (text: string) => void;
+  runJob: (jobId: string) => Promise<void>;
+  runWindowedJob: (jobId: string, source: WindowedAudioSource, providers: SttProvider[], signal: AbortSignal) => Promise<void>;
+  updateJob: (jobId: string, changes: Partial<TranscriptionJob>) => void;
+  handleModelProgress: (jobId: string, progress: SttModelProgress) => void;
+  updateTranscription: (jobId: string, text: string) => void;
+  completeTranscription: (jobId: string, result: SttResult, provider: SttProvider, translation?: NoteTranslation) => void;
 }
 
-async function transcribeWithOpenAI(audioData: AudioBuffer, noteId: string, set: any, get: any) {
-  set((state: any) => ({
-    processingNotes: new Map(state.processingNotes).set(noteId, {
-      isProcessing: true,
-      status: 'Uploading audio to OpenAI...'
-    }),
-    currentNoteId: noteId
-  }));
+const ACTIVE_STATUSES: TranscriptionJobStatus[] = ['pending', 'running'];
+const DEFAULT_MAX_ATTEMPTS = 2;
+// Below this much silence, trimming isn't worth shifting timestamps for
+const MIN_TRIM_SECONDS = 2;
+// Longer recordings are transcribed in windows of this size. Ten minutes of
+// 16 kHz WAV stays under the 25 MB upload limit of OpenAI-compatible APIs
+const TRANSCRIPTION_WINDOW_SECONDS = 10 * 60;
+// How far back from a window's end to look for a pause to cut at
+const WINDOW_CUT_SEARCH_SECONDS = 20;
+// A leftover shorter than this is not worth another window
+const MIN_WINDOW_SECONDS = 0.5;
+// Failed and cancelled jobs are kept this long so they can be retried
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 
-  try {
-    // Convert AudioBuffer to WAV Blob using robust utility
-    const wavBlob = await audioStorage.audioBufferToWAV(audioData);
-    // Get OpenAI API key from provider
-    const providers = useLLMProvidersStore.getState().getValidProviders();
-    const openai = providers.find(p => p.name.toLowerCase() === 'openai');
-    if (!openai || !openai.apiKey) throw new Error('No OpenAI API key configured');
-
-    // Prepare form data
-    const formData = new FormData();
-    formData.append('file', wavBlob, 'audio.wav');
-    formData.append('model', 'whisper-1');
-
-    // Call OpenAI Whisper API
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openai.apiKey}`
-      },
-      body: formData
+// Network and worker requests that can be aborted when a job is cancelled
+const abortControllers = new Map<string, AbortController>();
+
+const toStoredJob = (job: TranscriptionJob): StoredTranscriptionJob => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { progressItems, ...stored } = job;
+  return stored;
+};
+
+const persistJob = (job: TranscriptionJob) => {
+  transcriptionJobStorage.saveJob(toStoredJob(job)).catch(error => {
+    console.error('❌ TranscriptionStore: Failed to persist job:', error);
+  });
+};
+
+// Highest priority first, then oldest first
+const compareJobs = (a: TranscriptionJob, b: TranscriptionJob) =>
+  b.priority - a.priority || a.createdAt - b.createdAt;
+
+const deriveProcessingNotes = (jobs: TranscriptionJob[]) => {
+  const processingNotes = new Map<string, NoteProcessingState>();
+  // Oldest first so the most recent job for a note wins
+  [...jobs].sort((a, b) => a.createdAt - b.createdAt).forEach(job => {
+    const isActive = ACTIVE_STATUSES.includes(job.status);
+    const existing = processingNotes.get(job.noteId);
+    if (existing?.isProcessing && !isActive) return;
+    processingNotes.set(job.noteId, {
+      isProcessing: isActive,
+      status: job.statusText,
+      progressItems: job.progressItems
     });
-    if (!response.ok) throw new Error('OpenAI transcription failed');
-    const result = await response.json();
-    const text = result.text || '';
-
-    // Complete transcription
-    get().completeTranscription(text);
-  } catch (error: any) {
-    set((state: any) => ({
-      processingNotes: new Map(state.processingNotes).set(noteId, {
-        isProcessing: false,
-        status: `OpenAI failed: ${error.message || error}`
-      }),
-      currentNoteId: null
-    }));
-    // Fallback to local model
-    get().startTranscriptionLocal(audioData, noteId);
+  });
+  return processingNotes;
+};
+
+const appendText = (text: string, addition: string) =>
+  [text.trim(), addition.trim()].filter(Boolean).join(' ');
+
+const appendParagraph = (text: string, addition: string) =>
+  [text.trim(), addition.trim()].filter(Boolean).join('\n\n');
+
+// Moves segments from a window's timeline onto the whole recording's
+const shiftSegments = (segments: TranscriptSegment[], offset: number) =>
+  segments.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
+
+/**
+ * Lays a finished transcript out according to the formatting settings.
+ * Without segment timestamps only the text itself can be tidied.
+ */
+export function layoutTranscript(
+  text: string,
+  segments: TranscriptSegment[],
+  speakers?: Record<string, string>,
+  language?: string
+): string {
+  const { transcriptFormatting } = useSettingsStore.getState();
+  if (transcriptFormatting.enabled && segments.length > 0) {
+    return formatTranscript(segments, transcriptFormatting, speakers, language);
+  }
+  if (speakers) return formatSpeakerTranscript(segments, speakers);
+  return transcriptFormatting.enabled && transcriptFormatting.normalizeText ? normalizeSentences(text, language) : text;
+}
+
+const withJobs = (jobs: TranscriptionJob[]) => ({
+  jobs,
+  processingNotes: deriveProcessingNotes(jobs)
+});
+
+/**
+ * Runs a second pass in translate mode. A failed translation only loses the
+ * English copy, never the original transcript.
+ */
+async function translateToEnglish(
+  provider: SttProvider,
+  audioData: AudioBuffer,
+  context: SttTranscribeContext
+): Promise<NoteTranslation | undefined> {
+  try {
+    const result = await provider.transcribe(audioData, { ...context, task: 'translate' });
+    return { language: 'en', text: result.text, segments: result.segments };
+  } catch (error) {
+    if (error instanceof TranscriptionCancelledError || context.signal.aborted) throw error;
+    console.warn(`⚠️ TranscriptionStore: ${provider.name} translation failed:`, error);
+    return undefined;
+  }
+}
+
+// Stores the silence-trimmed audio next to the original recording
+async function saveTrimmedCopy(noteId: string, buffer: AudioBuffer) {
+  try {
+    const notesStore = useNotesStore.getState();
+    const previous = notesStore.getNoteById(noteId)?.trimmedAudio;
+
+    const wavBlob = await audioStorage.audioBufferToWAV(buffer);
+    const url = await audioStorage.saveAudio(wavBlob, `${noteId}-trimmed-${Date.now()}.wav`, 'audio/wav');
+
+    const note = notesStore.getNoteById(noteId);
+    if (!note) return;
+    notesStore.updateNote({ ...note, trimmedAudio: { url, duration: buffer.duration } });
+
+    if (previous && isStorageUrl(previous.url)) {
+      await audioStorage.deleteAudio(getStorageId(previous.url));
+    }
+  } catch (error) {
+    console.warn('⚠️ TranscriptionStore: Failed to save trimmed audio:', error);
   }
 }
 
 export const useTranscriptionStore = create<TranscriptionState>((set, get) => ({
-  worker: null,
-  isInitialized: false,
-  currentNoteId: null,
-  lastTranscription: null,
+  jobs: [],
+  isQueueLoaded: false,
   processingNotes: new Map(),
-  
-  initializeWorker: () => {
-    const state = get();
-    if (state.worker) return;
 
-    console.log('🎯 TranscriptionStore: Initializing worker');
-    
+  // Restore jobs persisted by a previous session and resume pending work
+  loadQueue: async () => {
+    if (get().isQueueLoaded) return;
+
     try {
-      const worker = new Worker(new URL("../worker.js", import.meta.url), {
-        type: "module",
-      });
+      const storedJobs = await transcriptionJobStorage.getAllJobs();
+      const notesStore = useNotesStore.getState();
+      const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+      // Finished jobs for deleted notes, or old enough to be forgotten, go
+      const staleJobs = storedJobs.filter(job =>
+        !ACTIVE_STATUSES.includes(job.status) && (!notesStore.getNoteById(job.noteId) || job.updatedAt < cutoff)
+      );
+      await Promise.all(staleJobs.map(job => transcriptionJobStorage.deleteJob(job.id).catch(() => {})));
+      const staleIds = new Set(staleJobs.map(job => job.id));
 
-      worker.addEventListener("message", get().handleWorkerMessage);
-      
-      set({ 
-        worker, 
-        isInitialized: true 
+      const restoredJobs: TranscriptionJob[] = storedJobs.filter(job => !staleIds.has(job.id)).map(job => {
+        // Jobs that were running when the page unloaded run again, long ones
+        // from their last checkpoint
+        if (job.status === 'running') {
+          const restored = { ...job, status: 'pending' as const, statusText: 'Queued (resumed)', progressItems: [] };
+          persistJob(restored);
+          return restored;
+        }
+        return { ...job, progressItems: [] };
       });
-      
-      console.log('🎯 TranscriptionStore: Worker initialized successfully');
+
+      const knownIds = new Set(restoredJobs.map(job => job.id));
+      set((state) => ({
+        ...withJobs([...restoredJobs, ...state.jobs.filter(job => !knownIds.has(job.id))]),
+        isQueueLoaded: true
+      }));
+
+      console.log(`🎯 TranscriptionStore: Restored ${restoredJobs.length} queued jobs, pruned ${staleJobs.length}`);
     } catch (error) {
-      console.error('❌ TranscriptionStore: Failed to initialize worker:', error);
-      set({ isInitialized: false });
+      console.error('❌ TranscriptionStore: Failed to load job queue:', error);
+      set({ isQueueLoaded: true });
     }
+
+    get().processQueue();
   },
-  
-  // Async version of initializeWorker that returns a promise
-  initializeWorkerAsync: async () => {
-    return new Promise<void>((resolve, reject) => {
-      const state = get();
-      if (state.worker && state.isInitialized) {
-        resolve();
-        return;
-      }
 
-      console.log('🎯 TranscriptionStore: Initializing worker asynchronously');
-      
-      try {
-        const worker = new Worker(new URL("../worker.js", import.meta.url), {
-          type: "module",
-        });
+  enqueueTranscription: async (noteId, audioUrl, options = {}) => {
+    const now = Date.now();
+    const job: TranscriptionJob = {
+      id: `${noteId}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      noteId,
+      audioUrl,
+      priority: options.priority ?? 0,
+      status: 'pending',
+      statusText: 'Queued',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      progressiveUpdates: options.progressiveUpdates ?? true,
+      saveAsVersion: options.saveAsVersion,
+      clipId: options.clipId,
+      createdAt: now,
+      updatedAt: now,
+      progressItems: []
+    };
 
-        // Set up message handler
-        worker.addEventListener("message", get().handleWorkerMessage);
-        
-        // Set up error handler
-        worker.addEventListener("error", (event) => {
-          console.error('❌ TranscriptionStore: Worker error:', event);
-          reject(new Error(`Worker error: ${event.message}`));
-        });
-        
-        set({ 
-          worker, 
-          isInitialized: true 
-        });
-        
-        console.log('🎯 TranscriptionStore: Worker initialized successfully');
-        resolve();
-      } catch (error) {
-        console.error('❌ TranscriptionStore: Failed to initialize worker:', error);
-        set({ isInitialized: false });
-        reject(error);
-      }
+    console.log('🎯 TranscriptionStore: Enqueued job', job.id, 'for note', noteId);
+
+    set((state) => withJobs([...state.jobs, job]));
+    await transcriptionJobStorage.saveJob(toStoredJob(job)).catch(error => {
+      console.error('❌ TranscriptionStore: Failed to persist job:', error);
     });
+
+    get().processQueue();
+    return job.id;
   },
-  
-  isNoteProcessing: (noteId: string) => {
-    const state = get();
-    return state.processingNotes.get(noteId)?.isProcessing || false;
+
+  startTranscriptionFromUrl: async (audioUrl: string, noteId: string) => {
+    console.log('🎯 TranscriptionStore: Starting transcription from URL:', audioUrl);
+    // User-initiated transcriptions jump ahead of background work
+    await get().enqueueTranscription(noteId, audioUrl, { priority: 1 });
   },
-  
-  getNoteProcessingStatus: (noteId: string) => {
-    const state = get();
-    return state.processingNotes.get(noteId)?.status || '';
+
+  cancelJob: async (jobId) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return;
+
+    console.log('🎯 TranscriptionStore: Cancelling job', jobId);
+
+    if (job.status === 'running') {
+      abortControllers.get(jobId)?.abort();
+    }
+
+    get().updateJob(jobId, { status: 'cancelled', statusText: 'Cancelled', progressItems: [] });
+    get().processQueue();
   },
 
-  getNoteProgressItems: (noteId: string) => {
-    const state = get();
-    return state.processingNotes.get(noteId)?.progressItems || [];
+  retryJob: async (jobId) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || ACTIVE_STATUSES.includes(job.status)) return;
+
+    get().updateJob(jobId, {
+      status: 'pending',
+      statusText: 'Queued',
+      attempts: 0,
+      error: undefined
+    });
+    get().processQueue();
   },
-  
-  handleWorkerMessage: (event: MessageEvent) => {
-    const message = event.data;
-    const state = get();
-    const noteId = state.currentNoteId;
-    
-    if (!noteId) return;
 
-    switch (message.status) {
-      case "initiate":
-        set((state) => {
-          const existing = state.processingNotes.get(noteId)?.progressItems || [];
-          return {
-            processingNotes: new Map(state.processingNotes).set(noteId, {
-              isProcessing: true,
-              status: 'Loading model files...',
-              progressItems: [
-                ...existing.filter(item => item.file !== message.file),
-                {
-                  file: message.file,
-                  progress: 0,
-                  status: 'Starting...'
-                }
-              ]
-            })
-          };
-        });
-        break;
-        
-      case "progress":
-        set((state) => {
-          const existing = state.processingNotes.get(noteId)?.progressItems || [];
-          return {
-            processingNotes: new Map(state.processingNotes).set(noteId, {
-              isProcessing: true,
-              status: 'Loading model files...',
-              progressItems: existing.map(item => 
-                item.file === message.file 
-                  ? { ...item, progress: Math.round(message.progress) }
-                  : item
-              )
-            })
-          };
-        });
-        break;
-        
-      case "ready":
-        set((state) => ({
-          processingNotes: new Map(state.processingNotes).set(noteId, {
-            isProcessing: true,
-            status: 'Model loaded, starting transcription...',
-            progressItems: state.processingNotes.get(noteId)?.progressItems.map(item => ({
-              ...item,
-              progress: 100,
-              status: 'Complete'
-            })) || []
-          })
-        }));
-        break;
-        
-      case "update":
-        set((state) => ({
-          processingNotes: new Map(state.processingNotes).set(noteId, {
-            isProcessing: true,
-            status: 'Transcribing...',
-            progressItems: state.processingNotes.get(noteId)?.progressItems || []
-          })
-        }));
-        if (message.data && message.data[0]) {
-          get().updateTranscription(message.data[0]);
-        }
-        break;
+  removeJob: async (jobId) => {
+    await get().cancelJob(jobId);
+    set((state) => withJobs(state.jobs.filter(job => job.id !== jobId)));
+    await transcriptionJobStorage.deleteJob(jobId).catch(error => {
+      console.error('❌ TranscriptionStore: Failed to delete job:', error);
+    });
+  },
 
-      case "complete":
-        if (message.data && message.data.text) {
-          get().completeTranscription(message.data.text);
-        }
-        break;
+  clearFinishedJobs: async () => {
+    const finished = get().jobs.filter(job => !ACTIVE_STATUSES.includes(job.status));
+    set((state) => withJobs(state.jobs.filter(job => ACTIVE_STATUSES.includes(job.status))));
+    await Promise.all(finished.map(job => transcriptionJobStorage.deleteJob(job.id).catch(() => {})));
+  },
 
-      case "error":
-        console.error('❌ TranscriptionStore: Worker error:', message.data);
-        set((state) => ({
-          processingNotes: new Map(state.processingNotes).set(noteId, {
-            isProcessing: false,
-            status: 'Transcription failed',
-            progressItems: []
-          }),
-          currentNoteId: null
-        }));
-        break;
-    }
+  processQueue: () => {
+    const { jobs } = get();
+    const maxConcurrent = Math.max(1, useSettingsStore.getState().maxConcurrentTranscriptions || 1);
+    const runningCount = jobs.filter(job => job.status === 'running').length;
+    const available = maxConcurrent - runningCount;
+    if (available <= 0) return;
+
+    const runningNotes = new Set(jobs.filter(job => job.status === 'running').map(job => job.noteId));
+    const nextJobs = jobs
+      .filter(job => job.status === 'pending' && !runningNotes.has(job.noteId))
+      .sort(compareJobs)
+      // Never run two jobs for the same note at once
+      .filter((job, index, pending) => pending.findIndex(j => j.noteId === job.noteId) === index)
+      .slice(0, available);
+
+    nextJobs.forEach(job => {
+      get().updateJob(job.id, { status: 'running', statusText: 'Loading audio...', attempts: job.attempts + 1 });
+      get().runJob(job.id);
+    });
   },
-  
-  startTranscriptionFromUrl: async (audioUrl: string, noteId: string) => {
-    console.log('🎯 TranscriptionStore: Starting transcription from URL:', audioUrl);
-    
-    set((state) => ({
-      processingNotes: new Map(state.processingNotes).set(noteId, {
-        isProcessing: true,
-        status: 'Loading audio...',
-        progressItems: []
-      }),
-      currentNoteId: noteId
-    }));
-    
+
+  runJob: async (jobId) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    const isCurrent = () => get().jobs.find(j => j.id === jobId)?.status === 'running';
+    const controller = new AbortController();
+    abortControllers.set(jobId, controller);
+
     try {
-      // Resolve storage URL if needed
-      let resolvedUrl = audioUrl;
-      if (isStorageUrl(audioUrl)) {
-        const resolved = await resolveStorageUrl(audioUrl);
-        if (!resolved) {
-          throw new Error('Failed to resolve audio URL');
+      const source = await openAudioSource(job.audioUrl);
+      if (!isCurrent()) return;
+
+      const providers = getSttProviderChain();
+      if (providers.length === 0) {
+        throw new Error('No speech-to-text provider is available');
+      }
+
+      // Long recordings are transcribed a window at a time and checkpointed
+      if (source.duration > TRANSCRIPTION_WINDOW_SECONDS || job.checkpoint) {
+        await get().runWindowedJob(jobId, source, providers, controller.signal);
+        return;
+      }
+
+      const audioData = await source.read(0, source.duration);
+      if (!isCurrent()) return;
+
+      const settings = useSettingsStore.getState();
+
+      // Send only speech to the providers; the offset map puts timestamps
+      // back on the original recording's timeline
+      let speechAudio = audioData;
+      let offsetMap: OffsetMapEntry[] = [];
+      if (settings.voiceActivityDetection) {
+        get().updateJob(jobId, { statusText: 'Detecting speech...' });
+        const regions = detectSpeechRegions(audioData);
+        // Quiet or low-gain recordings can fool the detector, so when it
+        // finds nothing the provider gets the untrimmed audio instead
+        const trimmed = regions.length > 0 ? trimToSpeech(audioData, regions) : null;
+        if (!trimmed) {
+          console.log('🔇 TranscriptionStore: No speech detected, transcribing untrimmed audio for job', jobId);
+        } else if (trimmed.removedSeconds >= MIN_TRIM_SECONDS) {
+          console.log(`✂️ TranscriptionStore: Skipping ${Math.round(trimmed.removedSeconds)}s of silence`);
+          speechAudio = trimmed.buffer;
+          offsetMap = trimmed.offsetMap;
+          if (settings.saveTrimmedAudio && !job.clipId) {
+            await saveTrimmedCopy(job.noteId, trimmed.buffer);
+          }
         }
-        resolvedUrl = resolved.url;
       }
-      
-      // Fetch and decode audio
-      const response = await fetch(resolvedUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch audio: ${response.statusText}`);
+
+      const prompt = buildVocabularyPrompt(settings.vocabulary);
+      const language = resolveLanguageSetting(settings.language);
+      const task = settings.subtask === 'translate' ? 'translate' : 'transcribe';
+
+      // Try each provider in the user's fallback order
+      let lastError: unknown = null;
+      for (const provider of providers) {
+        try {
+          const result = await provider.transcribe(speechAudio, {
+            jobId,
+            signal: controller.signal,
+            prompt,
+            language,
+            task,
+            onStatus: (statusText) => {
+              if (isCurrent()) get().updateJob(jobId, { statusText });
+            },
+            onModelProgress: (progress) => get().handleModelProgress(jobId, progress),
+            onPartialText: (text) => {
+              if (!isCurrent()) return;
+              if (get().jobs.find(j => j.id === jobId)?.statusText !== 'Transcribing...') {
+                get().updateJob(jobId, { statusText: 'Transcribing...' });
+              }
+              get().updateTranscription(jobId, text);
+            }
+          });
+
+          if (!isCurrent()) return;
+          if (!result.text.trim()) {
+            console.log('🔇 TranscriptionStore: No speech detected for job', jobId);
+            get().updateJob(jobId, { status: 'completed', statusText: 'No speech detected', progressItems: [] });
+            transcriptionJobStorage.deleteJob(jobId).catch(() => {});
+            return;
+          }
+
+          get().updateJob(jobId, { statusText: 'Detecting speakers...' });
+          const segments = await assignSpeakers(audioData, remapSegments(result.segments, offsetMap), controller.signal);
+
+          // Keep an English copy next to non-English originals
+          let translation: NoteTranslation | undefined;
+          if (settings.keepEnglishTranslation && task === 'transcribe' && result.language && result.language !== 'en') {
+            if (!isCurrent()) return;
+            get().updateJob(jobId, { statusText: 'Translating to English...' });
+            translation = await translateToEnglish(provider, speechAudio, {
+              jobId,
+              signal: controller.signal,
+              prompt,
+              language: result.language,
+              onStatus: () => {},
+              onModelProgress: (progress) => get().handleModelProgress(jobId, progress),
+              onPartialText: () => {}
+            });
+            if (translation) {
+              translation.segments = remapSegments(translation.segments, offsetMap);
+            }
+          }
+
+          if (!isCurrent()) return;
+          get().completeTranscription(jobId, { ...result, segments }, provider, translation);
+          return;
+        } catch (error: any) {
+          if (error instanceof TranscriptionCancelledError || !isCurrent()) throw error;
+
+          lastError = error;
+          console.warn(`⚠️ TranscriptionStore: ${provider.name} failed:`, error);
+          get().updateJob(jobId, { statusText: `${provider.name} failed: ${error.message || error}`, progressItems: [] });
+        }
       }
-      
-      const audioBlob = await response.blob();
-      const audioBuffer = await audioBlob.arrayBuffer();
-      const audioContext = new AudioContext({ sampleRate: 16000 });
-      const audioData = await audioContext.decodeAudioData(audioBuffer);
-      
-      // Start transcription
-      get().startTranscription(audioData, noteId);
-      
-    } catch (error) {
-      console.error('❌ TranscriptionStore: Failed to start transcription from URL:', error);
-      set((state) => ({
-        processingNotes: new Map(state.processingNotes).set(noteId, {
-          isProcessing: false,
-          status: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          progressItems: []
-        }),
-        currentNoteId: null
-      }));
+
+      throw lastError instanceof Error ? lastError : new Error('All speech-to-text providers failed');
+    } catch (error: any) {
+      if (error instanceof TranscriptionCancelledError || !isCurrent()) return;
+
+      console.error('❌ TranscriptionStore: Job failed:', jobId, error);
+      const latest = get().jobs.find(j => j.id === jobId);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (latest && latest.attempts < latest.maxAttempts) {
+        get().updateJob(jobId, { status: 'pending', statusText: 'Retrying...', error: message, progressItems: [] });
+      } else {
+        get().updateJob(jobId, { status: 'failed', statusText: `Transcription failed: ${message}`, error: message, progressItems: [] });
+      }
+    } finally {
+      abortControllers.delete(jobId);
+      get().processQueue();
     }
   },
-  
-  startTranscription: (audioData: AudioBuffer, noteId: string) => {
+
+  runWindowedJob: async (jobId, source, providers, signal) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    const isCurrent = () => get().jobs.find(j => j.id === jobId)?.status === 'running';
     const settings = useSettingsStore.getState();
-    const providers = useLLMProvidersStore.getState().getValidProviders();
-    const hasOpenAI = settings.useOpenAIForSTT && providers.some(p => p.name.toLowerCase() === 'openai' && p.apiKey);
-    if (hasOpenAI) {
-      transcribeWithOpenAI(audioData, noteId, set, get);
-      return;
+    const prompt = buildVocabularyPrompt(settings.vocabulary);
+    const task = settings.subtask === 'translate' ? 'translate' : 'transcribe';
+
+    // A checkpoint for different audio (e.g. after a trim) can't be resumed
+    let checkpoint: TranscriptionCheckpoint = job.checkpoint && Math.abs(job.checkpoint.duration - source.duration) < 1
+      ? job.checkpoint
+      : { position: 0, duration: source.duration, text: '', segments: [] };
+    if (checkpoint.position > 0) {
+      console.log(`⏩ TranscriptionStore: Resuming job ${jobId} at ${Math.round(checkpoint.position)}s`);
     }
-    // Fallback to local model
-    get().startTranscriptionLocal(audioData, noteId);
-  },
-  
-  startTranscriptionLocal: async (audioData: AudioBuffer, noteId: string) => {
-    let state = get();
-    
-    // Ensure worker is initialized
-    if (!state.worker || !state.isInitialized) {
-      try {
-        await get().initializeWorkerAsync();
-        // Get fresh state after initialization
-        state = get();
-      } catch (error) {
-        console.error('❌ TranscriptionStore: Failed to initialize worker:', error);
-        const notes = new Map(state.processingNotes);
-        notes.set(noteId, { 
-          isProcessing: false, 
-          status: 'Failed to initialize transcription worker', 
-          progressItems: [] 
+
+    let provider = (checkpoint.providerId && getSttProvider(checkpoint.providerId)) || providers[0];
+
+    while (source.duration - checkpoint.position > MIN_WINDOW_SECONDS) {
+      const start = checkpoint.position;
+      const end = Math.min(source.duration, start + TRANSCRIPTION_WINDOW_SECONDS);
+      get().updateJob(jobId, { statusText: `Transcribing ${Math.round(start / source.duration * 100)}%...` });
+
+      let audio = await source.read(start, end);
+      if (!isCurrent()) return;
+      // Cut at a pause so no word is split between two windows
+      if (end < source.duration) {
+        audio = truncateAudio(audio, findQuietestPoint(audio, audio.duration - WINDOW_CUT_SEARCH_SECONDS, audio.duration));
+      }
+      const position = start + audio.duration;
+
+      let speechAudio = audio;
+      let offsetMap: OffsetMapEntry[] = [];
+      if (settings.voiceActivityDetection) {
+        const regions = detectSpeechRegions(audio);
+        // As for short recordings, a window without detected speech is sent whole
+        const trimmed = regions.length > 0 ? trimToSpeech(audio, regions) : null;
+        if (trimmed && trimmed.removedSeconds >= MIN_TRIM_SECONDS) {
+          speechAudio = trimmed.buffer;
+          offsetMap = trimmed.offsetMap;
+        }
+      }
+
+      // Stay with the provider that handled earlier windows, falling back in order
+      let result: SttResult | null = null;
+      let lastError: unknown = null;
+      for (const candidate of [provider, ...providers.filter(p => p.id !== provider.id)]) {
+        try {
+          result = await candidate.transcribe(speechAudio, {
+            jobId,
+            signal,
+            prompt,
+            language: checkpoint.language ?? resolveLanguageSetting(settings.language),
+            task,
+            onStatus: (statusText) => {
+              if (isCurrent()) get().updateJob(jobId, { statusText });
+            },
+            onModelProgress: (progress) => get().handleModelProgress(jobId, progress),
+            onPartialText: (text) => {
+              if (isCurrent()) get().updateTranscription(jobId, appendText(checkpoint.text, text));
+            }
+          });
+          provider = candidate;
+          break;
+        } catch (error) {
+          if (error instanceof TranscriptionCancelledError || !isCurrent()) throw error;
+
+          lastError = error;
+          console.warn(`⚠️ TranscriptionStore: ${candidate.name} failed:`, error);
+          const message = error instanceof Error ? error.message : String(error);
+          get().updateJob(jobId, { statusText: `${candidate.name} failed: ${message}`, progressItems: [] });
+        }
+      }
+      if (!result) {
+        throw lastError instanceof Error ? lastError : new Error('All speech-to-text providers failed');
+      }
+      if (!isCurrent()) return;
+
+      const language = checkpoint.language ?? result.language;
+      let translation = checkpoint.translation;
+      if (settings.keepEnglishTranslation && task === 'transcribe' && language && language !== 'en') {
+        const windowTranslation = await translateToEnglish(provider, speechAudio, {
+          jobId,
+          signal,
+          prompt,
+          language,
+          onStatus: () => {},
+          onModelProgress: (progress) => get().handleModelProgress(jobId, progress),
+          onPartialText: () => {}
         });
-        set({ processingNotes: notes });
-        return;
+        if (windowTranslation) {
+          translation = {
+            language: windowTranslation.language,
+            text: appendText(translation?.text ?? '', windowTranslation.text),
+            segments: [
+              ...(translation?.segments ?? []),
+              ...shiftSegments(remapSegments(windowTranslation.segments, offsetMap), start)
+            ]
+          };
+        }
       }
+      if (!isCurrent()) return;
+
+      checkpoint = {
+        ...checkpoint,
+        position,
+        text: appendText(checkpoint.text, result.text),
+        segments: [...checkpoint.segments, ...shiftSegments(remapSegments(result.segments, offsetMap), start)],
+        translation,
+        language,
+        model: result.model ?? checkpoint.model,
+        providerId: provider.id
+      };
+      get().updateJob(jobId, { checkpoint });
+      get().updateTranscription(jobId, checkpoint.text);
     }
-    
-    // Double-check that worker is available after initialization
-    if (!state.worker) {
-      console.error('❌ TranscriptionStore: Worker still not initialized after initialization attempt');
-      const notes = new Map(state.processingNotes);
-      notes.set(noteId, { 
-        isProcessing: false, 
-        status: 'Failed to initialize transcription worker', 
-        progressItems: [] 
-      });
-      set({ processingNotes: notes });
+
+    if (!isCurrent()) return;
+    if (!checkpoint.text) {
+      console.log('🔇 TranscriptionStore: No speech detected for job', jobId);
+      get().updateJob(jobId, { status: 'completed', statusText: 'No speech detected', progressItems: [] });
+      transcriptionJobStorage.deleteJob(jobId).catch(() => {});
       return;
     }
 
-    console.log('🎯 TranscriptionStore: Starting transcription for note:', noteId);
-    
-    set({
-      processingNotes: new Map(state.processingNotes).set(noteId, {
-        isProcessing: true,
-        status: 'Preparing transcription...',
-        progressItems: []
-      }),
-      currentNoteId: noteId,
-      lastTranscription: null
-    });
-
-    // Get settings
-    const settings = useSettingsStore.getState();
+    // Speaker detection needs the whole recording in memory, so long
+    // recordings are saved without speaker turns
+    get().completeTranscription(jobId, {
+      text: checkpoint.text,
+      segments: checkpoint.segments,
+      model: checkpoint.model,
+      language: checkpoint.language
+    }, provider, checkpoint.translation);
+  },
 
-    // Process audio
-    let audio;
-    if (audioData.numberOfChannels === 2) {
-      const SCALING_FACTOR = Math.sqrt(2);
-      let left = audioData.getChannelData(0);
-      let right = audioData.getChannelData(1);
+  updateJob: (jobId, changes) => {
+    let updated: TranscriptionJob | undefined;
+    set((state) => withJobs(state.jobs.map(job => {
+      if (job.id !== jobId) return job;
+      updated = { ...job, ...changes, updatedAt: Date.now() };
+      return updated;
+    })));
 
-      audio = new Float32Array(left.length);
-      for (let i = 0; i < audioData.length; ++i) {
-        audio[i] = SCALING_FACTOR * (left[i] + right[i]) / 2;
-      }
-    } else {
-      audio = audioData.getChannelData(0);
+    // Progress ticks only touch transient fields, no need to write them out
+    const onlyProgress = Object.keys(changes).every(key => key === 'progressItems');
+    if (updated && !onlyProgress) {
+      persistJob(updated);
     }
+  },
 
-    // Send to worker
-    state.worker.postMessage({
-      audio,
-      model: settings.model,
-      multilingual: settings.multilingual,
-      quantized: settings.quantized,
-      subtask: settings.multilingual ? settings.subtask : null,
-      language: settings.multilingual && settings.language !== "auto" ? settings.language : null,
-    });
+  isNoteProcessing: (noteId: string) => {
+    const state = get();
+    return state.processingNotes.get(noteId)?.isProcessing || false;
   },
-  
-  updateTranscription: (text: string) => {
+
+  getNoteProcessingStatus: (noteId: string) => {
     const state = get();
-    if (!state.currentNoteId || !text) return;
+    return state.processingNotes.get(noteId)?.status || '';
+  },
+
+  getNoteProgressItems: (noteId: string) => {
+    const state = get();
+    return state.processingNotes.get(noteId)?.progressItems || [];
+  },
+
+  getLatestJobForNote: (noteId: string) => {
+    return get().jobs
+      .filter(job => job.noteId === noteId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+  },
+
+  handleModelProgress: (jobId, progress) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || job.status !== 'running') return;
+
+    switch (progress.status) {
+      case "initiate":
+        get().updateJob(jobId, {
+          statusText: 'Loading model files...',
+          progressItems: [
+            ...job.progressItems.filter(item => item.file !== progress.file),
+            {
+              file: progress.file || 'model',
+              progress: 0,
+              status: 'Starting...'
+            }
+          ]
+        });
+        break;
+
+      case "progress":
+        get().updateJob(jobId, {
+          progressItems: job.progressItems.map(item =>
+            item.file === progress.file
+              ? { ...item, progress: Math.round(progress.progress || 0) }
+              : item
+          )
+        });
+        break;
+
+      case "ready":
+        get().updateJob(jobId, {
+          statusText: 'Model loaded, starting transcription...',
+          progressItems: job.progressItems.map(item => ({
+            ...item,
+            progress: 100,
+            status: 'Complete'
+          }))
+        });
+        break;
+    }
+  },
+
+  updateTranscription: (jobId: string, text: string) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || !text || job.progressiveUpdates === false || job.clipId) return;
 
     // Update note content progressively - this works regardless of current UI state
     const notesStore = useNotesStore.getState();
-    const note = notesStore.getNoteById(state.currentNoteId);
-    
+    const note = notesStore.getNoteById(job.noteId);
+
     if (note) {
       const updatedNote = {
         ...note,
@@ -432,65 +734,119 @@ export const useTranscriptionStore = create<TranscriptionState>((set, get) => ({
       notesStore.updateNote(updatedNote);
     }
   },
-  
-  completeTranscription: (text: string) => {
-    const state = get();
-    if (!state.currentNoteId || !text || text === state.lastTranscription) return;
 
-    console.log('✅ TranscriptionStore: Transcription complete');
-    
-    set({ lastTranscription: text });
+  completeTranscription: (jobId: string, result: SttResult, provider: SttProvider, translation?: NoteTranslation) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    // Fix known misspellings before anything reaches the note
+    const { correctionRules, language: languageSetting } = useSettingsStore.getState();
+    const correctedText = applyCorrectionRules(result.text, correctionRules);
+    // Formatting rules differ by language; a forced language isn't always echoed back
+    const language = result.language ?? resolveLanguageSetting(languageSetting);
+    const segments = applyCorrectionsToSegments(result.segments, correctionRules);
+
+    console.log('✅ TranscriptionStore: Transcription complete for job', jobId);
 
     const notesStore = useNotesStore.getState();
-    const note = notesStore.getNoteById(state.currentNoteId);
+    const transcribedBy = {
+      providerId: provider.id,
+      providerName: provider.name,
+      model: result.model,
+      transcribedAt: Date.now()
+    };
 
-    if (note) {
-    // Update note - this works regardless of current UI state
-      const smartTitle = generateSmartTitle(text);
-      const updatedNote = {
-        ...note,
-        title: smartTitle,
-        content: text,
-        updatedAt: Date.now(),
-        lastEdited: Date.now()
-      };
+    if (job.clipId) {
+      // A clip recorded into an existing note adds its text after what's there
+      const note = notesStore.getNoteById(job.noteId);
+      if (note?.clips?.some(clip => clip.id === job.clipId)) {
+        const text = correctedText && layoutTranscript(correctedText, segments, note.speakers, language);
+        notesStore.updateNote({
+          ...note,
+          content: text ? appendParagraph(note.content, text) : note.content,
+          clips: note.clips.map(clip => clip.id === job.clipId ? { ...clip, segments } : clip),
+          updatedAt: Date.now()
+        });
+      }
+    } else if (job.saveAsVersion) {
+      // Retranscriptions leave the note untouched so the result can be compared and merged
+      if (correctedText && notesStore.getNoteById(job.noteId)) {
+        notesStore.addVersion(job.noteId, {
+          content: layoutTranscript(correctedText, segments, notesStore.getNoteById(job.noteId)?.speakers, language),
+          timestamp: Date.now(),
+          description: `Retranscribed with ${provider.name}${result.model ? ` (${result.model})` : ''}`,
+          transcribedBy,
+          segments
+        });
+      }
+    } else {
+      // Keep edits made to a placeholder (e.g. live) transcript as a version
+      const existing = notesStore.getNoteById(job.noteId);
+      if (existing && correctedText && job.progressiveUpdates === false && existing.content && (existing.contentEditedAt ?? 0) > job.createdAt) {
+        notesStore.saveVersion(existing.id, 'Before full transcription');
+      }
 
-      notesStore.updateNote(updatedNote);
+      const note = notesStore.getNoteById(job.noteId);
+
+      // Multi-speaker transcripts are written as "**Name:** ..." turns, keeping
+      // names the user already assigned on this note
+      const speakerIds = getSpeakerIds(segments);
+      const speakers = speakerIds.length > 1
+        ? Object.fromEntries(speakerIds.map(id => [id, getSpeakerName(id, note?.speakers)]))
+        : undefined;
+      const text = correctedText && layoutTranscript(correctedText, segments, speakers, language);
 
-      // Run auto-agents if available - this also works regardless of UI state
-      const agentsStore = useAgentsStore.getState();
-      if (agentsStore.canRunAnyAgents()) {
-        console.log('🤖 TranscriptionStore: Running auto-agents');
-        agentsStore.processNoteWithAllAutoAgents(state.currentNoteId);
+      if (note && text) {
+        // Update note - this works regardless of current UI state
+        const smartTitle = generateSmartTitle(correctedText);
+        const translatedSegments = translation && applyCorrectionsToSegments(translation.segments, correctionRules);
+        const updatedNote = {
+          ...note,
+          title: smartTitle,
+          content: text,
+          segments,
+          speakers,
+          language: result.language,
+          translation: translatedSegments && translation && {
+            ...translation,
+            text: layoutTranscript(applyCorrectionRules(translation.text, correctionRules), translatedSegments, undefined, translation.language),
+            segments: translatedSegments
+          },
+          transcribedBy,
+          updatedAt: Date.now(),
+          lastEdited: Date.now()
+        };
+
+        notesStore.updateNote(updatedNote);
+
+        // Run auto-agents if available - this also works regardless of UI state
+        const agentsStore = useAgentsStore.getState();
+        if (agentsStore.canRunAnyAgents()) {
+          console.log('🤖 TranscriptionStore: Running auto-agents');
+          agentsStore.processNoteWithAllAutoAgents(job.noteId);
+        }
       }
     }
 
-    // Clear processing state for this note
-    set((state) => ({
-      processingNotes: new Map(state.processingNotes).set(state.currentNoteId!, {
-        isProcessing: false,
-        status: 'Complete',
-        progressItems: []
-      }),
-      currentNoteId: null
-    }));
-    
+    get().updateJob(jobId, { status: 'completed', statusText: 'Complete', error: undefined, progressItems: [] });
+
+    // Completed jobs don't need to survive a reload
+    transcriptionJobStorage.deleteJob(jobId).catch(() => {});
+
     // TODO: Show toast notification when we have toast system
-    console.log('🎉 Transcription completed for note:', state.currentNoteId);
+    console.log('🎉 Transcription completed for note:', job.noteId);
   },
-  
+
   cleanup: () => {
-    const state = get();
-    if (state.worker) {
-      state.worker.terminate();
-    }
-    
+    shutdownLocalWhisper();
+    abortControllers.forEach(controller => controller.abort());
+    abortControllers.clear();
+
+    // Jobs stay persisted and resume on the next loadQueue
     set({
-      worker: null,
-      isInitialized: false,
-      currentNoteId: null,
-      lastTranscription: null,
+      jobs: [],
+      isQueueLoaded: false,
       processingNotes: new Map()
     });
   }
-}));
\ No newline at end of file
+}));
@@ -28,7 +28,7 @@ export default {
     }.wav`,
     DEFAULT_MODEL: "Xenova/whisper-tiny.en",
     DEFAULT_SUBTASK: "transcribe",
-    DEFAULT_LANGUAGE: "english",
+    DEFAULT_LANGUAGE: "auto",
     DEFAULT_QUANTIZED: isMobileOrTablet,
     DEFAULT_MULTILINGUAL: false,
 };
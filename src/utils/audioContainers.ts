@@ -0,0 +1,414 @@
+/**
+ * Byte-level indexes of compressed audio files, so a time range can be cut
+ * out and decoded on its own instead of decoding the whole recording.
+ */
+export interface AudioChunkIndex {
+  // Bytes at the start of the file every chunk needs in front of it to
+  // decode, e.g. the WebM or MP4 header. Zero for bare frame streams
+  headerEnd: number;
+  // Byte offset of every chunk, plus the end of the last one
+  offsets: number[];
+  // Start time of every chunk, in seconds
+  times: number[];
+  // Known for frame streams; containers are measured by decoding their last chunk
+  duration?: number;
+}
+
+const SCAN_CHUNK_BYTES = 1024 * 1024;
+// How far into a file, past any ID3 tag, the first audio frame may start
+const FRAME_SEARCH_BYTES = 64 * 1024;
+
+interface ByteWindow {
+  view: DataView;
+  // Position of the requested offset within `view`
+  index: number;
+}
+
+/**
+ * Reads a blob a megabyte at a time, for parsers that walk it front to back.
+ * Resolves null past the end of the file.
+ */
+function createByteReader(blob: Blob) {
+  let chunkStart = 0;
+  let view = new DataView(new ArrayBuffer(0));
+  return async (offset: number, bytes: number): Promise<ByteWindow | null> => {
+    if (offset < 0 || offset + bytes > blob.size) return null;
+    if (offset < chunkStart || offset + bytes > chunkStart + view.byteLength) {
+      chunkStart = offset;
+      view = new DataView(await blob.slice(offset, offset + Math.max(bytes, SCAN_CHUNK_BYTES)).arrayBuffer());
+    }
+    return { view, index: offset - chunkStart };
+  };
+}
+
+const readTag = (view: DataView, offset: number, length = 4) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// ---------------------------------------------------------------------------
+// MP3 and ADTS AAC: bare streams of self-describing frames
+
+interface FrameHeader {
+  // Frames of one stream agree on this
+  format: string;
+  sampleRate: number;
+  samplesPerFrame: number;
+  length: number;
+}
+
+type FrameParser = (view: DataView, offset: number) => FrameHeader | null;
+
+// Kbps by bitrate index, for MPEG-1 and for MPEG-2/2.5 Layer III
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+// Sample rates by version bits (2.5, reserved, 2, 1), then sample rate index
+const MP3_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Layer III frame headers only; other layers are left to the whole-file decoder
+const parseMp3Frame: FrameParser = (view, offset) => {
+  if (view.getUint8(offset) !== 0xff || (view.getUint8(offset + 1) & 0xe0) !== 0xe0) return null;
+  const version = (view.getUint8(offset + 1) >> 3) & 3;
+  const layer = (view.getUint8(offset + 1) >> 1) & 3;
+  const bitrateIndex = view.getUint8(offset + 2) >> 4;
+  const sampleRateIndex = (view.getUint8(offset + 2) >> 2) & 3;
+  const padding = (view.getUint8(offset + 2) >> 1) & 1;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+  return {
+    format: `mp3-${version}-${sampleRate}`,
+    sampleRate,
+    samplesPerFrame,
+    length: Math.floor(samplesPerFrame / 8 * bitrate / sampleRate) + padding
+  };
+};
+
+// ADTS is how MediaRecorder writes audio/aac
+const parseAdtsFrame: FrameParser = (view, offset) => {
+  if (offset + 7 > view.byteLength) return null;
+  if (view.getUint8(offset) !== 0xff || (view.getUint8(offset + 1) & 0xf6) !== 0xf0) return null;
+  const sampleRate = ADTS_SAMPLE_RATES[(view.getUint8(offset + 2) >> 2) & 0xf];
+  const length = (view.getUint8(offset + 3) & 3) << 11 | view.getUint8(offset + 4) << 3 | view.getUint8(offset + 5) >> 5;
+  if (!sampleRate || length < 7) return null;
+  return {
+    format: `adts-${sampleRate}`,
+    sampleRate,
+    samplesPerFrame: ((view.getUint8(offset + 6) & 3) + 1) * 1024,
+    length
+  };
+};
+
+function id3v2Size(view: DataView): number {
+  if (view.byteLength < 10 || readTag(view, 0, 3) !== 'ID3') return 0;
+  const size = [6, 7, 8, 9].reduce((total, i) => total << 7 | (view.getUint8(i) & 0x7f), 0);
+  const hasFooter = (view.getUint8(5) & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Xing, Info and VBRI frames describe the stream rather than hold audio
+function isMp3InfoFrame(view: DataView, offset: number, length: number): boolean {
+  for (let i = offset + 4; i + 4 <= Math.min(offset + length, view.byteLength); i++) {
+    const tag = readTag(view, i);
+    if (tag === 'Xing' || tag === 'Info' || tag === 'VBRI') return true;
+  }
+  return false;
+}
+
+async function indexFrames(blob: Blob, parse: FrameParser): Promise<AudioChunkIndex | null> {
+  const read = createByteReader(blob);
+  const start = await read(0, Math.min(blob.size, 10));
+  if (!start) return null;
+  let offset = id3v2Size(start.view);
+
+  // Up to 8 bytes covers both MP3 and ADTS headers
+  const parseAt = async (at: number) => {
+    const length = Math.min(8, blob.size - at);
+    const bytes = length >= 4 ? await read(at, length) : null;
+    return bytes && parse(bytes.view, bytes.index);
+  };
+
+  // The stream has to start soon after the tag, with two frames in a row
+  let first: FrameHeader | null = null;
+  for (const searchEnd = offset + FRAME_SEARCH_BYTES; !first && offset < searchEnd && offset < blob.size; ) {
+    const header = await parseAt(offset);
+    const next = header && await parseAt(offset + header.length);
+    if (header && next && next.format === header.format) {
+      first = header;
+    } else {
+      offset++;
+    }
+  }
+  if (!first) return null;
+
+  const firstFrame = await read(offset, Math.min(first.length, blob.size - offset));
+  if (firstFrame && isMp3InfoFrame(firstFrame.view, firstFrame.index, first.length)) offset += first.length;
+
+  // Junk between frames, and the ID3v1 tag at the end, is skipped byte by byte
+  const offsets: number[] = [];
+  const times: number[] = [];
+  let samples = 0;
+  while (offset + 4 <= blob.size) {
+    const header = await parseAt(offset);
+    if (header && header.format === first.format && offset + header.length <= blob.size) {
+      offsets.push(offset);
+      times.push(samples / first.sampleRate);
+      samples += header.samplesPerFrame;
+      offset += header.length;
+    } else {
+      offset++;
+    }
+  }
+  if (offsets.length === 0) return null;
+
+  const last = offsets[offsets.length - 1];
+  offsets.push(last + (await parseAt(last))!.length);
+  return { headerEnd: 0, offsets, times, duration: samples / first.sampleRate };
+}
+
+// ---------------------------------------------------------------------------
+// WebM: Chrome and Firefox recordings. Clusters are the chunks
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+// Timecode, SimpleBlock, BlockGroup, Position and PrevSize
+const CLUSTER_CHILD_IDS = [0xe7, 0xa3, 0xa0, 0xa7, 0xab];
+
+interface EbmlElement {
+  id: number;
+  // Null when the size is unknown, as MediaRecorder writes segments and clusters
+  size: number | null;
+  dataStart: number;
+}
+
+type ByteReader = ReturnType<typeof createByteReader>;
+
+async function readEbmlElement(read: ByteReader, offset: number, fileSize: number): Promise<EbmlElement | null> {
+  // IDs take up to 4 bytes and sizes up to 8
+  const available = Math.min(12, fileSize - offset);
+  const bytes = await read(offset, available);
+  if (!bytes || available < 2) return null;
+  const { view, index } = bytes;
+
+  const first = view.getUint8(index);
+  const idLength = Math.clz32(first) - 23;
+  if (idLength < 1 || idLength > 4 || idLength >= available) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + view.getUint8(index + i);
+
+  const sizeFirst = view.getUint8(index + idLength);
+  const sizeLength = Math.clz32(sizeFirst) - 23;
+  if (sizeLength < 1 || sizeLength > 8 || idLength + sizeLength > available) return null;
+  let size = sizeFirst & (0xff >> sizeLength);
+  let allOnes = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = view.getUint8(index + idLength + i);
+    size = size * 256 + byte;
+    allOnes &&= byte === 0xff;
+  }
+  return { id, size: allOnes ? null : size, dataStart: offset + idLength + sizeLength };
+}
+
+async function readUint(read: ByteReader, offset: number, length: number): Promise<number> {
+  const bytes = await read(offset, length);
+  if (!bytes) return 0;
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes.view.getUint8(bytes.index + i);
+  return value;
+}
+
+async function indexWebmClusters(blob: Blob): Promise<AudioChunkIndex | null> {
+  const read = createByteReader(blob);
+  const header = await readEbmlElement(read, 0, blob.size);
+  if (header?.id !== EBML_ID || header.size === null) return null;
+
+  // Segments and clusters are walked into rather than skipped, since their
+  // size is often unknown; everything else is stepped over
+  let timecodeScale = 1000000;
+  const offsets: number[] = [];
+  const times: number[] = [];
+  let clusterEnd = 0;
+  let offset = header.dataStart + header.size;
+  while (offset < blob.size) {
+    const element = await readEbmlElement(read, offset, blob.size);
+    if (!element) break;
+
+    if (element.id === SEGMENT_ID || element.id === INFO_ID || element.id === CLUSTER_ID) {
+      if (element.id === CLUSTER_ID) {
+        offsets.push(offset);
+        times.push(times[times.length - 1] ?? 0);
+      }
+      offset = element.dataStart;
+      continue;
+    }
+    if (element.size === null) break;
+
+    if (element.id === TIMECODE_SCALE_ID) {
+      timecodeScale = await readUint(read, element.dataStart, element.size);
+    } else if (element.id === CLUSTER_TIMECODE_ID && offsets.length > 0) {
+      times[times.length - 1] = await readUint(read, element.dataStart, element.size) * timecodeScale / 1e9;
+    }
+    offset = element.dataStart + element.size;
+    if (offsets.length > 0 && CLUSTER_CHILD_IDS.includes(element.id)) clusterEnd = Math.min(offset, blob.size);
+  }
+  if (offsets.length === 0 || clusterEnd <= offsets[offsets.length - 1]) return null;
+
+  offsets.push(clusterEnd);
+  return { headerEnd: offsets[0], offsets, times };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg Opus and Vorbis imports. Pages are the chunks
+
+const OGG_PAGE_HEADER_BYTES = 27;
+
+async function indexOggPages(blob: Blob): Promise<AudioChunkIndex | null> {
+  const read = createByteReader(blob);
+  const offsets: number[] = [];
+  const times: number[] = [];
+  let sampleRate = 0;
+  let headerEnd = -1;
+  let lastGranule = 0;
+
+  let offset = 0;
+  while (offset + OGG_PAGE_HEADER_BYTES <= blob.size) {
+    const header = await read(offset, OGG_PAGE_HEADER_BYTES);
+    if (!header || readTag(header.view, header.index) !== 'OggS') break;
+    const { view, index } = header;
+
+    const segmentCount = view.getUint8(index + 26);
+    const table = await read(offset + OGG_PAGE_HEADER_BYTES, segmentCount);
+    if (!table) break;
+    let bodyLength = 0;
+    for (let i = 0; i < segmentCount; i++) bodyLength += table.view.getUint8(table.index + i);
+    const bodyStart = offset + OGG_PAGE_HEADER_BYTES + segmentCount;
+
+    // The first packet says which codec, and for Vorbis the rate granules count in
+    if (offset === 0) {
+      const body = await read(bodyStart, Math.min(16, bodyLength));
+      if (!body) return null;
+      if (readTag(body.view, body.index, 8) === 'OpusHead') {
+        sampleRate = 48000;
+      } else if (bodyLength >= 16 && readTag(body.view, body.index + 1, 6) === 'vorbis') {
+        sampleRate = body.view.getUint32(body.index + 12, true);
+      } else {
+        return null;
+      }
+    }
+
+    const granuleLow = view.getUint32(index + 6, true);
+    const granuleHigh = view.getUint32(index + 10, true);
+    // All ones means no packet ends on this page
+    const hasGranule = !(granuleLow === 0xffffffff && granuleHigh === 0xffffffff);
+    const granule = granuleHigh * 0x100000000 + granuleLow;
+
+    // Header pages come first and carry a granule of zero
+    if (headerEnd < 0 && hasGranule && granule > 0) headerEnd = offset;
+    if (headerEnd >= 0) {
+      offsets.push(offset);
+      times.push(lastGranule / sampleRate);
+      if (hasGranule) lastGranule = granule;
+    }
+    offset = bodyStart + bodyLength;
+  }
+  if (offsets.length === 0 || !sampleRate) return null;
+
+  offsets.push(Math.min(offset, blob.size));
+  return { headerEnd, offsets, times, duration: lastGranule / sampleRate };
+}
+
+// ---------------------------------------------------------------------------
+// Fragmented MP4: Safari recordings. Fragments (moof + mdat) are the chunks.
+// Plain MP4 and M4A files keep their sample tables up front and are decoded whole
+
+interface Box {
+  type: string;
+  contentStart: number;
+  end: number;
+}
+
+function readBox(view: DataView, offset: number, limit: number): Box | null {
+  if (offset + 8 > limit) return null;
+  let size = view.getUint32(offset);
+  let contentStart = offset + 8;
+  if (size === 1) {
+    if (offset + 16 > limit) return null;
+    size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+    contentStart = offset + 16;
+  } else if (size === 0) {
+    // Runs to the end of whatever contains it
+    size = limit - offset;
+  }
+  if (offset + size < contentStart) return null;
+  return { type: readTag(view, offset + 4), contentStart, end: offset + size };
+}
+
+// First box at the end of a path of nested box types, e.g. ['trak', 'mdia', 'mdhd']
+function findBox(view: DataView, start: number, end: number, path: string[]): Box | null {
+  for (let offset = start; offset < end; ) {
+    const box = readBox(view, offset, end);
+    if (!box) return null;
+    if (box.type === path[0]) {
+      return path.length === 1 ? box : findBox(view, box.contentStart, Math.min(box.end, end), path.slice(1));
+    }
+    offset = box.end;
+  }
+  return null;
+}
+
+async function indexMp4Fragments(blob: Blob): Promise<AudioChunkIndex | null> {
+  const head = await blob.slice(0, 16).arrayBuffer();
+  if (head.byteLength < 8 || readTag(new DataView(head), 4) !== 'ftyp') return null;
+
+  let timescale = 0;
+  const offsets: number[] = [];
+  const times: number[] = [];
+  let offset = 0;
+  while (offset + 8 <= blob.size) {
+    // Only the header is read for the large mdat boxes
+    const header = new DataView(await blob.slice(offset, offset + 16).arrayBuffer());
+    const top = readBox(header, 0, header.byteLength);
+    if (!top) break;
+    const boxEnd = header.getUint32(0) === 0 ? blob.size : Math.min(offset + top.end, blob.size);
+
+    if (top.type === 'moov' || top.type === 'moof') {
+      const view = new DataView(await blob.slice(offset, boxEnd).arrayBuffer());
+      if (top.type === 'moov') {
+        const mdhd = findBox(view, top.contentStart, view.byteLength, ['trak', 'mdia', 'mdhd']);
+        if (mdhd) timescale = view.getUint32(mdhd.contentStart + (view.getUint8(mdhd.contentStart) === 1 ? 20 : 12));
+      } else {
+        const tfdt = findBox(view, top.contentStart, view.byteLength, ['traf', 'tfdt']);
+        const decodeTime = !tfdt ? 0 : view.getUint8(tfdt.contentStart) === 1
+          ? view.getUint32(tfdt.contentStart + 4) * 0x100000000 + view.getUint32(tfdt.contentStart + 8)
+          : view.getUint32(tfdt.contentStart + 4);
+        offsets.push(offset);
+        times.push(timescale ? decodeTime / timescale : 0);
+      }
+    }
+    offset = boxEnd;
+  }
+  if (offsets.length === 0 || !timescale) return null;
+
+  offsets.push(offset);
+  return { headerEnd: offsets[0], offsets, times };
+}
+
+/**
+ * Indexes whichever of the supported formats the file is in. Returns null for
+ * anything else, which then has to be decoded whole.
+ */
+export async function indexAudioChunks(blob: Blob): Promise<AudioChunkIndex | null> {
+  const magic = new DataView(await blob.slice(0, 8).arrayBuffer());
+  if (magic.byteLength >= 4 && magic.getUint32(0) === EBML_ID) return indexWebmClusters(blob);
+  if (magic.byteLength >= 4 && readTag(magic, 0) === 'OggS') return indexOggPages(blob);
+  if (magic.byteLength >= 8 && readTag(magic, 4) === 'ftyp') return indexMp4Fragments(blob);
+  return await indexFrames(blob, parseMp3Frame) ?? indexFrames(blob, parseAdtsFrame);
+}
@@ -0,0 +1,110 @@
+import type { NoteBookmark, TranscriptSegment } from '../stores/notesStore';
+import { isStorageUrl, resolveStorageUrl } from './audioStorage';
+
+// Short fades either side of a join so cuts don't click
+const JOIN_FADE_SECONDS = 0.01;
+
+// A stretch of a source recording, in seconds
+export interface KeptRange {
+  start: number;
+  end: number;
+}
+
+// A stretch of a decoded recording placed in the edited audio
+export interface AudioPart extends KeptRange {
+  buffer: AudioBuffer;
+}
+
+export async function decodeAudioUrl(audioUrl: string): Promise<AudioBuffer> {
+  let resolvedUrl = audioUrl;
+  if (isStorageUrl(audioUrl)) {
+    const resolved = await resolveStorageUrl(audioUrl);
+    if (!resolved) throw new Error('Failed to resolve audio URL');
+    resolvedUrl = resolved.url;
+  }
+
+  const response = await fetch(resolvedUrl);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.statusText}`);
+
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(await response.arrayBuffer());
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+}
+
+// Everything outside the range goes
+export function trimRanges(duration: number, start: number, end: number): KeptRange[] {
+  return [{ start: Math.max(0, start), end: Math.min(duration, end) }].filter(range => range.end > range.start);
+}
+
+// Everything inside the range goes
+export function cutRanges(duration: number, from: number, to: number): KeptRange[] {
+  return [
+    { start: 0, end: Math.max(0, from) },
+    { start: Math.min(duration, to), end: duration }
+  ].filter(range => range.end > range.start);
+}
+
+/**
+ * Plays the parts back to back into an OfflineAudioContext. Sources at other
+ * sample rates or channel counts are converted on the way.
+ */
+export async function renderAudio(parts: AudioPart[]): Promise<AudioBuffer> {
+  if (parts.length === 0) throw new Error('Nothing left to render');
+
+  const sampleRate = parts[0].buffer.sampleRate;
+  const numberOfChannels = Math.max(...parts.map(part => part.buffer.numberOfChannels));
+  const duration = parts.reduce((total, part) => total + part.end - part.start, 0);
+  const context = new OfflineAudioContext(numberOfChannels, Math.max(1, Math.ceil(duration * sampleRate)), sampleRate);
+
+  let position = 0;
+  for (const part of parts) {
+    const length = part.end - part.start;
+    const fade = Math.min(JOIN_FADE_SECONDS, length / 2);
+
+    const source = context.createBufferSource();
+    source.buffer = part.buffer;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, position);
+    gain.gain.linearRampToValueAtTime(1, position + fade);
+    gain.gain.setValueAtTime(1, position + length - fade);
+    gain.gain.linearRampToValueAtTime(0, position + length);
+
+    source.connect(gain).connect(context.destination);
+    source.start(position, part.start, length);
+    position += length;
+  }
+
+  return context.startRendering();
+}
+
+// Where a moment of the source lands in the edited audio, or null if it was cut
+export function mapTimeThroughEdit(time: number, ranges: KeptRange[]): number | null {
+  let offset = 0;
+  for (const range of ranges) {
+    if (time >= range.start && time <= range.end) return offset + time - range.start;
+    offset += range.end - range.start;
+  }
+  return null;
+}
+
+// Segments cut entirely are dropped, partly cut ones shrink to what's left
+export function mapSegmentsThroughEdit(segments: TranscriptSegment[], ranges: KeptRange[]): TranscriptSegment[] {
+  return segments.flatMap(segment => {
+    const overlapping = ranges.filter(range => segment.start < range.end && segment.end > range.start);
+    if (overlapping.length === 0) return [];
+
+    const start = mapTimeThroughEdit(Math.max(segment.start, overlapping[0].start), ranges) ?? 0;
+    const end = mapTimeThroughEdit(Math.min(segment.end, overlapping[overlapping.length - 1].end), ranges) ?? start;
+    return [{ ...segment, start, end }];
+  });
+}
+
+export function mapBookmarksThroughEdit(bookmarks: NoteBookmark[], ranges: KeptRange[]): NoteBookmark[] {
+  return bookmarks.flatMap(bookmark => {
+    const time = mapTimeThroughEdit(bookmark.time, ranges);
+    return time === null ? [] : [{ ...bookmark, time }];
+  });
+}
@@ -0,0 +1,71 @@
+import type { AudioSourceKind, SourceGains } from './recordingProfiles';
+
+export interface AudioMixer {
+  // Single track carrying every source, ready for MediaRecorder
+  stream: MediaStream;
+  sources: AudioSourceKind[];
+  setGain: (source: AudioSourceKind, gain: number) => void;
+  // Stops the mix and the tracks of every input stream
+  stop: () => void;
+}
+
+export const isTabAudioSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+/**
+ * Asks the user to share a tab (or screen) with its audio. Browsers only
+ * offer audio alongside video, so the video track is dropped right away.
+ */
+export async function captureTabAudio(): Promise<MediaStream> {
+  if (!isTabAudioSupported()) {
+    throw new Error('Capturing tab audio is not supported in this browser');
+  }
+
+  const displayStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  displayStream.getVideoTracks().forEach(track => {
+    track.stop();
+    displayStream.removeTrack(track);
+  });
+
+  if (displayStream.getAudioTracks().length === 0) {
+    throw new Error('The shared tab has no audio. Share it again with "Share tab audio" turned on');
+  }
+  return displayStream;
+}
+
+/**
+ * Mixes several live streams into one through a Web Audio graph, each source
+ * going through its own gain node so levels can be balanced while recording.
+ */
+export function createAudioMixer(inputs: Partial<Record<AudioSourceKind, MediaStream>>, gains: SourceGains): AudioMixer {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const gainNodes = new Map<AudioSourceKind, GainNode>();
+  const inputStreams: MediaStream[] = [];
+
+  for (const [source, stream] of Object.entries(inputs) as [AudioSourceKind, MediaStream | undefined][]) {
+    if (!stream) continue;
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = gains[source];
+    audioContext.createMediaStreamSource(stream).connect(gainNode).connect(destination);
+    gainNodes.set(source, gainNode);
+    inputStreams.push(stream);
+  }
+
+  return {
+    stream: destination.stream,
+    sources: [...gainNodes.keys()],
+    setGain: (source, gain) => {
+      const gainNode = gainNodes.get(source);
+      if (gainNode) {
+        // Ramp briefly so changing the level mid-recording doesn't click
+        gainNode.gain.setTargetAtTime(gain, audioContext.currentTime, 0.05);
+      }
+    },
+    stop: () => {
+      inputStreams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+      destination.stream.getTracks().forEach(track => track.stop());
+      audioContext.close().catch(() => {});
+    }
+  };
+}
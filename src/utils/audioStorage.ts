@@ -1,7 +1,10 @@
 // IndexedDB Audio Storage Utility
+import { isUncompressedAudio, MP3_MIME_TYPE, transcodeToMp3 } from './audioTranscoder';
+
 const DB_NAME = 'MonologAudioDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'audioFiles';
+const PEAKS_STORE = 'peaks';
 
 interface StoredAudio {
   id: string;
@@ -10,6 +13,22 @@ interface StoredAudio {
   mimeType: string;
 }
 
+export interface StoredAudioInfo {
+  id: string;
+  size: number;
+  mimeType: string;
+  timestamp: number;
+}
+
+// Waveform overview of a stored recording, computed once and kept with it
+export interface StoredPeaks {
+  id: string;
+  peaksPerSecond: number;
+  duration: number;
+  // Loudest sample of each slice, scaled to 0-255
+  peaks: Uint8Array;
+}
+
 class AudioStorage {
   private db: IDBDatabase | null = null;
 
@@ -29,11 +48,14 @@ class AudioStorage {
           const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
           store.createIndex('timestamp', 'timestamp', { unique: false });
         }
+        if (!db.objectStoreNames.contains(PEAKS_STORE)) {
+          db.createObjectStore(PEAKS_STORE, { keyPath: 'id' });
+        }
       };
     });
   }
 
-  async saveAudio(audioBlob: Blob, fileName: string, mimeType: string = 'audio/webm'): Promise<string> {
+  async saveAudio(audioBlob: Blob, fileName: string, mimeType: string = audioBlob.type || 'audio/webm'): Promise<string> {
     if (!this.db) await this.init();
     
     console.log('💾 AudioStorage: Starting save process', {
@@ -43,9 +65,8 @@ class AudioStorage {
       userAgent: navigator.userAgent
     });
     
-    // Convert WebM to WAV for iOS compatibility
-    const processedBlob = await this.processAudioForCompatibility(audioBlob, mimeType);
-    const finalMimeType = this.getCompatibleMimeType();
+    // Compact uncompressed audio, and make WebM playable on iOS
+    const { blob: processedBlob, mimeType: finalMimeType } = await this.processAudioForCompatibility(audioBlob, mimeType);
     
     console.log('💾 AudioStorage: Audio processed', {
       finalSize: processedBlob.size,
@@ -54,8 +75,10 @@ class AudioStorage {
     });
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
+      const transaction = this.db!.transaction([STORE_NAME, PEAKS_STORE], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
+      // Peaks of audio saved under the same name before no longer match
+      transaction.objectStore(PEAKS_STORE).delete(fileName);
       
       const audioData: StoredAudio = {
         id: fileName,
@@ -82,21 +105,36 @@ class AudioStorage {
     });
   }
 
-  private async processAudioForCompatibility(audioBlob: Blob, originalMimeType: string): Promise<Blob> {
+  private async processAudioForCompatibility(audioBlob: Blob, originalMimeType: string): Promise<{ blob: Blob; mimeType: string }> {
     // Check if we're on iOS/Safari and the audio is WebM
     const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
     const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
     const isWebM = originalMimeType.includes('webm') || originalMimeType.includes('ogg');
+    const needsConversion = (isIOS || isSafari) && isWebM;
     
     console.log('🔄 AudioStorage: Checking compatibility', {
       isIOS,
       isSafari,
       isWebM,
       originalMimeType,
-      needsConversion: (isIOS || isSafari) && isWebM
+      needsConversion
     });
     
-    if ((isIOS || isSafari) && isWebM) {
+    // MP3 plays everywhere and takes a tenth of the space of WAV
+    if (needsConversion || isUncompressedAudio(originalMimeType)) {
+      try {
+        const mp3Blob = await this.transcodeForStorage(audioBlob);
+        console.log('✅ Audio transcoded to MP3', {
+          originalSize: audioBlob.size,
+          convertedSize: mp3Blob.size
+        });
+        return { blob: mp3Blob, mimeType: MP3_MIME_TYPE };
+      } catch (error) {
+        console.error('❌ AudioStorage: MP3 transcoding failed:', error);
+      }
+    }
+    
+    if (needsConversion) {
       console.log('🔄 Converting WebM to WAV for iOS/Safari compatibility');
       try {
         const convertedBlob = await this.convertToWAV(audioBlob);
@@ -104,23 +142,30 @@ class AudioStorage {
           originalSize: audioBlob.size,
           convertedSize: convertedBlob.size
         });
-        return convertedBlob;
+        return { blob: convertedBlob, mimeType: 'audio/wav' };
       } catch (error) {
         console.error('❌ Failed to convert audio format:', error);
         // Try to create a simple WAV wrapper as fallback
         try {
           const fallbackBlob = await this.createWAVFallback(audioBlob);
           console.log('⚠️ Using fallback WAV wrapper');
-          return fallbackBlob;
+          return { blob: fallbackBlob, mimeType: 'audio/wav' };
         } catch (fallbackError) {
           console.error('❌ Fallback conversion also failed:', fallbackError);
           // Return original blob as last resort
-          return audioBlob;
+          return { blob: audioBlob, mimeType: originalMimeType };
         }
       }
     }
     
-    return audioBlob;
+    return { blob: audioBlob, mimeType: originalMimeType };
+  }
+
+  // Encodes at the quality chosen in settings
+  async transcodeForStorage(audioBlob: Blob, onProgress?: (progress: number) => void): Promise<Blob> {
+    // Imported lazily, the settings store pulls in most of the app
+    const { useSettingsStore } = await import('../stores/settingsStore');
+    return transcodeToMp3(audioBlob, useSettingsStore.getState().audioStorageQuality, onProgress);
   }
 
   private async convertToWAV(audioBlob: Blob): Promise<Blob> {
@@ -248,17 +293,6 @@ class AudioStorage {
     return wavBlob;
   }
 
-  private getCompatibleMimeType(): string {
-    const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
-    const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
-    
-    if (isIOS || isSafari) {
-      return 'audio/wav';
-    }
-    
-    return 'audio/webm';
-  }
-
   async getAudio(id: string): Promise<{ url: string; mimeType: string } | null> {
     if (!this.db) await this.init();
     
@@ -305,19 +339,102 @@ class AudioStorage {
     });
   }
 
-  async deleteAudio(id: string): Promise<void> {
+  // Swaps in a re-encoded copy of the same recording; its peaks still apply
+  async replaceAudio(id: string, audioBlob: Blob, mimeType: string): Promise<void> {
     if (!this.db) await this.init();
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+      const request = store.get(id);
+      
+      request.onsuccess = () => {
+        const existing: StoredAudio | undefined = request.result;
+        if (!existing) {
+          reject(new Error(`No audio stored for ID: ${id}`));
+          return;
+        }
+        store.put({ ...existing, audioBlob, mimeType });
+      };
+      
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getAudioBlob(id: string): Promise<Blob | null> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).get(id);
+      
+      request.onsuccess = () => resolve((request.result as StoredAudio | undefined)?.audioBlob ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Sizes and formats of everything stored, without reading the audio itself
+  async listAudio(): Promise<StoredAudioInfo[]> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).openCursor();
+      const items: StoredAudioInfo[] = [];
+      
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(items);
+          return;
+        }
+        const { id, audioBlob, mimeType, timestamp }: StoredAudio = cursor.value;
+        items.push({ id, size: audioBlob?.size ?? 0, mimeType, timestamp });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteAudio(id: string): Promise<void> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      // The waveform goes with the audio it was computed from
+      const transaction = this.db!.transaction([STORE_NAME, PEAKS_STORE], 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(id);
+      transaction.objectStore(PEAKS_STORE).delete(id);
+      
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async savePeaks(peaks: StoredPeaks): Promise<void> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([PEAKS_STORE], 'readwrite');
+      const request = transaction.objectStore(PEAKS_STORE).put(peaks);
       
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
+  async getPeaks(id: string): Promise<StoredPeaks | null> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([PEAKS_STORE], 'readonly');
+      const request = transaction.objectStore(PEAKS_STORE).get(id);
+      
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getAllAudioIds(): Promise<string[]> {
     if (!this.db) await this.init();
     
@@ -339,6 +456,14 @@ export const isStorageUrl = (url: string): boolean => {
   return url.startsWith('audio-storage://');
 };
 
+// File extension for a stored MIME type, e.g. for downloads and exports
+export const getAudioExtension = (mimeType: string): string => {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'mp3';
+  if (mimeType.includes('mp4') || mimeType.includes('aac')) return 'm4a';
+  return 'webm';
+};
+
 // Helper function to extract ID from storage URL
 export const getStorageId = (url: string): string => {
   return url.replace('audio-storage://', '');
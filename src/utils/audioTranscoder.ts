@@ -0,0 +1,126 @@
+export type StorageQuality = 'voice' | 'standard' | 'high';
+
+export interface StorageQualityOption {
+  id: StorageQuality;
+  name: string;
+  description: string;
+  sampleRate: number;
+  channels: number;
+  kbps: number;
+}
+
+export const DEFAULT_STORAGE_QUALITY: StorageQuality = 'standard';
+
+export const MP3_MIME_TYPE = 'audio/mpeg';
+
+export const storageQualities: Record<StorageQuality, StorageQualityOption> = {
+  voice: {
+    id: 'voice',
+    name: 'Voice',
+    description: 'Smallest files, about 14 MB per hour of mono speech',
+    sampleRate: 22050,
+    channels: 1,
+    kbps: 32
+  },
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Clear speech in about 28 MB per hour',
+    sampleRate: 44100,
+    channels: 1,
+    kbps: 64
+  },
+  high: {
+    id: 'high',
+    name: 'High',
+    description: 'Stereo for music, about 56 MB per hour',
+    sampleRate: 44100,
+    channels: 2,
+    kbps: 128
+  }
+};
+
+export const getStorageQuality = (id: string): StorageQualityOption =>
+  storageQualities[id as StorageQuality] || storageQualities[DEFAULT_STORAGE_QUALITY];
+
+// Uncompressed formats are the ones worth transcoding
+export const isUncompressedAudio = (mimeType: string) => /wav|wave|pcm/i.test(mimeType);
+
+async function decodeAudio(blob: Blob, sampleRate: number): Promise<AudioBuffer> {
+  const audioContext = new AudioContext({ sampleRate });
+  try {
+    return await audioContext.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+}
+
+/**
+ * Re-encodes audio as MP3, which every browser plays, at the given quality.
+ * Decoding happens here since workers have no AudioContext; the encoding
+ * itself runs in a worker.
+ */
+export async function transcodeToMp3(
+  blob: Blob,
+  quality: StorageQuality,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const option = getStorageQuality(quality);
+  const decoded = await decodeAudio(blob, option.sampleRate);
+  const channelCount = Math.min(option.channels, decoded.numberOfChannels);
+  // Copies, since transferring would detach the decoded buffer's own memory
+  const channels = Array.from({ length: channelCount }, (_, channel) => decoded.getChannelData(channel).slice());
+  // Mono output averages every input channel, so nothing only in the right channel is lost
+  if (channelCount === 1 && decoded.numberOfChannels > 1) {
+    const [mono] = channels;
+    for (let channel = 1; channel < decoded.numberOfChannels; channel++) {
+      const data = decoded.getChannelData(channel);
+      for (let i = 0; i < mono.length; i++) mono[i] += data[i];
+    }
+    for (let i = 0; i < mono.length; i++) mono[i] /= decoded.numberOfChannels;
+  }
+
+  const worker = new Worker(new URL('../workers/transcodeWorker.js', import.meta.url), { type: 'module' });
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      worker.onmessage = (event) => {
+        const msg = event.data;
+        switch (msg.type) {
+          case 'progress':
+            onProgress?.(msg.progress);
+            break;
+          case 'complete':
+            resolve(msg.blob);
+            break;
+          case 'error':
+            reject(new Error(msg.error));
+            break;
+        }
+      };
+      worker.onerror = (error) => reject(new Error(`Transcode worker error: ${error.message}`));
+      worker.postMessage(
+        { channels, sampleRate: option.sampleRate, kbps: option.kbps },
+        channels.map(samples => samples.buffer)
+      );
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Checks a transcoded file decodes and runs as long as the original, before
+ * the original is given up for it.
+ */
+export async function verifyTranscode(original: Blob, transcoded: Blob): Promise<boolean> {
+  try {
+    const originalAudio = await decodeAudio(original, storageQualities.voice.sampleRate);
+    const transcodedAudio = await decodeAudio(transcoded, storageQualities.voice.sampleRate);
+    // MP3 pads a few frames at the ends
+    const tolerance = Math.max(0.5, originalAudio.duration * 0.01);
+    return Math.abs(originalAudio.duration - transcodedAudio.duration) <= tolerance;
+  } catch (error) {
+    console.warn('⚠️ AudioTranscoder: Transcoded audio failed verification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,251 @@
+import { isStorageUrl, resolveStorageUrl } from './audioStorage';
+import { AudioChunkIndex, indexAudioChunks } from './audioContainers';
+
+// Whisper and every provider work on 16 kHz mono
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+/**
+ * Audio that can be read a time range at a time, so long recordings never
+ * have to sit in memory as one buffer.
+ */
+export interface WindowedAudioSource {
+  duration: number;
+  // Decodes [start, end) seconds as 16 kHz mono
+  read: (start: number, end: number) => Promise<AudioBuffer>;
+}
+
+interface WavFormat {
+  // 1 = integer PCM, 3 = IEEE float
+  format: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  frameCount: number;
+}
+
+const WAV_HEADER_SCAN_BYTES = 64 * 1024;
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)));
+
+async function parseWavHeader(blob: Blob): Promise<WavFormat | null> {
+  const view = new DataView(await blob.slice(0, WAV_HEADER_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') return null;
+
+  let fmt: Omit<WavFormat, 'dataOffset' | 'frameCount'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let format = view.getUint16(body, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of its sub-format GUID
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+      fmt = {
+        format,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!fmt || fmt.blockAlign === 0) return null;
+      const supported = (fmt.format === 1 && [8, 16, 24, 32].includes(fmt.bitsPerSample))
+        || (fmt.format === 3 && fmt.bitsPerSample === 32);
+      if (!supported) return null;
+
+      // Streamed WAVs may leave the size unset
+      const dataSize = size === 0 || size === 0xffffffff || body + size > blob.size ? blob.size - body : size;
+      return { ...fmt, dataOffset: body, frameCount: Math.floor(dataSize / fmt.blockAlign) };
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+function readSample(view: DataView, offset: number, { format, bitsPerSample }: WavFormat): number {
+  if (format === 3) return view.getFloat32(offset, true);
+  switch (bitsPerSample) {
+    case 8: return (view.getUint8(offset) - 128) / 128;
+    case 16: return view.getInt16(offset, true) / 0x8000;
+    case 24: return ((view.getUint8(offset + 2) << 24 | view.getUint8(offset + 1) << 16 | view.getUint8(offset) << 8) >> 8) / 0x800000;
+    default: return view.getInt32(offset, true) / 0x80000000;
+  }
+}
+
+async function toTranscriptionRate(samples: Float32Array, sampleRate: number): Promise<AudioBuffer> {
+  const length = Math.max(1, samples.length);
+  const input = new AudioBuffer({ length, numberOfChannels: 1, sampleRate });
+  input.copyToChannel(samples, 0);
+  if (sampleRate === TRANSCRIPTION_SAMPLE_RATE) return input;
+
+  const context = new OfflineAudioContext(
+    1,
+    Math.max(1, Math.ceil(length * TRANSCRIPTION_SAMPLE_RATE / sampleRate)),
+    TRANSCRIPTION_SAMPLE_RATE
+  );
+  const source = context.createBufferSource();
+  source.buffer = input;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+// Uncompressed WAV is read straight from the file, one byte range per window
+function createWavSource(blob: Blob, wav: WavFormat): WindowedAudioSource {
+  const bytesPerSample = wav.bitsPerSample / 8;
+  return {
+    duration: wav.frameCount / wav.sampleRate,
+    read: async (start, end) => {
+      const from = Math.max(0, Math.floor(start * wav.sampleRate));
+      const to = Math.min(wav.frameCount, Math.ceil(end * wav.sampleRate));
+      const bytes = await blob
+        .slice(wav.dataOffset + from * wav.blockAlign, wav.dataOffset + Math.max(from, to) * wav.blockAlign)
+        .arrayBuffer();
+
+      const view = new DataView(bytes);
+      const frames = Math.floor(bytes.byteLength / wav.blockAlign);
+      const mono = new Float32Array(frames);
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < wav.channels; channel++) {
+          sum += readSample(view, frame * wav.blockAlign + channel * bytesPerSample, wav);
+        }
+        mono[frame] = sum / wav.channels;
+      }
+      return toTranscriptionRate(mono, wav.sampleRate);
+    }
+  };
+}
+
+// How far before a window decoding starts, so the decoder has settled by
+// the window's start (MP3 frames can borrow bits from earlier ones)
+const DECODE_PRIMING_SECONDS = 0.1;
+// The browser decodes at the file's own rate and channel count before
+// resampling, so long windows are decoded a slice at a time
+const DECODE_SLICE_SECONDS = 60;
+
+async function decodeToMono(bytes: ArrayBuffer): Promise<Float32Array> {
+  // Decoding resamples to the context's rate; an offline one needs no user gesture
+  const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(bytes);
+  const samples = new Float32Array(decoded.getChannelData(0));
+  if (decoded.numberOfChannels > 1) {
+    for (let channel = 1; channel < decoded.numberOfChannels; channel++) {
+      const data = decoded.getChannelData(channel);
+      for (let i = 0; i < samples.length; i++) samples[i] += data[i];
+    }
+    for (let i = 0; i < samples.length; i++) samples[i] /= decoded.numberOfChannels;
+  }
+  return samples;
+}
+
+/**
+ * Compressed audio is decoded a window at a time from the chunks that cover
+ * it: frames of an MP3, clusters of a WebM, pages of an Ogg file, fragments
+ * of an MP4. Container headers go in front of every slice.
+ */
+async function createChunkedSource(blob: Blob, index: AudioChunkIndex): Promise<WindowedAudioSource> {
+  const { headerEnd, offsets, times } = index;
+  const chunkCount = times.length;
+  const header = blob.slice(0, headerEnd);
+
+  // Chunks from the last one starting at or before `start` up to the first starting at or after `end`
+  const decodeChunks = async (start: number, end: number) => {
+    let first = 0;
+    while (first + 1 < chunkCount && times[first + 1] <= start) first++;
+    let last = first + 1;
+    while (last < chunkCount && times[last] < end) last++;
+    const samples = await decodeToMono(
+      await new Blob([header, blob.slice(offsets[first], offsets[last])]).arrayBuffer()
+    );
+    return { samples, chunkStart: times[first] };
+  };
+
+  // Containers don't say how long they are; the last chunk's decoded length does
+  let duration = index.duration;
+  if (duration === undefined) {
+    const { samples, chunkStart } = await decodeChunks(times[chunkCount - 1], Infinity);
+    duration = chunkStart + samples.length / TRANSCRIPTION_SAMPLE_RATE;
+  }
+  const totalDuration = duration;
+
+  const decodeRange = async (start: number, end: number): Promise<Float32Array> => {
+    const { samples, chunkStart } = await decodeChunks(Math.max(0, start - DECODE_PRIMING_SECONDS), end);
+    const from = Math.round((start - chunkStart) * TRANSCRIPTION_SAMPLE_RATE);
+    return samples.slice(from, from + Math.round((end - start) * TRANSCRIPTION_SAMPLE_RATE));
+  };
+
+  return {
+    duration: totalDuration,
+    read: async (start, end) => {
+      start = Math.max(0, start);
+      end = Math.min(totalDuration, end);
+
+      const pieces: Float32Array[] = [];
+      for (let from = start; from < end; from += DECODE_SLICE_SECONDS) {
+        pieces.push(await decodeRange(from, Math.min(end, from + DECODE_SLICE_SECONDS)));
+      }
+      const samples = new Float32Array(pieces.reduce((total, piece) => total + piece.length, 0));
+      let offset = 0;
+      for (const piece of pieces) {
+        samples.set(piece, offset);
+        offset += piece.length;
+      }
+      return toTranscriptionRate(samples, TRANSCRIPTION_SAMPLE_RATE);
+    }
+  };
+}
+
+/**
+ * Formats that can't be cut into chunks, like plain M4A, are decoded once
+ * and kept as a single mono channel, which is all windows need.
+ */
+async function createDecodedSource(blob: Blob): Promise<WindowedAudioSource> {
+  const samples = await decodeToMono(await blob.arrayBuffer());
+  return {
+    duration: samples.length / TRANSCRIPTION_SAMPLE_RATE,
+    read: async (start, end) => {
+      const from = Math.max(0, Math.floor(start * TRANSCRIPTION_SAMPLE_RATE));
+      const to = Math.min(samples.length, Math.ceil(end * TRANSCRIPTION_SAMPLE_RATE));
+      return toTranscriptionRate(samples.slice(from, Math.max(from, to)), TRANSCRIPTION_SAMPLE_RATE);
+    }
+  };
+}
+
+export async function openAudioSource(audioUrl: string): Promise<WindowedAudioSource> {
+  // Resolve storage URL if needed
+  let resolvedUrl = audioUrl;
+  if (isStorageUrl(audioUrl)) {
+    const resolved = await resolveStorageUrl(audioUrl);
+    if (!resolved) {
+      throw new Error('Failed to resolve audio URL');
+    }
+    resolvedUrl = resolved.url;
+  }
+
+  const response = await fetch(resolvedUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio: ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const wav = await parseWavHeader(blob);
+  if (wav) return createWavSource(blob, wav);
+  const chunks = await indexAudioChunks(blob);
+  return chunks ? createChunkedSource(blob, chunks) : createDecodedSource(blob);
+}
+
+// Copy of the first `seconds` of a buffer
+export function truncateAudio(audio: AudioBuffer, seconds: number): AudioBuffer {
+  const length = Math.max(1, Math.min(audio.length, Math.round(seconds * audio.sampleRate)));
+  const truncated = new AudioBuffer({ length, numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate });
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    truncated.copyToChannel(audio.getChannelData(channel).subarray(0, length), channel);
+  }
+  return truncated;
+}
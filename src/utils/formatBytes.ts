@@ -0,0 +1,14 @@
+/**
+ * Formats a byte count as a human readable size
+ * @param bytes Size in bytes
+ * @returns Formatted size string (e.g. "41.2 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (!bytes || bytes < 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const value = bytes / Math.pow(1024, exponent);
+
+  return `${exponent === 0 ? value : value.toFixed(1)} ${units[exponent]}`;
+}
@@ -0,0 +1,73 @@
+// Inspects the Cache Storage used by transformers.js for downloaded models
+export const MODEL_CACHE_NAME = 'transformers-cache';
+
+export interface CachedModelInfo {
+  modelId: string;
+  size: number;
+  fileCount: number;
+  // Whether the weights needed to run offline are cached for each precision
+  hasQuantized: boolean;
+  hasFull: boolean;
+}
+
+// Cache keys look like https://huggingface.co/Xenova/whisper-tiny.en/resolve/main/onnx/encoder_model.onnx
+function parseCacheUrl(url: string): { modelId: string; file: string } | null {
+  try {
+    const match = new URL(url).pathname.match(/^\/([^/]+\/[^/]+)\/resolve\/[^/]+\/(.+)$/);
+    return match ? { modelId: match[1], file: match[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function getEntrySize(response: Response | undefined): Promise<number> {
+  if (!response) return 0;
+  const length = Number(response.headers.get('content-length'));
+  if (length > 0) return length;
+  // Some responses are cached without a length header
+  return (await response.blob()).size;
+}
+
+const hasWeights = (files: Set<string>, suffix: string) =>
+  files.has(`onnx/encoder_model${suffix}.onnx`) && files.has(`onnx/decoder_model_merged${suffix}.onnx`);
+
+export async function listCachedModels(): Promise<CachedModelInfo[]> {
+  if (typeof caches === 'undefined') return [];
+
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const requests = await cache.keys();
+  const models = new Map<string, { size: number; files: Set<string> }>();
+
+  for (const request of requests) {
+    const parsed = parseCacheUrl(request.url);
+    if (!parsed) continue;
+
+    const entry = models.get(parsed.modelId) || { size: 0, files: new Set<string>() };
+    entry.size += await getEntrySize(await cache.match(request));
+    entry.files.add(parsed.file);
+    models.set(parsed.modelId, entry);
+  }
+
+  return [...models.entries()].map(([modelId, { size, files }]) => ({
+    modelId,
+    size,
+    fileCount: files.size,
+    hasQuantized: hasWeights(files, '_quantized'),
+    hasFull: hasWeights(files, '')
+  }));
+}
+
+export async function deleteCachedModel(modelId: string): Promise<void> {
+  if (typeof caches === 'undefined') return;
+
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter(request => parseCacheUrl(request.url)?.modelId === modelId)
+      .map(request => cache.delete(request))
+  );
+}
+
+export const isModelReady = (info: CachedModelInfo | undefined, quantized: boolean) =>
+  !!info && (quantized ? info.hasQuantized : info.hasFull);
@@ -0,0 +1,55 @@
+import type { AudioClip, Note } from '../stores/notesStore';
+
+/**
+ * A note's recordings in order. The first recording predates clips and lives
+ * on the note itself, so it is presented as a clip with the note's id.
+ */
+export function getNoteClips(note: Note): AudioClip[] {
+  const clips = note.clips ?? [];
+  if (!note.audioUrl) return clips;
+
+  return [
+    {
+      id: note.id,
+      audioUrl: note.audioUrl,
+      duration: note.duration ?? 0,
+      recordedAt: note.created,
+      segments: note.segments
+    },
+    ...clips
+  ];
+}
+
+export function findClipByAudioUrl(note: Note, audioUrl: string): AudioClip | undefined {
+  return getNoteClips(note).find(clip => clip.audioUrl === audioUrl);
+}
+
+// Total recorded time across all of a note's clips, in seconds
+export function getNoteDuration(note: Note): number {
+  return getNoteClips(note).reduce((total, clip) => total + clip.duration, 0);
+}
+
+// Bookmarks without a clip id belong to the first recording
+export function isBookmarkInClip(note: Note, bookmark: { clipId?: string }, clipId: string): boolean {
+  return (bookmark.clipId ?? note.id) === clipId;
+}
+
+// The clip that follows the one at audioUrl within the same note, if any
+export function findNextClip(notes: Note[], audioUrl: string): AudioClip | undefined {
+  for (const note of notes) {
+    const clips = getNoteClips(note);
+    const index = clips.findIndex(clip => clip.audioUrl === audioUrl);
+    if (index !== -1) return clips[index + 1];
+  }
+  return undefined;
+}
+
+// Every stored recording a note points at, its silence-trimmed copy and
+// the original of an unconfirmed edit included
+export function getNoteAudioUrls(note: Note): string[] {
+  const urls = getNoteClips(note).map(clip => clip.audioUrl);
+  if (note.trimmedAudio) urls.push(note.trimmedAudio.url);
+  if (note.originalAudio) urls.push(note.originalAudio.audioUrl);
+  if (note.originalAudio?.trimmedAudio) urls.push(note.originalAudio.trimmedAudio.url);
+  return urls;
+}
@@ -0,0 +1,82 @@
+export type RecordingProfileId = 'voice-memo' | 'meeting' | 'high-fidelity';
+
+export interface RecordingProfile {
+  id: RecordingProfileId;
+  name: string;
+  description: string;
+  sampleRate: number;
+  channelCount: number;
+  audioBitsPerSecond: number;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+// Where the recorded audio comes from; tab audio is mixed in with the mic
+export type RecordingSourceMode = 'microphone' | 'microphone-and-tab';
+export type AudioSourceKind = 'microphone' | 'tab';
+
+// Gain applied to each source before mixing, 1 leaves it unchanged
+export type SourceGains = Record<AudioSourceKind, number>;
+
+export const DEFAULT_SOURCE_GAINS: SourceGains = { microphone: 1, tab: 1 };
+
+export const audioSourceLabels: Record<AudioSourceKind, string> = {
+  microphone: 'Microphone',
+  tab: 'Tab audio'
+};
+
+export const formatAudioSources = (sources: AudioSourceKind[]) =>
+  sources.map(source => audioSourceLabels[source]).join(' + ');
+
+export const DEFAULT_RECORDING_PROFILE: RecordingProfileId = 'voice-memo';
+
+export const recordingProfiles: Record<RecordingProfileId, RecordingProfile> = {
+  'voice-memo': {
+    id: 'voice-memo',
+    name: 'Voice memo',
+    description: 'Small files, tuned for one person speaking close to the mic',
+    sampleRate: 22050,
+    channelCount: 1,
+    audioBitsPerSecond: 16000,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true
+  },
+  'meeting': {
+    id: 'meeting',
+    name: 'Meeting',
+    description: 'Clearer speech from across a room, with echo and noise reduction',
+    sampleRate: 48000,
+    channelCount: 1,
+    audioBitsPerSecond: 32000,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true
+  },
+  'high-fidelity': {
+    id: 'high-fidelity',
+    name: 'High fidelity',
+    description: 'Stereo with no processing, for music and external mics',
+    sampleRate: 48000,
+    channelCount: 2,
+    audioBitsPerSecond: 128000,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false
+  }
+};
+
+export const getRecordingProfile = (id: string): RecordingProfile =>
+  recordingProfiles[id as RecordingProfileId] || recordingProfiles[DEFAULT_RECORDING_PROFILE];
+
+export function buildAudioConstraints(profile: RecordingProfile, deviceId?: string): MediaTrackConstraints {
+  return {
+    deviceId: deviceId ? { exact: deviceId } : undefined,
+    echoCancellation: profile.echoCancellation,
+    noiseSuppression: profile.noiseSuppression,
+    autoGainControl: profile.autoGainControl,
+    channelCount: profile.channelCount,
+    sampleRate: profile.sampleRate
+  };
+}
@@ -0,0 +1,134 @@
+import type { NoteBookmark } from '../stores/notesStore';
+import type { AudioSourceKind } from './recordingProfiles';
+
+// IndexedDB storage for recordings in progress, so a crash or closed tab
+// doesn't lose what was already captured
+const DB_NAME = 'MonologRecordingDB';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const CHUNK_STORE = 'chunks';
+
+export interface RecordingSession {
+  id: string;
+  mimeType: string;
+  fileExtension: string;
+  startedAt: number;
+  updatedAt: number;
+  // Seconds recorded so far, excluding pauses
+  duration: number;
+  chunkCount: number;
+  bookmarks?: NoteBookmark[];
+  // Set when the recording was continuing an existing note
+  appendToNoteId?: string;
+  sources?: AudioSourceKind[];
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  blob: Blob;
+}
+
+class RecordingSessionStorage {
+  private db: IDBDatabase | null = null;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+          const store = db.createObjectStore(CHUNK_STORE, { keyPath: ['sessionId', 'index'] });
+          store.createIndex('sessionId', 'sessionId', { unique: false });
+        }
+      };
+    });
+  }
+
+  async saveSession(session: RecordingSession): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE], 'readwrite');
+      const request = transaction.objectStore(SESSION_STORE).put(session);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Writes the chunk and the session's progress together
+  async appendChunk(session: RecordingSession, index: number, blob: Blob): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+      const chunk: StoredChunk = { sessionId: session.id, index, blob };
+      transaction.objectStore(CHUNK_STORE).put(chunk);
+      transaction.objectStore(SESSION_STORE).put(session);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getAllSessions(): Promise<RecordingSession[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE], 'readonly');
+      const request = transaction.objectStore(SESSION_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result as RecordingSession[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getChunks(sessionId: string): Promise<Blob[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([CHUNK_STORE], 'readonly');
+      const request = transaction.objectStore(CHUNK_STORE).index('sessionId').getAll(sessionId);
+
+      request.onsuccess = () => {
+        const chunks = request.result as StoredChunk[];
+        resolve(chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.blob));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+      transaction.objectStore(SESSION_STORE).delete(sessionId);
+      const chunks = transaction.objectStore(CHUNK_STORE);
+      const request = chunks.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          chunks.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+export const recordingSessionStorage = new RecordingSessionStorage();
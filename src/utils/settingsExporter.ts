@@ -1,6 +1,9 @@
 import { useLLMProvidersStore } from '../stores/llmProvidersStore';
 import { useAgentsStore } from '../stores/agentsStore';
-import { useSettingsStore } from '../stores/settingsStore';
+import { useSettingsStore, OpenAICompatibleSttSettings, DiarizationSettings, CorrectionRule, TranscriptFormattingSettings, RecordingRules } from '../stores/settingsStore';
+import type { SttProviderId } from '../services/stt/types';
+import { DEFAULT_STORAGE_QUALITY, StorageQuality } from './audioTranscoder';
+import { DEFAULT_RECORDING_PROFILE, DEFAULT_SOURCE_GAINS, RecordingProfileId, RecordingSourceMode, SourceGains } from './recordingProfiles';
 
 export interface ExportedSettings {
   version: number;
@@ -19,8 +22,26 @@ export interface ExportedSettings {
     quantized: boolean;
     subtask: string;
     language: string;
-    useOpenAIForSTT: boolean;
+    keepEnglishTranslation?: boolean;
+    // Exports from before the provider registry only carry this flag
+    useOpenAIForSTT?: boolean;
+    sttProviderOrder?: SttProviderId[];
+    sttOpenAICompatible?: OpenAICompatibleSttSettings;
     openAIModel: string;
+    maxConcurrentTranscriptions?: number;
+    liveTranscription?: boolean;
+    voiceActivityDetection?: boolean;
+    saveTrimmedAudio?: boolean;
+    diarization?: DiarizationSettings;
+    vocabulary?: string[];
+    correctionRules?: CorrectionRule[];
+    transcriptFormatting?: TranscriptFormattingSettings;
+    recordingProfile?: RecordingProfileId;
+    recordingSourceMode?: RecordingSourceMode;
+    sourceGains?: SourceGains;
+    recordingRules?: RecordingRules;
+    audioStorageQuality?: StorageQuality;
+    skipSilence?: boolean;
   };
 }
 
@@ -58,8 +79,24 @@ export function exportSettings(): ExportedSettings {
     quantized: settingsState.quantized,
     subtask: settingsState.subtask,
     language: settingsState.language,
-    useOpenAIForSTT: settingsState.useOpenAIForSTT,
-    openAIModel: settingsState.openAIModel
+    keepEnglishTranslation: settingsState.keepEnglishTranslation,
+    sttProviderOrder: settingsState.sttProviderOrder,
+    sttOpenAICompatible: settingsState.sttOpenAICompatible,
+    openAIModel: settingsState.openAIModel,
+    maxConcurrentTranscriptions: settingsState.maxConcurrentTranscriptions,
+    liveTranscription: settingsState.liveTranscription,
+    voiceActivityDetection: settingsState.voiceActivityDetection,
+    saveTrimmedAudio: settingsState.saveTrimmedAudio,
+    diarization: settingsState.diarization,
+    vocabulary: settingsState.vocabulary,
+    correctionRules: settingsState.correctionRules,
+    transcriptFormatting: settingsState.transcriptFormatting,
+    recordingProfile: settingsState.recordingProfile,
+    recordingSourceMode: settingsState.recordingSourceMode,
+    sourceGains: settingsState.sourceGains,
+    recordingRules: settingsState.recordingRules,
+    audioStorageQuality: settingsState.audioStorageQuality,
+    skipSilence: settingsState.skipSilence
   };
   
   // With stable provider IDs, we can use the original format
@@ -370,7 +407,13 @@ export async function importSettings(data: ExportedSettings): Promise<{ success:
     
     // Import app settings
     if (data.appSettings) {
-      settingsStore.updateModelSettings(data.appSettings);
+      const { useOpenAIForSTT, ...appSettings } = data.appSettings;
+      if (!appSettings.sttProviderOrder && useOpenAIForSTT !== undefined) {
+        appSettings.sttProviderOrder = useOpenAIForSTT
+          ? ['openai-compatible', 'local-whisper']
+          : ['local-whisper'];
+      }
+      settingsStore.updateModelSettings(appSettings);
     }
     
     return { success: true, message: 'Settings imported successfully' };
@@ -441,8 +484,41 @@ export function resetSettings(): { success: boolean; message: string } {
       quantized: true,
       subtask: 'transcribe',
       language: 'en',
-      useOpenAIForSTT: false,
-      openAIModel: 'whisper-1'
+      keepEnglishTranslation: false,
+      sttProviderOrder: ['local-whisper'],
+      sttOpenAICompatible: {
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: ''
+      },
+      openAIModel: 'whisper-1',
+      maxConcurrentTranscriptions: 1,
+      liveTranscription: false,
+      voiceActivityDetection: true,
+      saveTrimmedAudio: false,
+      diarization: {
+        mode: 'off',
+        url: '',
+        apiKey: ''
+      },
+      vocabulary: [],
+      correctionRules: [],
+      transcriptFormatting: {
+        enabled: true,
+        paragraphPauseSeconds: 2,
+        normalizeText: true,
+        timestampHeadingMinutes: 0
+      },
+      recordingProfile: DEFAULT_RECORDING_PROFILE,
+      inputDeviceId: '',
+      recordingSourceMode: 'microphone',
+      sourceGains: DEFAULT_SOURCE_GAINS,
+      recordingRules: {
+        maxDurationMinutes: 0,
+        silenceStopMinutes: 0,
+        splitEveryMinutes: 0
+      },
+      audioStorageQuality: DEFAULT_STORAGE_QUALITY,
+      skipSilence: false
     });
     
     return { success: true, message: 'All settings reset to defaults' };
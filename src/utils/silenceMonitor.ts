@@ -0,0 +1,49 @@
+// Below this level (dBFS) the input counts as silent
+const SILENCE_DB = -50;
+const POLL_INTERVAL_MS = 250;
+
+export interface SilenceMonitor {
+  // Seconds since the input was last above the silence threshold
+  getSilentSeconds: () => number;
+  // Start counting from now, e.g. after resuming a paused recording
+  reset: () => void;
+  stop: () => void;
+}
+
+/**
+ * Watches a live stream's level so a forgotten recording can be stopped.
+ * Polls a few times a second rather than every frame, since only
+ * minutes-long silences matter.
+ */
+export function createSilenceMonitor(stream: MediaStream): SilenceMonitor {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let loudAt = Date.now();
+
+  const interval = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const db = 20 * Math.log10(Math.sqrt(energy / samples.length) + 1e-9);
+    if (db > SILENCE_DB) loudAt = Date.now();
+  }, POLL_INTERVAL_MS);
+
+  return {
+    getSilentSeconds: () => (Date.now() - loudAt) / 1000,
+    reset: () => {
+      loudAt = Date.now();
+    },
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      audioContext.close().catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import type { WaveformPeaks } from './waveformPeaks';
+
+// Silence must be this much quieter than the loud parts (in dB)
+const SILENCE_MARGIN_DB = 20;
+// Pauses shorter than this are part of normal speech rhythm
+const MIN_SILENCE_SECONDS = 1;
+// Audio kept either side of a skipped range so words aren't clipped
+const EDGE_PADDING_SECONDS = 0.25;
+
+export interface SilentRange {
+  start: number;
+  end: number;
+}
+
+const toDb = (peak: number) => 20 * Math.log10(Math.max(peak, 1) / 255);
+
+/**
+ * Stretches of a recording quiet enough to skip, found from its waveform
+ * peaks. The threshold follows the loud parts of the recording, so quiet
+ * voices aren't skipped along with the silence.
+ */
+export function findSilentRanges({ peaks, peaksPerSecond }: WaveformPeaks): SilentRange[] {
+  if (peaks.length === 0) return [];
+
+  const sorted = Array.from(peaks).sort((a, b) => a - b);
+  const loud = toDb(sorted[Math.floor(sorted.length * 0.9)]);
+  // Never treat the noise floor of a near-silent file as speech
+  const threshold = Math.max(loud - SILENCE_MARGIN_DB, -60);
+
+  const ranges: SilentRange[] = [];
+  let silenceStart = -1;
+  for (let i = 0; i <= peaks.length; i++) {
+    const isSilent = i < peaks.length && toDb(peaks[i]) < threshold;
+    if (isSilent && silenceStart < 0) {
+      silenceStart = i;
+    } else if (!isSilent && silenceStart >= 0) {
+      const start = silenceStart / peaksPerSecond + EDGE_PADDING_SECONDS;
+      const end = i / peaksPerSecond - EDGE_PADDING_SECONDS;
+      if (end - start >= MIN_SILENCE_SECONDS) ranges.push({ start, end });
+      silenceStart = -1;
+    }
+  }
+  return ranges;
+}
+
+export function findSilentRangeAt(ranges: SilentRange[], time: number): SilentRange | undefined {
+  return ranges.find(range => time >= range.start && time < range.end);
+}
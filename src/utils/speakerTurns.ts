@@ -0,0 +1,169 @@
+import type { TranscriptSegment } from '../stores/notesStore';
+
+// A pause this long (seconds) between segments usually means a new turn
+const TURN_PAUSE_SECONDS = 1.0;
+// How far apart two voices' features must be to count as different speakers
+const SPEAKER_DISTANCE_THRESHOLD = 0.35;
+const MAX_SPEAKERS = 6;
+
+interface VoiceFeatures {
+  loudness: number;
+  brightness: number;
+}
+
+interface SpeakerProfile {
+  id: string;
+  features: VoiceFeatures;
+  weight: number;
+}
+
+/**
+ * Rough voice features for a stretch of audio: log loudness and zero-crossing
+ * rate (a cheap stand-in for pitch/timbre). Good enough to tell a quiet remote
+ * participant from a loud one in the room, not a real speaker embedding.
+ */
+function measureFeatures(samples: Float32Array, start: number, end: number, sampleRate: number): VoiceFeatures | null {
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(samples.length, Math.ceil(end * sampleRate));
+  if (to - from < sampleRate * 0.2) return null;
+
+  let energy = 0;
+  let crossings = 0;
+  for (let i = from; i < to; i++) {
+    energy += samples[i] * samples[i];
+    if (i > from && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+
+  const rms = Math.sqrt(energy / (to - from));
+  return {
+    // Map roughly -60dB..0dB onto 0..1
+    loudness: Math.min(1, Math.max(0, (20 * Math.log10(rms + 1e-9) + 60) / 60)),
+    brightness: Math.min(1, crossings / (to - from) * 10)
+  };
+}
+
+const distance = (a: VoiceFeatures, b: VoiceFeatures) =>
+  Math.hypot(a.loudness - b.loudness, a.brightness - b.brightness);
+
+/**
+ * Splits segments into speaker turns using pauses and changes in loudness and
+ * brightness, then clusters turns into speakers. Returns copies of the
+ * segments with a `speaker` id ("S1", "S2", ...).
+ */
+export function detectSpeakerTurns(audio: AudioBuffer, segments: TranscriptSegment[]): TranscriptSegment[] {
+  if (segments.length === 0) return segments;
+
+  const samples = audio.getChannelData(0);
+  const profiles: SpeakerProfile[] = [];
+
+  // Group consecutive segments into turns
+  const turns: { segments: TranscriptSegment[]; features: VoiceFeatures | null }[] = [];
+  segments.forEach((segment, index) => {
+    const features = measureFeatures(samples, segment.start, segment.end, audio.sampleRate);
+    const previous = turns[turns.length - 1];
+    const gap = index > 0 ? segment.start - segments[index - 1].end : 0;
+    const changedVoice = !!(features && previous?.features
+      && distance(features, previous.features) > SPEAKER_DISTANCE_THRESHOLD);
+
+    if (!previous || gap >= TURN_PAUSE_SECONDS || changedVoice) {
+      turns.push({ segments: [segment], features });
+    } else {
+      previous.segments.push(segment);
+      previous.features = previous.features ?? features;
+    }
+  });
+
+  // Assign each turn to the closest known speaker, or start a new one.
+  // Turns too short to measure stay with the previous speaker.
+  let lastSpeaker: SpeakerProfile | undefined;
+  return turns.flatMap(turn => {
+    let speaker = lastSpeaker;
+    if (turn.features) {
+      const closest = profiles
+        .map(profile => ({ profile, d: distance(profile.features, turn.features!) }))
+        .sort((a, b) => a.d - b.d)[0];
+
+      if (closest && (closest.d <= SPEAKER_DISTANCE_THRESHOLD || profiles.length >= MAX_SPEAKERS)) {
+        speaker = closest.profile;
+        // Running average keeps the profile stable as more turns arrive
+        const weight = speaker.weight + 1;
+        speaker.features = {
+          loudness: (speaker.features.loudness * speaker.weight + turn.features.loudness) / weight,
+          brightness: (speaker.features.brightness * speaker.weight + turn.features.brightness) / weight
+        };
+        speaker.weight = weight;
+      } else {
+        speaker = { id: `S${profiles.length + 1}`, features: turn.features, weight: 1 };
+        profiles.push(speaker);
+      }
+    } else if (!speaker) {
+      speaker = { id: 'S1', features: { loudness: 0, brightness: 0 }, weight: 0 };
+      profiles.push(speaker);
+    }
+
+    lastSpeaker = speaker;
+    return turn.segments.map(segment => ({ ...segment, speaker: speaker!.id }));
+  });
+}
+
+/**
+ * Assigns speakers from externally diarized ranges by largest time overlap.
+ */
+export function applySpeakerRanges(
+  segments: TranscriptSegment[],
+  ranges: { start: number; end: number; speaker: string }[]
+): TranscriptSegment[] {
+  // Normalize backend labels ("SPEAKER_00", "A", ...) to S1, S2, ...
+  const ids = new Map<string, string>();
+  const idFor = (label: string) => {
+    if (!ids.has(label)) ids.set(label, `S${ids.size + 1}`);
+    return ids.get(label)!;
+  };
+
+  return segments.map(segment => {
+    let best: string | undefined;
+    let bestOverlap = 0;
+    ranges.forEach(range => {
+      const overlap = Math.min(segment.end, range.end) - Math.max(segment.start, range.start);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        best = range.speaker;
+      }
+    });
+    return best !== undefined ? { ...segment, speaker: idFor(best) } : segment;
+  });
+}
+
+export function getSpeakerIds(segments: TranscriptSegment[] = []): string[] {
+  return [...new Set(segments.map(segment => segment.speaker).filter((id): id is string => !!id))];
+}
+
+export const defaultSpeakerName = (speakerId: string) =>
+  `Speaker ${speakerId.replace(/^S/, '')}`;
+
+export const getSpeakerName = (speakerId: string, speakers: Record<string, string> = {}) =>
+  speakers[speakerId] || defaultSpeakerName(speakerId);
+
+/**
+ * Formats segments as markdown paragraphs, one per speaker turn. Falls back to
+ * plain joined text when there is only one speaker.
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[], speakers: Record<string, string> = {}): string {
+  if (getSpeakerIds(segments).length < 2) {
+    return segments.map(segment => segment.text).join(' ');
+  }
+
+  const paragraphs: { speaker?: string; text: string[] }[] = [];
+  segments.forEach(segment => {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text.push(segment.text);
+    } else {
+      paragraphs.push({ speaker: segment.speaker, text: [segment.text] });
+    }
+  });
+
+  return paragraphs
+    .map(p => p.speaker ? `**${getSpeakerName(p.speaker, speakers)}:** ${p.text.join(' ')}` : p.text.join(' '))
+    .join('\n\n');
+}
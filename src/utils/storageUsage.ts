@@ -0,0 +1,84 @@
+import type { Note } from '../stores/notesStore';
+import { getStorageId, isStorageUrl, StoredAudioInfo } from './audioStorage';
+import { getNoteAudioUrls } from './noteClips';
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+// A note whose audio-storage:// URL no longer has a blob behind it
+export interface MissingAudio {
+  noteId: string;
+  audioUrl: string;
+}
+
+export interface AudioIntegrityReport {
+  // Stored blobs that no note points at
+  orphans: StoredAudioInfo[];
+  missing: MissingAudio[];
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+export async function isStoragePersisted(): Promise<boolean> {
+  return navigator.storage?.persisted ? navigator.storage.persisted() : false;
+}
+
+/**
+ * Asks the browser not to evict our data under storage pressure. Chrome
+ * decides silently, Firefox asks the user.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await isStoragePersisted()) return true;
+  return navigator.storage.persist();
+}
+
+// localStorage holds the persisted stores; strings are UTF-16, two bytes a character
+export function getLocalStorageUsage(): number {
+  let bytes = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key) bytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+  }
+  return bytes;
+}
+
+// Stored audio bytes per note, clips and trimmed copies included
+export function getNoteAudioSizes(notes: Note[], stored: StoredAudioInfo[]): Record<string, number> {
+  const sizes = new Map(stored.map(item => [item.id, item.size]));
+  const result: Record<string, number> = {};
+  for (const note of notes) {
+    const total = getNoteAudioUrls(note)
+      .filter(isStorageUrl)
+      .reduce((sum, url) => sum + (sizes.get(getStorageId(url)) ?? 0), 0);
+    if (total > 0) result[note.id] = total;
+  }
+  return result;
+}
+
+// Cross-checks the notes against what is actually in the audio database
+export function checkAudioIntegrity(notes: Note[], stored: StoredAudioInfo[]): AudioIntegrityReport {
+  const storedIds = new Set(stored.map(item => item.id));
+  const referencedIds = new Set<string>();
+  const missing: MissingAudio[] = [];
+
+  for (const note of notes) {
+    for (const audioUrl of getNoteAudioUrls(note)) {
+      if (!isStorageUrl(audioUrl)) continue;
+      const id = getStorageId(audioUrl);
+      referencedIds.add(id);
+      if (!storedIds.has(id)) missing.push({ noteId: note.id, audioUrl });
+    }
+  }
+
+  return {
+    orphans: stored.filter(item => !referencedIds.has(item.id)),
+    missing
+  };
+}
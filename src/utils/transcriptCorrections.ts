@@ -0,0 +1,58 @@
+import type { CorrectionRule } from '../stores/settingsStore';
+import type { TranscriptSegment } from '../stores/notesStore';
+
+// Whisper only looks at the last ~224 tokens of a prompt
+const MAX_PROMPT_LENGTH = 800;
+
+/**
+ * Builds an initial prompt from glossary terms. Whisper copies spelling and
+ * style from the prompt, so a plain comma separated list works best.
+ */
+export function buildVocabularyPrompt(terms: string[]): string | undefined {
+  let prompt = '';
+  for (const term of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : undefined;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a rule into a global RegExp. Plain-text rules match whole words so
+ * "AI" doesn't rewrite the middle of "said". Returns null for invalid patterns.
+ */
+export function compileCorrectionRule(rule: CorrectionRule): RegExp | null {
+  if (!rule.find) return null;
+
+  const flags = rule.caseSensitive ? 'g' : 'gi';
+  try {
+    if (rule.isRegex) return new RegExp(rule.find, flags);
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(rule.find)}(?![\\p{L}\\p{N}])`, `${flags}u`);
+  } catch {
+    return null;
+  }
+}
+
+export function applyCorrectionRules(text: string, rules: CorrectionRule[]): string {
+  return rules.reduce((result, rule) => {
+    if (!rule.enabled) return result;
+
+    const pattern = compileCorrectionRule(rule);
+    if (!pattern) {
+      console.warn('⚠️ Corrections: Skipping invalid rule', rule.find);
+      return result;
+    }
+    // Plain-text replacements are literal; regex rules may use $1 etc.
+    return rule.isRegex
+      ? result.replace(pattern, rule.replace)
+      : result.replace(pattern, () => rule.replace);
+  }, text);
+}
+
+export function applyCorrectionsToSegments(segments: TranscriptSegment[], rules: CorrectionRule[]): TranscriptSegment[] {
+  if (!rules.some(rule => rule.enabled)) return segments;
+  return segments.map(segment => ({ ...segment, text: applyCorrectionRules(segment.text, rules) }));
+}
@@ -0,0 +1,79 @@
+import type { TranscriptSegment } from '../stores/notesStore';
+import type { TranscriptFormattingSettings } from '../stores/settingsStore';
+import { getSpeakerIds, getSpeakerName } from './speakerTurns';
+import { formatTime } from './formatTime';
+import { toLanguageCode } from './languages';
+
+interface Paragraph {
+  speaker?: string;
+  heading?: string;
+  text: string[];
+}
+
+/**
+ * Tidies raw recognizer output: single spaces, no space before punctuation,
+ * capitalized sentences and, for English, a capital "I". A lone "i" is a
+ * word of its own in Italian and Catalan, so other languages keep it.
+ */
+export function normalizeSentences(text: string, language?: string): string {
+  const code = toLanguageCode(language);
+  const tidied = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/([,;:!?])(?=[A-Za-z])/g, '$1 ');
+  return (!code || code === 'en' ? tidied.replace(/(^|\s)i(?=\s|'|’|[,.!?](\s|$)|$)/g, '$1I') : tidied)
+    .replace(/(^|[.!?]\s+)([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+/**
+ * Lays segments out as paragraphs: a new one after a long pause or when the
+ * speaker changes, with optional timestamp headings every few minutes.
+ * Multi-speaker paragraphs open with "**Name:**" when the speaker changes.
+ */
+export function formatTranscript(
+  segments: TranscriptSegment[],
+  options: TranscriptFormattingSettings,
+  speakers?: Record<string, string>,
+  language?: string
+): string {
+  const hasSpeakers = getSpeakerIds(segments).length > 1;
+  const headingInterval = options.timestampHeadingMinutes * 60;
+  const paragraphs: Paragraph[] = [];
+  let nextHeading = headingInterval;
+
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1];
+    const last = paragraphs[paragraphs.length - 1];
+
+    let heading: string | undefined;
+    if (headingInterval > 0 && segment.start >= nextHeading) {
+      // Label with the boundary just crossed; stretches without speech get no heading
+      const boundary = Math.floor(segment.start / headingInterval) * headingInterval;
+      heading = formatTime(boundary);
+      nextHeading = boundary + headingInterval;
+    }
+
+    const isPause = !!previous && options.paragraphPauseSeconds > 0
+      && segment.start - previous.end >= options.paragraphPauseSeconds;
+    const isNewSpeaker = hasSpeakers && last?.speaker !== segment.speaker;
+
+    if (!last || heading || isPause || isNewSpeaker) {
+      paragraphs.push({ speaker: hasSpeakers ? segment.speaker : undefined, heading, text: [segment.text] });
+    } else {
+      last.text.push(segment.text);
+    }
+  });
+
+  return paragraphs.map((paragraph, index) => {
+    let text = paragraph.text.join(' ');
+    if (options.normalizeText) text = normalizeSentences(text, language);
+    else text = text.trim();
+
+    const previous = paragraphs[index - 1];
+    if (paragraph.speaker && (paragraph.heading || previous?.speaker !== paragraph.speaker)) {
+      text = `**${getSpeakerName(paragraph.speaker, speakers)}:** ${text}`;
+    }
+    return paragraph.heading ? `### ${paragraph.heading}\n\n${text}` : text;
+  }).join('\n\n');
+}
@@ -0,0 +1,57 @@
+import type { TranscriptSegment } from '../stores/notesStore';
+
+// Chunk shape produced by transformers.js `_decode_asr` / pipeline output
+interface WhisperChunk {
+  timestamp: [number, number | null];
+  text: string;
+}
+
+// Segment shape returned by OpenAI `verbose_json`
+interface VerboseJsonSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Converts transformers.js timestamped chunks into note segments.
+ * The final chunk may have a null end time while decoding is still running,
+ * so fall back to its start time.
+ */
+export function segmentsFromWhisperChunks(chunks: WhisperChunk[] | undefined): TranscriptSegment[] {
+  if (!Array.isArray(chunks)) return [];
+
+  return chunks
+    .filter(chunk => chunk && Array.isArray(chunk.timestamp) && chunk.text?.trim())
+    .map(chunk => {
+      const start = chunk.timestamp[0] ?? 0;
+      const end = chunk.timestamp[1] ?? start;
+      return { start, end, text: chunk.text.trim() };
+    });
+}
+
+/**
+ * Converts OpenAI `verbose_json` segments into note segments.
+ */
+export function segmentsFromVerboseJson(segments: VerboseJsonSegment[] | undefined): TranscriptSegment[] {
+  if (!Array.isArray(segments)) return [];
+
+  return segments
+    .filter(segment => segment && typeof segment.start === 'number' && segment.text?.trim())
+    .map(segment => ({
+      start: segment.start,
+      end: typeof segment.end === 'number' ? segment.end : segment.start,
+      text: segment.text.trim()
+    }));
+}
+
+/**
+ * Returns the index of the last segment that started at or before the given
+ * time, or -1 if playback is before the first segment.
+ */
+export function findActiveSegmentIndex(segments: TranscriptSegment[], time: number): number {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (time >= segments[i].start) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,109 @@
+// IndexedDB Transcription Job Storage Utility
+import type { NoteTranslation, TranscriptSegment } from '../stores/notesStore';
+
+const DB_NAME = 'MonologTranscriptionDB';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+
+export type TranscriptionJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Progress through a long recording that is transcribed window by window
+export interface TranscriptionCheckpoint {
+  // Seconds of the recording already transcribed
+  position: number;
+  duration: number;
+  text: string;
+  segments: TranscriptSegment[];
+  translation?: NoteTranslation;
+  // Detected in the first window and reused so every window agrees
+  language?: string;
+  model?: string;
+  providerId?: string;
+}
+
+export interface StoredTranscriptionJob {
+  id: string;
+  noteId: string;
+  audioUrl: string;
+  priority: number;
+  status: TranscriptionJobStatus;
+  statusText: string;
+  attempts: number;
+  maxAttempts: number;
+  // When false the note keeps its current text until the job completes
+  progressiveUpdates?: boolean;
+  // Store the result as a note version instead of replacing the content
+  saveAsVersion?: boolean;
+  // Transcribe a clip recorded into the note later and append its text
+  clipId?: string;
+  checkpoint?: TranscriptionCheckpoint;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+class TranscriptionJobStorage {
+  private db: IDBDatabase | null = null;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('noteId', 'noteId', { unique: false });
+          store.createIndex('status', 'status', { unique: false });
+        }
+      };
+    });
+  }
+
+  async saveJob(job: StoredTranscriptionJob): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.put(job);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllJobs(): Promise<StoredTranscriptionJob[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result as StoredTranscriptionJob[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const transcriptionJobStorage = new TranscriptionJobStorage();
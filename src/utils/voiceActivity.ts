@@ -0,0 +1,170 @@
+import type { TranscriptSegment } from '../stores/notesStore';
+
+const FRAME_SECONDS = 0.03;
+// Speech must be this much louder than the noise floor (in dB)
+const SPEECH_MARGIN_DB = 10;
+const MIN_SPEECH_SECONDS = 0.25;
+// Pauses shorter than this stay inside a region so words aren't clipped
+const MERGE_GAP_SECONDS = 0.6;
+const REGION_PADDING_SECONDS = 0.2;
+// Silence kept between regions in the trimmed audio so Whisper sees a break
+const JOIN_GAP_SECONDS = 0.3;
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+// Where each region of the trimmed audio sits in the original recording
+export interface OffsetMapEntry {
+  trimmedStart: number;
+  originalStart: number;
+  duration: number;
+}
+
+export interface TrimmedAudio {
+  buffer: AudioBuffer;
+  offsetMap: OffsetMapEntry[];
+  removedSeconds: number;
+}
+
+/**
+ * Energy-based voice activity detection. The noise floor is estimated from
+ * the quietest frames, so it adapts to both studio and noisy recordings.
+ */
+export function detectSpeechRegions(audio: AudioBuffer): SpeechRegion[] {
+  const samples = audio.getChannelData(0);
+  const frameSize = Math.max(1, Math.floor(FRAME_SECONDS * audio.sampleRate));
+  const frameCount = Math.floor(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const levels = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    const offset = frame * frameSize;
+    for (let i = 0; i < frameSize; i++) {
+      energy += samples[offset + i] * samples[offset + i];
+    }
+    levels[frame] = 10 * Math.log10(energy / frameSize + 1e-10);
+  }
+
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  // Never treat near-digital silence as speech, even in very quiet files
+  const threshold = Math.max(noiseFloor + SPEECH_MARGIN_DB, -60);
+
+  const regions: SpeechRegion[] = [];
+  let regionStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const isSpeech = frame < frameCount && levels[frame] > threshold;
+    if (isSpeech && regionStart < 0) {
+      regionStart = frame;
+    } else if (!isSpeech && regionStart >= 0) {
+      regions.push({ start: regionStart * FRAME_SECONDS, end: frame * FRAME_SECONDS });
+      regionStart = -1;
+    }
+  }
+
+  // Merge close regions, drop blips, then pad so word edges survive
+  const merged: SpeechRegion[] = [];
+  regions.forEach(region => {
+    const last = merged[merged.length - 1];
+    if (last && region.start - last.end < MERGE_GAP_SECONDS) {
+      last.end = region.end;
+    } else {
+      merged.push({ ...region });
+    }
+  });
+
+  return merged
+    .filter(region => region.end - region.start >= MIN_SPEECH_SECONDS)
+    .map(region => ({
+      start: Math.max(0, region.start - REGION_PADDING_SECONDS),
+      end: Math.min(audio.duration, region.end + REGION_PADDING_SECONDS)
+    }));
+}
+
+/**
+ * Concatenates the speech regions into a new buffer, with a short gap between
+ * them, and records where each piece came from.
+ */
+export function trimToSpeech(audio: AudioBuffer, regions: SpeechRegion[]): TrimmedAudio {
+  const { sampleRate, numberOfChannels } = audio;
+  const gapSamples = Math.floor(JOIN_GAP_SECONDS * sampleRate);
+  const ranges = regions.map(region => ({
+    from: Math.floor(region.start * sampleRate),
+    to: Math.min(audio.length, Math.ceil(region.end * sampleRate))
+  }));
+
+  const length = ranges.reduce((total, range, index) =>
+    total + (range.to - range.from) + (index > 0 ? gapSamples : 0), 0);
+  const buffer = new AudioBuffer({ length: Math.max(1, length), numberOfChannels, sampleRate });
+
+  const offsetMap: OffsetMapEntry[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (index > 0) position += gapSamples;
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      buffer.copyToChannel(audio.getChannelData(channel).subarray(range.from, range.to), channel, position);
+    }
+    offsetMap.push({
+      trimmedStart: position / sampleRate,
+      originalStart: range.from / sampleRate,
+      duration: (range.to - range.from) / sampleRate
+    });
+    position += range.to - range.from;
+  });
+
+  return { buffer, offsetMap, removedSeconds: Math.max(0, audio.duration - buffer.duration) };
+}
+
+// Maps a time in the trimmed audio back onto the original recording
+export function toOriginalTime(time: number, offsetMap: OffsetMapEntry[]): number {
+  if (offsetMap.length === 0) return time;
+
+  let entry = offsetMap[0];
+  for (const candidate of offsetMap) {
+    if (candidate.trimmedStart > time) break;
+    entry = candidate;
+  }
+  // Times inside a join gap snap to the end of the preceding region
+  const within = Math.min(Math.max(0, time - entry.trimmedStart), entry.duration);
+  return entry.originalStart + within;
+}
+
+export function remapSegments(segments: TranscriptSegment[], offsetMap: OffsetMapEntry[]): TranscriptSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    start: toOriginalTime(segment.start, offsetMap),
+    end: toOriginalTime(segment.end, offsetMap)
+  }));
+}
+
+// Seconds of audio compared when looking for a pause to cut at
+const PAUSE_WINDOW_SECONDS = 0.3;
+
+/**
+ * Finds the quietest moment between `from` and `to` seconds, used to split
+ * long recordings between words rather than through them.
+ */
+export function findQuietestPoint(audio: AudioBuffer, from: number, to: number): number {
+  const samples = audio.getChannelData(0);
+  const windowSize = Math.max(1, Math.floor(PAUSE_WINDOW_SECONDS * audio.sampleRate));
+  const step = Math.max(1, Math.floor(windowSize / 2));
+  const start = Math.max(0, Math.floor(from * audio.sampleRate));
+  const end = Math.min(samples.length, Math.floor(to * audio.sampleRate));
+
+  let quietest = end;
+  let lowestEnergy = Infinity;
+  for (let offset = start; offset + windowSize <= end; offset += step) {
+    let energy = 0;
+    for (let i = offset; i < offset + windowSize; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (energy < lowestEnergy) {
+      lowestEnergy = energy;
+      quietest = offset + Math.floor(windowSize / 2);
+    }
+  }
+  return quietest / audio.sampleRate;
+}
@@ -0,0 +1,79 @@
+import { audioStorage, getStorageId, isStorageUrl, StoredPeaks } from './audioStorage';
+import { openAudioSource, TRANSCRIPTION_SAMPLE_RATE } from './audioWindows';
+
+export type WaveformPeaks = Omit<StoredPeaks, 'id'>;
+
+// Enough detail to zoom in on a few seconds, small enough to keep hours of it
+const PEAKS_PER_SECOND = 50;
+// Decoded audio goes to the worker a minute at a time
+const WINDOW_SECONDS = 60;
+
+// One computation per recording, however many waveforms ask for it
+const pending = new Map<string, Promise<WaveformPeaks>>();
+
+async function computePeaks(audioUrl: string): Promise<WaveformPeaks> {
+  const source = await openAudioSource(audioUrl);
+  const worker = new Worker(new URL('../workers/peaksWorker.js', import.meta.url), { type: 'module' });
+  const samplesPerPeak = TRANSCRIPTION_SAMPLE_RATE / PEAKS_PER_SECOND;
+
+  const reduceWindow = (id: number, samples: Float32Array) => new Promise<Uint8Array>((resolve, reject) => {
+    worker.onmessage = (event) => {
+      if (event.data.id !== id) return;
+      if (event.data.type === 'error') {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.peaks);
+      }
+    };
+    worker.onerror = (error) => reject(new Error(`Peaks worker error: ${error.message}`));
+    worker.postMessage({ id, samples, samplesPerPeak }, [samples.buffer]);
+  });
+
+  try {
+    const windows: Uint8Array[] = [];
+    for (let start = 0, id = 0; start < source.duration; start += WINDOW_SECONDS, id++) {
+      const audio = await source.read(start, Math.min(source.duration, start + WINDOW_SECONDS));
+      // Copied so the transfer doesn't detach the buffer's own channel
+      windows.push(await reduceWindow(id, new Float32Array(audio.getChannelData(0))));
+    }
+
+    const peaks = new Uint8Array(windows.reduce((total, window) => total + window.length, 0));
+    let offset = 0;
+    for (const window of windows) {
+      peaks.set(window, offset);
+      offset += window.length;
+    }
+    return { peaksPerSecond: PEAKS_PER_SECOND, duration: source.duration, peaks };
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Waveform peaks for a recording. Stored recordings compute them once and
+ * cache them in IndexedDB next to the audio.
+ */
+export function getWaveformPeaks(audioUrl: string): Promise<WaveformPeaks> {
+  const existing = pending.get(audioUrl);
+  if (existing) return existing;
+
+  const promise = (async () => {
+    if (!isStorageUrl(audioUrl)) return computePeaks(audioUrl);
+
+    const id = getStorageId(audioUrl);
+    const cached = await audioStorage.getPeaks(id).catch(() => null);
+    if (cached) return cached;
+
+    console.log('🌊 WaveformPeaks: Computing peaks for', id);
+    const peaks = await computePeaks(audioUrl);
+    await audioStorage.savePeaks({ id, ...peaks }).catch(error => {
+      console.error('❌ WaveformPeaks: Failed to cache peaks:', error);
+    });
+    return peaks;
+  })();
+
+  pending.set(audioUrl, promise);
+  // Once settled the cache (or a retry after an error) takes over
+  promise.finally(() => pending.delete(audioUrl)).catch(() => {});
+  return promise;
+}
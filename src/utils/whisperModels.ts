@@ -0,0 +1,107 @@
+// Whisper models offered for local transcription
+export interface WhisperModelOption {
+  id: string;
+  name: string;
+  description: string;
+  isEnglishOnly: boolean;
+  size: 'tiny' | 'small' | 'base' | 'medium' | 'large' | 'large-v2';
+  isBeta?: boolean;
+}
+
+export const whisperModelOptions: WhisperModelOption[] = [
+  {
+    id: 'Xenova/whisper-tiny.en',
+    name: 'Tiny (English)',
+    description: 'Fast, lightweight model optimized for English transcription',
+    isEnglishOnly: true,
+    size: 'tiny'
+  },
+  {
+    id: 'Xenova/whisper-tiny',
+    name: 'Tiny (Multilingual)',
+    description: 'Fast, lightweight model supporting multiple languages',
+    isEnglishOnly: false,
+    size: 'tiny'
+  },
+  {
+    id: 'Xenova/whisper-small.en',
+    name: 'Small (English)',
+    description: 'Balanced performance for English transcription',
+    isEnglishOnly: true,
+    size: 'small'
+  },
+  {
+    id: 'Xenova/whisper-small',
+    name: 'Small (Multilingual)',
+    description: 'Balanced performance supporting multiple languages',
+    isEnglishOnly: false,
+    size: 'small'
+  },
+  {
+    id: 'Xenova/whisper-base.en',
+    name: 'Base (English)',
+    description: 'Standard model for English transcription',
+    isEnglishOnly: true,
+    size: 'base'
+  },
+  {
+    id: 'Xenova/whisper-base',
+    name: 'Base (Multilingual)',
+    description: 'Standard model supporting multiple languages',
+    isEnglishOnly: false,
+    size: 'base'
+  },
+  {
+    id: 'Xenova/whisper-medium.en',
+    name: 'Medium (English)',
+    description: 'High accuracy for English transcription',
+    isEnglishOnly: true,
+    size: 'medium'
+  },
+  {
+    id: 'Xenova/whisper-large',
+    name: 'Large',
+    description: 'Highest accuracy for multilingual transcription',
+    isEnglishOnly: false,
+    size: 'large'
+  },
+  {
+    id: 'Xenova/whisper-large-v2',
+    name: 'Large V2',
+    description: 'Latest version with improved accuracy',
+    isEnglishOnly: false,
+    size: 'large-v2'
+  },
+  {
+    id: 'Xenova/nb-whisper-tiny-beta',
+    name: 'Tiny Beta',
+    description: 'Experimental tiny model with new features',
+    isEnglishOnly: false,
+    size: 'tiny',
+    isBeta: true
+  },
+  {
+    id: 'Xenova/nb-whisper-small-beta',
+    name: 'Small Beta',
+    description: 'Experimental small model with new features',
+    isEnglishOnly: false,
+    size: 'small',
+    isBeta: true
+  },
+  {
+    id: 'Xenova/nb-whisper-base-beta',
+    name: 'Base Beta',
+    description: 'Experimental base model with new features',
+    isEnglishOnly: false,
+    size: 'base',
+    isBeta: true
+  },
+  {
+    id: 'Xenova/nb-whisper-medium-beta',
+    name: 'Medium Beta',
+    description: 'Experimental medium model with new features',
+    isEnglishOnly: false,
+    size: 'medium',
+    isBeta: true
+  }
+];
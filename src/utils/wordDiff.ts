@@ -0,0 +1,155 @@
+export type DiffPart =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: string; removed: string; added: string };
+
+type DiffOp = { op: 'equal' | 'remove' | 'add'; token: string };
+
+// Beyond this many edits the texts are unrelated enough to show as one change
+const MAX_EDITS = 2000;
+
+// Words and the whitespace between them, so joining the tokens is lossless
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+/**
+ * Myers' O(ND) diff. Only the diagonals reached at each step are kept for
+ * backtracking, so memory grows with the number of edits, not the text size.
+ */
+function diffTokens(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let editCount = -1;
+  for (let d = 0; d <= max && editCount < 0; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        editCount = d;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (editCount < 0) return null;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = editCount; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ op: 'equal', token: a[--x] });
+      y--;
+    }
+    if (prevK === k + 1) {
+      ops.push({ op: 'add', token: b[prevY] });
+    } else {
+      ops.push({ op: 'remove', token: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0) {
+    ops.push({ op: 'equal', token: a[--x] });
+  }
+
+  return ops.reverse();
+}
+
+function groupOps(ops: DiffOp[]): DiffPart[] {
+  const parts: DiffPart[] = [];
+  ops.forEach(({ op, token }) => {
+    const last = parts[parts.length - 1];
+    if (op === 'equal') {
+      if (last?.type === 'equal') last.text += token;
+      else parts.push({ type: 'equal', text: token });
+      return;
+    }
+    const removed = op === 'remove' ? token : '';
+    const added = op === 'add' ? token : '';
+    if (last?.type === 'change') {
+      last.removed += removed;
+      last.added += added;
+    } else {
+      parts.push({ type: 'change', id: '', removed, added });
+    }
+  });
+
+  // A lone space between two changes reads as one edit, so fold it in
+  const merged: DiffPart[] = [];
+  parts.forEach((part, index) => {
+    const previous = merged[merged.length - 1];
+    const next = parts[index + 1];
+    if (part.type === 'equal' && !part.text.trim() && previous?.type === 'change' && next?.type === 'change') {
+      previous.removed += part.text;
+      previous.added += part.text;
+    } else if (part.type === 'change' && previous?.type === 'change') {
+      previous.removed += part.removed;
+      previous.added += part.added;
+    } else {
+      merged.push(part);
+    }
+  });
+
+  let hunkCount = 0;
+  return merged.map(part => part.type === 'change' ? { ...part, id: `hunk-${hunkCount++}` } : part);
+}
+
+/**
+ * Word-level diff from `from` to `to`. Change hunks carry ids so they can be
+ * accepted one at a time with applyHunks.
+ */
+export function diffWords(from: string, to: string): DiffPart[] {
+  const a = tokenize(from);
+  const b = tokenize(to);
+
+  // Shared leading and trailing text never needs diffing
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = diffTokens(middleA, middleB) ?? [
+    ...middleA.map(token => ({ op: 'remove' as const, token })),
+    ...middleB.map(token => ({ op: 'add' as const, token }))
+  ];
+
+  return groupOps([
+    ...a.slice(0, prefix).map(token => ({ op: 'equal' as const, token })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(token => ({ op: 'equal' as const, token }))
+  ]);
+}
+
+// Rebuilds the `from` text with only the accepted hunks switched over
+export function applyHunks(parts: DiffPart[], acceptedIds: Iterable<string>): string {
+  const accepted = new Set(acceptedIds);
+  return parts
+    .map(part => part.type === 'equal' ? part.text : accepted.has(part.id) ? part.added : part.removed)
+    .join('');
+}
+
+export const countHunks = (parts: DiffPart[]) => parts.filter(part => part.type === 'change').length;
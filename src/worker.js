@@ -36,9 +36,15 @@ class PipelineFactory {
 self.addEventListener("message", async (event) => {
     const message = event.data;
 
+    if (message.type === "preload") {
+        await preload(message.jobId, message.model, message.quantized);
+        return;
+    }
+
     // Do some work...
     // TODO use message data
     let transcript = await transcribe(
+        message.jobId,
         message.audio,
         message.model,
         message.multilingual,
@@ -52,6 +58,7 @@ self.addEventListener("message", async (event) => {
     self.postMessage({
         status: "complete",
         task: "automatic-speech-recognition",
+        jobId: message.jobId,
         data: transcript,
     });
 });
@@ -62,17 +69,7 @@ class AutomaticSpeechRecognitionPipelineFactory extends PipelineFactory {
     static quantized = null;
 }
 
-const transcribe = async (
-    audio,
-    model,
-    multilingual,
-    quantized,
-    subtask,
-    language,
-) => {
-
-    const isDistilWhisper = model.startsWith("distil-whisper/");
-
+const loadTranscriber = async (jobId, model, quantized) => {
     // Use the model name directly since it's already properly formatted in ModelSelector.tsx
     const modelName = model;
 
@@ -89,9 +86,37 @@ const transcribe = async (
     }
 
     // Load transcriber model
-    let transcriber = await p.getInstance((data) => {
-        self.postMessage(data);
+    // Model loading progress is tagged with the job that triggered it
+    return p.getInstance((data) => {
+        self.postMessage({ ...data, jobId });
     });
+};
+
+// Downloads (or loads from cache) a model without transcribing anything
+const preload = async (jobId, model, quantized) => {
+    try {
+        await loadTranscriber(jobId, model, quantized);
+        self.postMessage({ status: "loaded", jobId });
+    } catch (error) {
+        // A failed load must not stay cached as the current instance
+        AutomaticSpeechRecognitionPipelineFactory.instance = null;
+        self.postMessage({ status: "error", jobId, data: error });
+    }
+};
+
+const transcribe = async (
+    jobId,
+    audio,
+    model,
+    multilingual,
+    quantized,
+    subtask,
+    language,
+) => {
+
+    const isDistilWhisper = model.startsWith("distil-whisper/");
+
+    let transcriber = await loadTranscriber(jobId, model, quantized);
 
     const time_precision =
         transcriber.processor.feature_extractor.config.chunk_length /
@@ -142,6 +167,7 @@ const transcribe = async (
         self.postMessage({
             status: "update",
             task: "automatic-speech-recognition",
+            jobId: jobId,
             data: data,
         });
     }
@@ -171,10 +197,23 @@ const transcribe = async (
         self.postMessage({
             status: "error",
             task: "automatic-speech-recognition",
+            jobId: jobId,
             data: error,
         });
         return null;
     });
 
+    if (output) {
+        // The pipeline drops language tokens from its output, so decode the
+        // collected chunks once more to find out what was detected
+        const [, decoded] = transcriber.tokenizer._decode_asr(chunks_to_process, {
+            time_precision: time_precision,
+            return_timestamps: true,
+            return_language: true,
+            force_full_sequences: false,
+        });
+        output.language = decoded?.chunks?.find((chunk) => chunk.language)?.language ?? language;
+    }
+
     return output;
 };
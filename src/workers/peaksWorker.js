@@ -0,0 +1,26 @@
+// peaksWorker.js - Web Worker that reduces decoded audio to waveform peaks
+
+// Each message carries one window of mono samples; the reply holds the
+// loudest sample of every `samplesPerPeak` slice, scaled to 0-255
+self.onmessage = (event) => {
+  const { id, samples, samplesPerPeak } = event.data;
+
+  try {
+    const count = Math.ceil(samples.length / samplesPerPeak);
+    const peaks = new Uint8Array(count);
+
+    for (let i = 0; i < count; i++) {
+      const end = Math.min(samples.length, (i + 1) * samplesPerPeak);
+      let max = 0;
+      for (let j = i * samplesPerPeak; j < end; j++) {
+        const value = Math.abs(samples[j]);
+        if (value > max) max = value;
+      }
+      peaks[i] = Math.min(255, Math.round(max * 255));
+    }
+
+    self.postMessage({ id, type: 'peaks', peaks }, [peaks.buffer]);
+  } catch (error) {
+    self.postMessage({ id, type: 'error', error: error.message });
+  }
+};
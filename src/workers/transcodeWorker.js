@@ -0,0 +1,49 @@
+// transcodeWorker.js - Web Worker that encodes decoded PCM audio to MP3
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// Multiple of the 1152-sample MP3 frame, so every block fills whole frames
+const BLOCK_SIZE = 1152 * 10;
+
+const toInt16 = (samples) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+};
+
+// Receives the decoded channels (one or two) and replies with the MP3 data
+self.onmessage = (event) => {
+  const { channels, sampleRate, kbps } = event.data;
+
+  try {
+    const left = toInt16(channels[0]);
+    const right = channels.length > 1 ? toInt16(channels[1]) : undefined;
+    const encoder = new Mp3Encoder(right ? 2 : 1, sampleRate, kbps);
+    const parts = [];
+    let lastReported = 0;
+
+    for (let start = 0; start < left.length; start += BLOCK_SIZE) {
+      const end = Math.min(left.length, start + BLOCK_SIZE);
+      const encoded = right
+        ? encoder.encodeBuffer(left.subarray(start, end), right.subarray(start, end))
+        : encoder.encodeBuffer(left.subarray(start, end));
+      if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+
+      // Report every 5% so progress bars move without flooding the main thread
+      const progress = end / left.length;
+      if (progress - lastReported >= 0.05) {
+        lastReported = progress;
+        self.postMessage({ type: 'progress', progress });
+      }
+    }
+
+    const tail = encoder.flush();
+    if (tail.length > 0) parts.push(new Uint8Array(tail));
+
+    self.postMessage({ type: 'complete', blob: new Blob(parts, { type: 'audio/mpeg' }) });
+  } catch (error) {
+    self.postMessage({ type: 'error', error: error.message });
+  }
+};